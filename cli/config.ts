@@ -0,0 +1,120 @@
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import {
+  AgentProfileError,
+  defaultProfile,
+  parseProfilesFile,
+  PROVIDER_NAMES,
+  type AgentProfile,
+  type AgentProviderName,
+} from '../src/services/agentProfiles';
+import type { MockSettings } from '../src/services/providers';
+
+// The agent proxy on its default port (see server/config.ts)
+const DEFAULT_AGENT_URL = 'http://localhost:8787/api';
+
+// Bad flags, environment or config file; nothing was sent to the agent
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliConfig {
+  profile: AgentProfile;
+  mock: MockSettings;
+  // Mermaid CLI executable used for SVG output
+  mmdcPath: string;
+}
+
+// Command-line flags take precedence over the matching environment variables
+export interface ConfigFlags {
+  config?: string;
+  profile?: string;
+  agentUrl?: string;
+  timeoutMs?: number;
+}
+
+const readProvider = (): AgentProviderName | undefined => {
+  const raw = process.env.CNM_AGENT_PROVIDER;
+  if (!raw) return undefined;
+  if (!PROVIDER_NAMES.includes(raw as AgentProviderName)) {
+    throw new CliUsageError(`CNM_AGENT_PROVIDER must be one of ${PROVIDER_NAMES.join(', ')}, got "${raw}"`);
+  }
+  return raw as AgentProviderName;
+};
+
+// Same format as the profiles exported from the app's settings page
+const readProfiles = async (path: string): Promise<AgentProfile[]> => {
+  let json: string;
+  try {
+    json = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new CliUsageError(`Unable to read config file ${path}: ${(error as Error).message}`);
+  }
+
+  try {
+    return parseProfilesFile(json);
+  } catch (error) {
+    if (error instanceof AgentProfileError) throw new CliUsageError(`${path}: ${error.message}`);
+    throw error;
+  }
+};
+
+const pickProfile = (profiles: AgentProfile[], path: string, wanted?: string): AgentProfile => {
+  if (!profiles.length) throw new CliUsageError(`${path} does not contain any profiles`);
+  if (!wanted) return profiles[0];
+
+  const match = profiles.find(profile => profile.id === wanted)
+    ?? profiles.find(profile => profile.name.toLowerCase() === wanted.toLowerCase());
+  if (!match) {
+    throw new CliUsageError(`No profile "${wanted}" in ${path}. Available: ${profiles.map(profile => profile.name).join(', ')}`);
+  }
+  return match;
+};
+
+const isAbsoluteUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export async function loadConfig(flags: ConfigFlags): Promise<CliConfig> {
+  const configPath = flags.config || process.env.CNM_CONFIG;
+  const wanted = flags.profile || process.env.CNM_PROFILE;
+  if (wanted && !configPath) {
+    throw new CliUsageError('Picking a profile needs a config file (--config or CNM_CONFIG)');
+  }
+
+  const provider = readProvider();
+  let profile = configPath
+    ? pickProfile(await readProfiles(configPath), configPath, wanted)
+    : defaultProfile(provider ?? 'integrail', DEFAULT_AGENT_URL);
+  if (provider) profile = { ...profile, provider };
+
+  const agentUrl = flags.agentUrl || process.env.CNM_AGENT_URL;
+  if (agentUrl) profile = { ...profile, baseUrl: agentUrl };
+  if (flags.timeoutMs) profile = { ...profile, polling: { ...profile.polling, deadlineMs: flags.timeoutMs } };
+
+  // Profiles exported from the app usually point at /api on the page's origin
+  if (profile.provider === 'integrail' && !isAbsoluteUrl(profile.baseUrl)) {
+    throw new CliUsageError(
+      `Profile "${profile.name}" uses the agent proxy at ${profile.baseUrl}, which only resolves in the browser. ` +
+      `Pass --agent-url or set CNM_AGENT_URL to its full URL, e.g. ${DEFAULT_AGENT_URL}`,
+    );
+  }
+
+  return {
+    // The result cache lives in the browser's IndexedDB; every CLI run reaches the agent
+    profile: { ...profile, cacheTtlMs: 0 },
+    mock: {
+      scenario: process.env.CNM_MOCK_SCENARIO || undefined,
+      latencyMs: Number(process.env.CNM_MOCK_LATENCY_MS) || undefined,
+    },
+    mmdcPath: process.env.CNM_MMDC || 'mmdc',
+  };
+}
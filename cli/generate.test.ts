@@ -0,0 +1,195 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AgentLogger, ExecutionStatus } from '../src/services/agentProvider';
+import { defaultProfile } from '../src/services/agentProfiles';
+import { createAgentProvider } from '../src/services/providers';
+import { EXIT_CANCELLED, EXIT_FAILED, EXIT_OK, EXIT_TIMEOUT, exitCodeFor, generate, planJobs, type OutputFormat } from './generate';
+
+const MERMAID = 'flowchart TD\n    A[Open ticket] --> B{Valid?}\n    B -->|Yes| C[Resolve]\n    B -->|No| D[Reject]';
+// Fenced, with smart quotes and a keyword as node ID
+const BROKEN_MERMAID = '```mermaid\nflowchart TD\n    A[“Open ticket”] --> end[Close]\n```';
+const REPAIRED_MERMAID = 'flowchart TD\n    A["Open ticket"] --> endNode[Close]';
+
+// What the stub agent does with each video, picked by its ID
+type Behaviour = 'finish' | 'broken' | 'fail' | 'hang';
+const VIDEOS: Record<Behaviour, string> = {
+  finish: 'finishVid01',
+  broken: 'brokenVid01',
+  fail: 'failVideo01',
+  hang: 'hangVideo01',
+};
+
+const EXECUTION_STATUS: Record<Behaviour, ExecutionStatus> = {
+  finish: 'finished',
+  broken: 'finished',
+  fail: 'failed',
+  hang: 'running',
+};
+
+const OUTPUTS: Record<Behaviour, Record<string, string>> = {
+  finish: { mermaid: MERMAID, description: '## Steps\n- Resolve' },
+  broken: { mermaid: BROKEN_MERMAID, description: '' },
+  fail: {},
+  hang: {},
+};
+
+const url = (behaviour: Behaviour) => `https://www.youtube.com/watch?v=${VIDEOS[behaviour]}`;
+
+// Speaks the agent proxy's API (see server/): POST /api/execute starts a run,
+// GET /api/status/:id reports it
+class StubAgent {
+  readonly requests: string[] = [];
+  private readonly runs = new Map<string, Behaviour>();
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer(async (req, res) => {
+      const path = new URL(req.url ?? '/', 'http://stub').pathname;
+      this.requests.push(`${req.method} ${path}`);
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.method === 'POST' && path === '/api/execute') {
+        let body = '';
+        for await (const chunk of req) body += chunk;
+        const { inputs } = JSON.parse(body) as { inputs: { videoId: string } };
+        const behaviour = (Object.keys(VIDEOS) as Behaviour[]).find(key => VIDEOS[key] === inputs.videoId) ?? 'fail';
+        const executionId = `exec-${this.runs.size + 1}`;
+        this.runs.set(executionId, behaviour);
+        send(200, { executionId });
+        return;
+      }
+
+      const status = path.match(/^\/api\/status\/([^/]+)$/);
+      const behaviour = status && req.method === 'GET' ? this.runs.get(status[1]) : undefined;
+      if (!status || !behaviour) {
+        send(404, { error: 'Not found' });
+        return;
+      }
+      send(200, {
+        status: 'ok',
+        execution: {
+          _id: status[1],
+          status: EXECUTION_STATUS[behaviour],
+          outputs: OUTPUTS[behaviour],
+        },
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const silent: AgentLogger = { log: () => {}, warn: () => {}, error: () => {} };
+
+describe('generate against a stub agent', () => {
+  const stub = new StubAgent();
+  let baseUrl = '';
+  let outDir = '';
+
+  beforeAll(async () => {
+    baseUrl = await stub.start();
+  });
+  afterAll(() => stub.stop());
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'cnm-test-'));
+    // Progress lines are not under test
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  const run = (urls: string[], { formats = ['mmd', 'md'] as OutputFormat[], signal = new AbortController().signal } = {}) => {
+    const profile = {
+      ...defaultProfile('integrail', baseUrl),
+      polling: { deadlineMs: 400, initialDelayMs: 10, maxDelayMs: 50, maxRetries: 0 },
+      cacheTtlMs: 0,
+    };
+    return generate(createAgentProvider(profile, {}, silent), planJobs(urls), { outDir, formats, mmdcPath: 'mmdc', signal });
+  };
+
+  it('writes the diagram files and exits with 0', async () => {
+    const outcomes = await run([url('finish'), `https://youtu.be/${VIDEOS.finish}?t=30`]);
+
+    expect(exitCodeFor(outcomes)).toBe(EXIT_OK);
+    expect(outcomes.flatMap(outcome => (outcome.status === 'ok' ? outcome.files : []))).toEqual([
+      join(outDir, `${VIDEOS.finish}.mmd`),
+      join(outDir, `${VIDEOS.finish}.md`),
+      join(outDir, `${VIDEOS.finish}-30-end.mmd`),
+      join(outDir, `${VIDEOS.finish}-30-end.md`),
+    ]);
+    expect(await readFile(join(outDir, `${VIDEOS.finish}.mmd`), 'utf8')).toBe(`${MERMAID}\n`);
+    const markdown = await readFile(join(outDir, `${VIDEOS.finish}.md`), 'utf8');
+    expect(markdown).toContain(url('finish'));
+    expect(markdown).toContain('A[Open ticket] --> B{Valid?}');
+    expect(markdown).toContain('- Resolve');
+    expect(stub.requests).toContain('POST /api/execute');
+  });
+
+  it('writes the repaired diagram and reports the repairs', async () => {
+    const outcomes = await run([url('broken')]);
+
+    expect(exitCodeFor(outcomes)).toBe(EXIT_OK);
+    expect(await readFile(join(outDir, `${VIDEOS.broken}.mmd`), 'utf8')).toBe(`${REPAIRED_MERMAID}\n`);
+    const markdown = await readFile(join(outDir, `${VIDEOS.broken}.md`), 'utf8');
+    expect(markdown).toContain('A["Open ticket"] --> endNode[Close]');
+    expect(markdown.match(/```/g)).toHaveLength(2);
+    const stderr = vi.mocked(process.stderr.write).mock.calls.map(([chunk]) => String(chunk)).join('');
+    expect(stderr).toContain('repaired: Removed the Markdown code fence around the diagram');
+    expect(stderr).toContain('repaired: Renamed node IDs that are mermaid keywords');
+  });
+
+  it('keeps going after a failed video and exits with 1', async () => {
+    const outcomes = await run([url('fail'), url('finish')]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['failed', 'ok']);
+    expect(outcomes[0]).toMatchObject({ error: 'AI agent execution failed' });
+    expect(exitCodeFor(outcomes)).toBe(EXIT_FAILED);
+    expect((await readdir(outDir)).sort()).toEqual([`${VIDEOS.finish}.md`, `${VIDEOS.finish}.mmd`]);
+  });
+
+  it('exits with 3 when the only failures are timeouts', async () => {
+    const outcomes = await run([url('hang'), url('finish')]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['timeout', 'ok']);
+    expect(exitCodeFor(outcomes)).toBe(EXIT_TIMEOUT);
+  });
+
+  it('reports a failure over a timeout', async () => {
+    const outcomes = await run([url('hang'), url('fail')]);
+    expect(exitCodeFor(outcomes)).toBe(EXIT_FAILED);
+  });
+
+  it('stops at the running video when cancelled and exits with 130', async () => {
+    const controller = new AbortController();
+    const polled = stub.requests.length;
+    const timer = setInterval(() => {
+      if (stub.requests.slice(polled).some(request => request.startsWith('GET /api/status/'))) controller.abort();
+    }, 5);
+
+    const outcomes = await run([url('hang'), url('finish')], { signal: controller.signal }).finally(() => clearInterval(timer));
+
+    expect(outcomes).toEqual([
+      { url: url('hang'), status: 'cancelled', error: expect.any(String) },
+      { url: url('finish'), status: 'cancelled', error: 'Not started' },
+    ]);
+    expect(exitCodeFor(outcomes)).toBe(EXIT_CANCELLED);
+    expect(await readdir(outDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AgentProvider, ProcessResult } from '../src/services/agentProvider';
+import { AgentCancelledError, AgentTimeoutError } from '../src/services/agentErrors';
+import type { PollProgressEvent } from '../src/services/polling';
+import { parseYouTubeVideoUrl, YouTubeUrlError } from '../src/lib/youtube';
+import { applyFixers } from '../src/lib/mermaidRepair';
+import { diagramAltText, withAltText } from '../src/lib/export/altText';
+import { buildMarkdown, exportTitle } from '../src/lib/export/markdown';
+import { DEFAULT_EXPORT_OPTIONS } from '../src/lib/export/types';
+import { CliUsageError } from './config';
+import { renderSvg } from './mermaidCli';
+
+export type OutputFormat = 'mmd' | 'svg' | 'md';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['mmd', 'svg', 'md'];
+
+export interface GenerateOptions {
+  outDir: string;
+  formats: OutputFormat[];
+  mmdcPath: string;
+  signal: AbortSignal;
+}
+
+export type GenerateOutcome =
+  | { url: string; status: 'ok'; files: string[] }
+  | { url: string; status: 'failed' | 'timeout' | 'cancelled'; error: string };
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+// Every failed URL ran into the polling deadline; worth retrying as is
+export const EXIT_TIMEOUT = 3;
+export const EXIT_CANCELLED = 130;
+
+export interface Job {
+  url: string;
+  // File name without extension, e.g. dQw4w9WgXcQ or dQw4w9WgXcQ-30-90 for a clip
+  baseName: string;
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+const describeProgress = (event: PollProgressEvent): string => {
+  switch (event.type) {
+    case 'submitted':
+      return `submitted as ${event.executionId}`;
+    case 'status':
+      return `${event.status} after ${seconds(event.elapsedMs)}`;
+    case 'retry':
+      return `${event.error}; retrying in ${seconds(event.delayMs)}`;
+  }
+};
+
+// Every URL is checked before the first agent run, so a typo in the last one
+// does not surface after minutes of waiting
+export const planJobs = (urls: string[]): Job[] =>
+  urls.map(url => {
+    try {
+      const { videoId, startSeconds, endSeconds } = parseYouTubeVideoUrl(url);
+      const clip = startSeconds !== undefined || endSeconds !== undefined ? `-${startSeconds ?? 0}-${endSeconds ?? 'end'}` : '';
+      return { url, baseName: `${videoId}${clip}` };
+    } catch (error) {
+      if (error instanceof YouTubeUrlError) throw new CliUsageError(`${url}: ${error.message}`);
+      throw error;
+    }
+  });
+
+const writeOutputs = async (job: Job, result: ProcessResult, options: GenerateOptions): Promise<string[]> => {
+  const files: string[] = [];
+  const content = { source: result.mermaid, description: result.description, origin: job.url };
+  const title = exportTitle(content);
+  for (const format of options.formats) {
+    const file = join(options.outDir, `${job.baseName}.${format}`);
+    switch (format) {
+      case 'mmd':
+        await writeFile(file, `${result.mermaid.trim()}\n`);
+        break;
+      case 'md':
+        await writeFile(file, buildMarkdown(DEFAULT_EXPORT_OPTIONS, title, content));
+        break;
+      case 'svg':
+        await renderSvg(options.mmdcPath, withAltText(result.mermaid, title, diagramAltText(result.mermaid)), file);
+        break;
+    }
+    files.push(file);
+  }
+  return files;
+};
+
+export const exitCodeFor = (outcomes: GenerateOutcome[]): number => {
+  const statuses = new Set(outcomes.map(outcome => outcome.status));
+  if (statuses.has('cancelled')) return EXIT_CANCELLED;
+  if (statuses.has('failed')) return EXIT_FAILED;
+  if (statuses.has('timeout')) return EXIT_TIMEOUT;
+  return EXIT_OK;
+};
+
+// Runs the URLs one after another through the same agent client the app
+// uses. Progress goes to stderr; a failed URL does not stop the others, but
+// cancelling does.
+export async function generate(provider: AgentProvider, jobs: Job[], options: GenerateOptions): Promise<GenerateOutcome[]> {
+  await mkdir(options.outDir, { recursive: true });
+
+  const outcomes: GenerateOutcome[] = [];
+  for (const [i, job] of jobs.entries()) {
+    const prefix = `[${i + 1}/${jobs.length}] ${job.url}`;
+    if (options.signal.aborted) {
+      outcomes.push({ url: job.url, status: 'cancelled', error: 'Not started' });
+      continue;
+    }
+
+    log(`${prefix}: starting`);
+    try {
+      const result = await provider.processYouTubeUrl(job.url, {
+        signal: options.signal,
+        onProgress: event => log(`${prefix}: ${describeProgress(event)}`),
+      });
+      // The app repairs agent output before rendering and exporting it. Mermaid
+      // cannot parse without a DOM here, so the fixers always run; they leave
+      // valid source alone.
+      const { source, applied } = applyFixers(result.mermaid);
+      applied.forEach(fixer => log(`${prefix}: repaired: ${fixer.description}`));
+      const files = await writeOutputs(job, { ...result, mermaid: source }, options);
+      files.forEach(file => log(`${prefix}: wrote ${file}`));
+      outcomes.push({ url: job.url, status: 'ok', files });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = error instanceof AgentTimeoutError ? 'timeout' : error instanceof AgentCancelledError ? 'cancelled' : 'failed';
+      log(`${prefix}: ${status}: ${message}`);
+      outcomes.push({ url: job.url, status, error: message });
+    }
+  }
+  return outcomes;
+}
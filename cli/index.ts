@@ -0,0 +1,143 @@
+import { parseArgs } from 'node:util';
+import { resolve } from 'node:path';
+import type { AgentLogger } from '../src/services/agentProvider';
+import { createAgentProvider } from '../src/services/providers';
+import { CliUsageError, loadConfig } from './config';
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, exitCodeFor, generate, OUTPUT_FORMATS, planJobs, type OutputFormat } from './generate';
+import { checkMermaidCli } from './mermaidCli';
+
+// Generates diagrams without the browser, through the agent proxy (see
+// server/). Written files are listed on stdout, progress goes to stderr.
+
+const USAGE = `Usage: cnm generate <youtube-url...> [options]
+
+Options:
+  -o, --out <dir>         Output directory (default: current directory)
+  -f, --format <list>     Comma-separated: ${OUTPUT_FORMATS.join(', ')} (default: mmd,md)
+  -c, --config <file>     Agent profiles file exported from the app's settings
+  -p, --profile <name>    Profile id or name from the config file (default: first)
+      --agent-url <url>   Agent proxy URL (default: http://localhost:8787/api)
+      --timeout <seconds> Give up on a video after this long
+  -v, --verbose           Show the agent client's own logging
+  -h, --help              Show this help
+
+Environment:
+  CNM_CONFIG, CNM_PROFILE, CNM_AGENT_URL   Defaults for the options above
+  CNM_AGENT_PROVIDER=mock                  Replay recorded fixtures instead
+  CNM_MOCK_SCENARIO, CNM_MOCK_LATENCY_MS   Fixture and delay for the mock provider
+  CNM_MMDC                                 Mermaid CLI used for SVG (default: mmdc)
+
+Exit codes: 0 all generated, 1 a video failed, 2 usage or configuration error,
+3 only timeouts, 130 cancelled`;
+
+const parseFormats = (value: string): OutputFormat[] => {
+  const formats = [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+  const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+  if (unknown.length || !formats.length) {
+    throw new CliUsageError(`${unknown.length ? `Unknown format "${unknown.join(',')}"` : 'No format given'}. Expected a comma-separated list of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return formats as OutputFormat[];
+};
+
+const parseTimeout = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new CliUsageError(`--timeout must be a positive number of seconds, got "${value}"`);
+  }
+  return seconds * 1000;
+};
+
+const readArgs = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o', default: '.' },
+        format: { type: 'string', short: 'f', default: 'mmd,md' },
+        config: { type: 'string', short: 'c' },
+        profile: { type: 'string', short: 'p' },
+        'agent-url': { type: 'string' },
+        timeout: { type: 'string' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+};
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = readArgs(argv);
+  const [command, ...urls] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (command !== 'generate') {
+    throw new CliUsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  if (!urls.length) throw new CliUsageError('Pass at least one YouTube video URL');
+
+  const jobs = planJobs(urls);
+  const formats = parseFormats(values.format);
+  const config = await loadConfig({
+    config: values.config,
+    profile: values.profile,
+    agentUrl: values['agent-url'],
+    timeoutMs: parseTimeout(values.timeout),
+  });
+  if (formats.includes('svg') && !(await checkMermaidCli(config.mmdcPath))) {
+    throw new CliUsageError(
+      `SVG output needs the Mermaid CLI, but "${config.mmdcPath}" could not be run. ` +
+      'Install @mermaid-js/mermaid-cli or point CNM_MMDC at its mmdc executable',
+    );
+  }
+
+  // The agent clients log for the browser's devtools; here that goes to
+  // stderr with -v, so nothing ends up between the file names on stdout
+  const quiet = () => {};
+  const logger: AgentLogger = values.verbose
+    ? { log: console.error, warn: console.error, error: console.error }
+    : { log: quiet, warn: quiet, error: quiet };
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    process.stderr.write('Cancelling...\n');
+    controller.abort();
+  });
+
+  const provider = createAgentProvider(config.profile, config.mock, logger);
+  process.stderr.write(`Using ${config.profile.provider === 'mock' ? 'mock fixtures' : config.profile.baseUrl} (profile "${config.profile.name}")\n`);
+
+  const outcomes = await generate(provider, jobs, {
+    outDir: resolve(values.out),
+    formats,
+    mmdcPath: config.mmdcPath,
+    signal: controller.signal,
+  });
+  outcomes.forEach(outcome => {
+    if (outcome.status === 'ok') outcome.files.forEach(file => process.stdout.write(`${file}\n`));
+  });
+
+  const done = outcomes.filter(outcome => outcome.status === 'ok').length;
+  process.stderr.write(`${done} of ${outcomes.length} diagrams generated\n`);
+  return exitCodeFor(outcomes);
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`cnm: ${error.message}\nRun "cnm --help" for usage.\n`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      process.stderr.write(`cnm: ${error instanceof Error ? error.stack : String(error)}\n`);
+      process.exitCode = EXIT_FAILED;
+    }
+  },
+);
@@ -0,0 +1,42 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { withThemeDirective } from '../src/lib/export/directive';
+import { DEFAULT_THEME } from '../src/lib/themes';
+
+// Rendering needs a browser, so SVG output goes through the Mermaid CLI
+// (@mermaid-js/mermaid-cli), which drives a headless Chromium of its own.
+// It is not a dependency of this project; install it where SVGs are needed.
+
+const RENDER_TIMEOUT_MS = 120_000;
+
+const run = (command: string, args: string[], timeout: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    execFile(command, args, { timeout }, (error, _stdout, stderr) => {
+      if (error) reject(new Error(stderr.trim() || error.message));
+      else resolve();
+    });
+  });
+
+// Checked up front so a missing install is reported before any agent run
+export async function checkMermaidCli(mmdcPath: string): Promise<boolean> {
+  try {
+    await run(mmdcPath, ['--version'], 30_000);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Same theme and SVG text labels as the app's SVG export
+export async function renderSvg(mmdcPath: string, source: string, outFile: string): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'cnm-'));
+  try {
+    const input = join(dir, 'diagram.mmd');
+    await writeFile(input, withThemeDirective(source, DEFAULT_THEME));
+    await run(mmdcPath, ['--quiet', '--input', input, '--output', outFile], RENDER_TIMEOUT_MS);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
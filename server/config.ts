@@ -0,0 +1,72 @@
+import 'dotenv/config';
+
+export interface ProxyConfig {
+  port: number;
+  apiBaseUrl: string;
+  bearerToken: string;
+  accountId: string;
+  agentId: string;
+  // Further IDs client profiles may select; the configured ones always work
+  allowedAccountIds: string[];
+  allowedAgentIds: string[];
+  // Optional; playlist expansion answers 501 without it
+  youtubeApiKey?: string;
+  allowedOrigins: string[];
+  // Rate-limit by X-Forwarded-For; only safe behind a proxy that sets it
+  trustProxy: boolean;
+  rateLimit: {
+    windowMs: number;
+    maxRequests: number;
+  };
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}"`);
+  }
+  return value;
+};
+
+const readList = (name: string): string[] =>
+  (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const readBoolean = (name: string): boolean => {
+  const raw = (process.env[name] || '').trim().toLowerCase();
+  if (!raw || raw === 'false' || raw === '0') return false;
+  if (raw === 'true' || raw === '1') return true;
+  throw new Error(`${name} must be true or false, got "${process.env[name]}"`);
+};
+
+const readRequired = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+export function loadConfig(): ProxyConfig {
+  return {
+    port: readNumber('PROXY_PORT', 8787),
+    apiBaseUrl: process.env.INTEGRAIL_API_BASE_URL || 'https://beta-cloud.integrail.ai/api',
+    bearerToken: readRequired('INTEGRAIL_BEARER_TOKEN'),
+    accountId: readRequired('INTEGRAIL_ACCOUNT_ID'),
+    agentId: readRequired('INTEGRAIL_AGENT_ID'),
+    allowedAccountIds: readList('INTEGRAIL_ALLOWED_ACCOUNT_IDS'),
+    allowedAgentIds: readList('INTEGRAIL_ALLOWED_AGENT_IDS'),
+    youtubeApiKey: process.env.YOUTUBE_API_KEY || undefined,
+    allowedOrigins: readList('PROXY_ALLOWED_ORIGINS'),
+    trustProxy: readBoolean('TRUST_PROXY'),
+    rateLimit: {
+      windowMs: readNumber('RATE_LIMIT_WINDOW_MS', 60_000),
+      maxRequests: readNumber('RATE_LIMIT_MAX_REQUESTS', 120),
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { loadConfig, type ProxyConfig } from './config';
+import { RateLimiter } from './rateLimiter';
+
+// Large enough for a transcript input plus the diagram sent with follow-ups
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_PLAYLIST_ITEMS = 200;
+const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3/playlistItems';
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// X-Forwarded-For is whatever the caller sends unless a proxy in front of us
+// rewrites it, so it only counts with TRUST_PROXY. The last entry is the one
+// that proxy appended; anything before it came from the client.
+const getClientKey = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = trustProxy ? req.headers['x-forwarded-for'] : undefined;
+  const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop();
+  return last?.trim() || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+const applyCors = (config: ProxyConfig, req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+};
+
+// Agent profiles in the client may ask for another account or agent through
+// ?accountId= / ?agentId=; only IDs the operator listed are honoured.
+const pickId = (requested: string | null, configured: string, allowed: string[], what: string): string => {
+  if (!requested || requested === configured) return configured;
+  if (!allowed.includes(requested)) {
+    throw new HttpError(403, `${what} "${requested}" is not enabled on this proxy`);
+  }
+  return requested;
+};
+
+const accountFor = (config: ProxyConfig, url: URL) =>
+  pickId(url.searchParams.get('accountId'), config.accountId, config.allowedAccountIds, 'Account');
+
+// Forwards a request to Integrail with the server-held credentials and relays
+// the upstream status and body unchanged, so the client keeps its error handling.
+const forwardToAgent = async (
+  config: ProxyConfig,
+  res: ServerResponse,
+  accountId: string,
+  path: string,
+  init: RequestInit,
+) => {
+  const upstream = await fetch(`${config.apiBaseUrl}/${encodeURIComponent(accountId)}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${config.bearerToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const body = await upstream.text();
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+  });
+  res.end(body);
+};
+
+const handleExecute = async (config: ProxyConfig, req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const accountId = accountFor(config, url);
+  const agentId = pickId(url.searchParams.get('agentId'), config.agentId, config.allowedAgentIds, 'Agent');
+  const body = await readJsonBody(req);
+  const inputs = (body as { inputs?: unknown } | null)?.inputs;
+
+  if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
+    throw new HttpError(400, 'Request body must contain an "inputs" object');
+  }
+
+  await forwardToAgent(config, res, accountId, `/agent/${encodeURIComponent(agentId)}/execute`, {
+    method: 'POST',
+    body: JSON.stringify({ inputs }),
+  });
+};
+
+const handleStatus = async (config: ProxyConfig, res: ServerResponse, url: URL, executionId: string) => {
+  await forwardToAgent(config, res, accountFor(config, url), `/agent/${encodeURIComponent(executionId)}/status`, {
+    method: 'GET',
+  });
+};
+
+interface PlaylistItemsPage {
+  nextPageToken?: string;
+  items?: { snippet?: { title?: string; resourceId?: { videoId?: string } } }[];
+}
+
+// Browsers cannot list a playlist themselves (no CORS on youtube.com), so the
+// proxy pages through the YouTube Data API with a server-held key.
+const handlePlaylist = async (config: ProxyConfig, res: ServerResponse, playlistId: string) => {
+  if (!config.youtubeApiKey) {
+    throw new HttpError(501, 'Playlist expansion is not configured on this server');
+  }
+
+  const videos: { videoId: string; title: string }[] = [];
+  let pageToken: string | undefined;
+  do {
+    const url = new URL(YOUTUBE_API_URL);
+    url.searchParams.set('part', 'snippet');
+    url.searchParams.set('maxResults', '50');
+    url.searchParams.set('playlistId', playlistId);
+    url.searchParams.set('key', config.youtubeApiKey);
+    if (pageToken) url.searchParams.set('pageToken', pageToken);
+
+    const upstream = await fetch(url);
+    if (upstream.status === 404) {
+      throw new HttpError(404, 'Playlist not found or private');
+    }
+    if (!upstream.ok) {
+      throw new HttpError(502, `YouTube API request failed with ${upstream.status}`);
+    }
+
+    const page = (await upstream.json()) as PlaylistItemsPage;
+    for (const item of page.items ?? []) {
+      const videoId = item.snippet?.resourceId?.videoId;
+      if (videoId) videos.push({ videoId, title: item.snippet?.title ?? '' });
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken && videos.length < MAX_PLAYLIST_ITEMS);
+
+  sendJson(res, 200, { playlistId, videos: videos.slice(0, MAX_PLAYLIST_ITEMS) });
+};
+
+function startServer(config: ProxyConfig) {
+  const limiter = new RateLimiter(config.rateLimit.windowMs, config.rateLimit.maxRequests);
+  const pruneTimer = setInterval(() => limiter.prune(), config.rateLimit.windowMs);
+  pruneTimer.unref();
+
+  const server = createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const client = getClientKey(req, config.trustProxy);
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    res.on('finish', () => {
+      console.log(
+        `${new Date(startedAt).toISOString()} ${client} ${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - startedAt}ms`
+      );
+    });
+
+    applyCors(config, req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      if (!url.pathname.startsWith('/api/')) {
+        throw new HttpError(404, 'Not found');
+      }
+
+      const limit = limiter.consume(client);
+      res.setHeader('X-RateLimit-Limit', config.rateLimit.maxRequests);
+      res.setHeader('X-RateLimit-Remaining', limit.remaining);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', Math.ceil((limit.resetAt - Date.now()) / 1000));
+        throw new HttpError(429, 'Too many requests, please slow down');
+      }
+
+      const statusMatch = url.pathname.match(/^\/api\/status\/([^/]+)$/);
+      const playlistMatch = url.pathname.match(/^\/api\/playlist\/([\w-]+)$/);
+
+      if (url.pathname === '/api/execute' && req.method === 'POST') {
+        await handleExecute(config, req, res, url);
+      } else if (statusMatch && req.method === 'GET') {
+        await handleStatus(config, res, url, decodeURIComponent(statusMatch[1]));
+      } else if (playlistMatch && req.method === 'GET') {
+        await handlePlaylist(config, res, playlistMatch[1]);
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Proxy error:', error);
+        sendJson(res, 502, { error: 'Unable to reach the AI agent service' });
+      }
+    }
+  });
+
+  server.listen(config.port, () => {
+    console.log(`Agent proxy listening on http://localhost:${config.port}`);
+  });
+
+  return server;
+}
+
+startServer(loadConfig());
@@ -0,0 +1,46 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window limiter keyed by client address. Good enough for a single
+// proxy instance; swap for a shared store if this ever runs behind a balancer.
+export class RateLimiter {
+  private readonly windows = new Map<string, Window>();
+
+  constructor(
+    private readonly windowMs: number,
+    private readonly maxRequests: number,
+  ) {}
+
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+
+    return {
+      allowed: window.count <= this.maxRequests,
+      remaining: Math.max(0, this.maxRequests - window.count),
+      resetAt: window.resetAt,
+    };
+  }
+
+  prune(now: number = Date.now()): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -1,10 +1,17 @@
 import { Routes, Route } from 'react-router-dom'
 import ChatInterface from './components/ChatInterface'
+import SharedView from './components/SharedView'
+import SettingsView from './components/SettingsView'
+import { SHARE_PATH } from './lib/shareLink'
 
 function App() {
   return (
     <Routes>
       <Route path="/" element={<ChatInterface />} />
+      <Route path="/history" element={<ChatInterface />} />
+      <Route path="/history/:executionId" element={<ChatInterface />} />
+      <Route path={SHARE_PATH} element={<SharedView />} />
+      <Route path="/settings" element={<SettingsView />} />
       <Route path="*" element={<ChatInterface />} />
     </Routes>
   )
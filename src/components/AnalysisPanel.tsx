@@ -0,0 +1,72 @@
+import { AlertTriangle, CheckCircle2, Info, ListChecks } from 'lucide-react'
+import { LINT_RULE_LABELS, findingKey, type FlowAnalysis, type LintFinding } from '../lib/flowchart/analyze'
+import { cn } from '../lib/utils'
+
+interface AnalysisPanelProps {
+  analysis: FlowAnalysis
+  // Finding whose nodes are highlighted alone; null highlights every finding
+  selected: LintFinding | null
+  onSelect: (finding: LintFinding | null) => void
+}
+
+// Structural check of the flowchart shown next to the diagram: summary
+// numbers plus lint findings. Selecting a finding narrows the highlight in
+// the diagram to its nodes.
+export default function AnalysisPanel({ analysis, selected, onSelect }: AnalysisPanelProps) {
+  const { stats, findings } = analysis
+  const summary = [
+    { label: 'Steps', value: stats.steps },
+    { label: 'Branches', value: stats.branches },
+    { label: 'Longest path', value: stats.longestPath },
+  ]
+
+  return (
+    <section className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4 space-y-3" aria-label="Diagram check">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+        <ListChecks className="w-4 h-4 text-cyber-blue" />
+        Diagram check
+      </h4>
+
+      <dl className="grid grid-cols-3 gap-2 text-center">
+        {summary.map(({ label, value }) => (
+          <div key={label} className="rounded bg-slate-900/40 px-2 py-1.5">
+            <dt className="text-[11px] text-slate-400">{label}</dt>
+            <dd className="text-lg font-semibold text-slate-100 tabular-nums">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {findings.length ? (
+        <ul className="space-y-1.5 text-xs">
+          {findings.map(finding => {
+            const isSelected = finding === selected
+            const Icon = finding.severity === 'warning' ? AlertTriangle : Info
+            return (
+              <li key={findingKey(finding)}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(isSelected ? null : finding)}
+                  aria-pressed={isSelected}
+                  className={cn(
+                    "w-full flex items-start gap-2 rounded px-2 py-1.5 text-left",
+                    isSelected ? "bg-amber-400/15 text-slate-100" : "text-slate-300 hover:bg-slate-700/40"
+                  )}
+                >
+                  <Icon className={cn("w-3.5 h-3.5 mt-0.5 shrink-0", finding.severity === 'warning' ? "text-amber-300" : "text-slate-400")} />
+                  <span>
+                    <span className="font-medium text-slate-200">{LINT_RULE_LABELS[finding.rule]}:</span> {finding.message}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-xs text-emerald-300">
+          <CheckCircle2 className="w-4 h-4 shrink-0" />
+          No structural issues found.
+        </p>
+      )}
+    </section>
+  )
+}
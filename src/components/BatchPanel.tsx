@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowDown, ArrowUp, ExternalLink, FileArchive, ListPlus, RotateCcw, Trash2, X } from 'lucide-react'
+import { useAgentProvider } from '../context/agentContext'
+import { MAX_BATCH_CONCURRENCY, type BatchJob, type BatchJobStatus, type BatchQueue } from '../services/batchQueue'
+import { parseYouTubeUrl, videoUrl, YouTubeUrlError } from '../lib/youtube'
+import { buildBatchZip } from '../lib/batchExport'
+import { downloadBlob } from '../lib/download'
+import { cn } from '../lib/utils'
+
+interface BatchPanelProps {
+  queue: BatchQueue
+  jobs: BatchJob[]
+  concurrency: number
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  pending: 'text-slate-400',
+  running: 'text-cyber-blue',
+  finished: 'text-cyber-green',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+}
+
+// Splits pasted text into video URLs and playlist IDs. A watch URL that also
+// carries a playlist counts as the single video, as it does on YouTube.
+const parseBatchInput = (text: string) => {
+  const videos: string[] = []
+  const playlists: string[] = []
+  const invalid: string[] = []
+
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    try {
+      const { videoId, playlistId } = parseYouTubeUrl(token)
+      if (videoId) videos.push(token)
+      else if (playlistId) playlists.push(playlistId)
+    } catch (error) {
+      invalid.push(error instanceof YouTubeUrlError ? error.message : token)
+    }
+  }
+  return { videos, playlists, invalid }
+}
+
+const describeProgress = (job: BatchJob) => {
+  const event = job.progress
+  if (job.status !== 'running' || !event) return job.status
+  if (event.type === 'submitted') return 'submitted'
+  if (event.type === 'retry') return `retrying (${event.error})`
+  return `${event.status} · check ${event.attempt}`
+}
+
+export default function BatchPanel({ queue, jobs, concurrency }: BatchPanelProps) {
+  const agent = useAgentProvider()
+  const [input, setInput] = useState('')
+  const [isExpanding, setIsExpanding] = useState(false)
+  const [notice, setNotice] = useState('')
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const { videos, playlists, invalid } = parseBatchInput(input)
+    const entries = videos.map(ytUrl => ({ ytUrl }))
+    // The first reason is usually representative of the rest
+    const problems = invalid.length
+      ? [`Skipped ${invalid.length} ${invalid.length === 1 ? 'entry' : 'entries'} (${invalid[0]})`]
+      : []
+
+    setIsExpanding(true)
+    for (const playlistId of playlists) {
+      try {
+        const items = await agent.listPlaylistVideos(playlistId)
+        entries.push(...items.map(item => ({ ytUrl: videoUrl(item.videoId), title: item.title })))
+      } catch (error) {
+        problems.push(`Playlist ${playlistId}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    setIsExpanding(false)
+
+    const added = queue.add(entries)
+    setNotice([`Added ${added} ${added === 1 ? 'video' : 'videos'}`, ...problems].join('. '))
+    if (added > 0 && problems.length === 0) setInput('')
+  }
+
+  const counts = jobs.reduce<Record<BatchJobStatus, number>>(
+    (acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { pending: 0, running: 0, finished: 0, failed: 0, cancelled: 0 },
+  )
+  const isDone = jobs.length > 0 && counts.pending === 0 && counts.running === 0
+
+  const iconButton = "p-1 rounded text-slate-400 hover:text-slate-100 disabled:opacity-30 disabled:cursor-not-allowed"
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAdd} className="space-y-3">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={4}
+          placeholder="Paste YouTube video URLs (one per line) or a playlist URL..."
+          aria-label="Video or playlist URLs"
+          className="cyber-input w-full resize-y font-mono text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            type="submit"
+            disabled={!input.trim() || isExpanding}
+            className={cn("cyber-button flex items-center gap-2", (!input.trim() || isExpanding) && "opacity-50 cursor-not-allowed")}
+          >
+            <ListPlus className="w-4 h-4" />
+            {isExpanding ? 'Loading playlist...' : 'Add to queue'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            Run at once
+            <select
+              value={concurrency}
+              onChange={(e) => queue.setConcurrency(Number(e.target.value))}
+              className="cyber-auth-input"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          {notice && <span className="text-xs text-slate-400">{notice}</span>}
+        </div>
+      </form>
+
+      {jobs.length > 0 && (
+        <div className="border border-slate-700/50 rounded-lg overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-slate-800/40 text-xs text-slate-400">
+            <span>
+              {counts.finished}/{jobs.length} done
+              {counts.running > 0 && ` · ${counts.running} running`}
+              {counts.failed > 0 && ` · ${counts.failed} failed`}
+            </span>
+            <div className="flex items-center gap-3">
+              <button onClick={() => queue.cancelAll()} disabled={isDone} className="hover:text-slate-200 disabled:opacity-40">
+                Cancel all
+              </button>
+              <button onClick={() => queue.clearSettled()} className="hover:text-slate-200">
+                Clear finished
+              </button>
+              <button
+                onClick={() => downloadBlob(buildBatchZip(jobs), `batch-diagrams-${Date.now()}.zip`)}
+                disabled={!isDone || counts.finished === 0}
+                className="flex items-center gap-1 text-cyber-green hover:opacity-80 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={isDone ? 'Download all diagrams and descriptions' : 'Available when the batch is done'}
+              >
+                <FileArchive className="w-3 h-3" />
+                Download zip
+              </button>
+            </div>
+          </div>
+
+          <ol className="divide-y divide-slate-700/40 max-h-96 overflow-y-auto">
+            {jobs.map((job, i) => (
+              <li key={job.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="w-6 text-right text-xs text-slate-500 tabular-nums">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-slate-200" title={job.ytUrl}>{job.title || job.ytUrl}</div>
+                  <div className={cn("text-xs truncate", STATUS_STYLES[job.status])} title={job.error}>
+                    {describeProgress(job)}{job.error && `: ${job.error}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {job.status === 'finished' && job.executionId && (
+                    <Link to={`/history/${encodeURIComponent(job.executionId)}`} className={iconButton} title="Open diagram">
+                      <ExternalLink className="w-4 h-4" />
+                    </Link>
+                  )}
+                  <button onClick={() => queue.move(job.id, -1)} disabled={i === 0} className={iconButton} title="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => queue.move(job.id, 1)} disabled={i === jobs.length - 1} className={iconButton} title="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button onClick={() => queue.retry(job.id)} className={iconButton} title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(job.status === 'pending' || job.status === 'running') ? (
+                    <button onClick={() => queue.cancel(job.id)} className={iconButton} title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => queue.remove(job.id)} className={iconButton} title="Remove from queue">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
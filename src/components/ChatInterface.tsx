@@ -1,217 +1,672 @@
-import { useState, useRef } from 'react'
-import { Send, Download, ExternalLink } from 'lucide-react'
-import { AgentService } from '../services/agentService'
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react'
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom'
+import { Send, ExternalLink, History, Code2, FileDown, Link2, Check, GitCompare, Database, RefreshCw } from 'lucide-react'
+import { useAgentProvider } from '../context/agentContext'
+import type { ProcessResult } from '../services/agentProvider'
+import { AgentCancelledError } from '../services/agentErrors'
+import type { PollOptions, PollProgressEvent } from '../services/polling'
+import { historyStore, isInFlight, type DiagramVersion } from '../services/historyStore'
+import { DETACH_REASON, runTracked, type TrackedRunOptions } from '../services/trackedRun'
+import { describeSource, sourceOf, type DiagramSource } from '../services/diagramSource'
 import MermaidRenderer, { MermaidRendererRef } from './MermaidRenderer'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
+import ExecutionTimeline from './ExecutionTimeline'
+import HistorySidebar from './HistorySidebar'
+import RefinementChat from './RefinementChat'
+import MermaidEditor from './MermaidEditor'
+import ExportMenu from './ExportMenu'
+import ThemePicker from './ThemePicker'
+import ProfileSwitcher from './ProfileSwitcher'
+import BatchPanel from './BatchPanel'
+import TranscriptPanel from './TranscriptPanel'
+import VideoPanel, { type VideoPanelRef } from './VideoPanel'
+import AnalysisPanel from './AnalysisPanel'
+import DescriptionMarkdown from './DescriptionMarkdown'
+import CompareView, { type CompareCandidate } from './CompareView'
+import { useDiagramVersions, versionLabel } from '../hooks/useDiagramVersions'
+import { useUndoableState } from '../hooks/useUndoableState'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useBatchQueue } from '../hooks/useBatchQueue'
 import { cn } from '../lib/utils'
+import { downloadBlob } from '../lib/download'
+import { parseYouTubeVideoUrl } from '../lib/youtube'
+import type { Transcript } from '../lib/transcript'
+import { drawioEditUrl, mermaidImportUrl, mermaidToDrawio } from '../lib/drawio'
+import { FlowchartParseError, parseFlowchart } from '../lib/flowchart/parseFlowchart'
+import { analyzeFlowchart, findingKey } from '../lib/flowchart/analyze'
+import { shareUrl, type ForkLocationState } from '../lib/shareLink'
+import { nodeAt, timedSegments } from '../lib/nodeTimestamps'
+import type { ExportFormat, ExportOptions } from '../lib/export'
+
+type InputMode = 'single' | 'transcript' | 'batch'
+
+const INPUT_MODES: InputMode[] = ['single', 'transcript', 'batch']
+
+const MODE_LABELS: Record<InputMode, string> = {
+  single: 'Single video',
+  transcript: 'Transcript',
+  batch: 'Batch',
+}
 
 export default function ChatInterface() {
+  const agent = useAgentProvider()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { executionId: routeExecutionId } = useParams()
+  const showHistory = location.pathname.startsWith('/history')
   const [ytUrl, setYtUrl] = useState('')
-  const [mermaidDiagram, setMermaidDiagram] = useState('')
-  const [description, setDescription] = useState('')
+  const [transcript, setTranscript] = useState<Transcript | null>(null)
+  const [mode, setMode] = useState<InputMode>('single')
+  const batch = useBatchQueue(agent)
+  const diagram = useDiagramVersions()
+  const { reset: resetVersions } = diagram
+  const generatedMermaid = diagram.current?.mermaid ?? ''
+  const description = diagram.current?.description ?? ''
+  // Hand edits on top of the selected version; exports always use this source
+  const source = useUndoableState(generatedMermaid)
+  const mermaidDiagram = source.value
+  const isEdited = mermaidDiagram !== generatedMermaid
+  const [isEditing, setIsEditing] = useState(false)
+  const debouncedMermaid = useDebouncedValue(mermaidDiagram, 400)
+  const previewMermaid = isEditing ? debouncedMermaid : mermaidDiagram
+  // History entry the shown diagram belongs to; refinements are saved onto it
+  const [sourceExecutionId, setSourceExecutionId] = useState<string | null>(null)
+  // Material the shown diagram was generated from; follow-ups resend it
+  const [diagramSource, setDiagramSource] = useState<DiagramSource | null>(null)
+  // Origin text of a diagram forked from a share link, which has no source
+  const [forkedOrigin, setForkedOrigin] = useState<string | null>(null)
+  const [shareCopied, setShareCopied] = useState(false)
+  const [isComparing, setIsComparing] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [progress, setProgress] = useState<PollProgressEvent | null>(null)
+  const [startedAt, setStartedAt] = useState(0)
   const mermaidRef = useRef<MermaidRendererRef>(null)
+  const videoRef = useRef<VideoPanelRef>(null)
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const [selectedFindingKey, setSelectedFindingKey] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const backgroundRuns = useRef(new Set<AbortController>())
+  const activeExecutionId = useRef<string | null>(null)
+
+  // Stop watching runs when the component goes away; they stay in flight in
+  // the history and are picked up again on the next load
+  useEffect(() => {
+    const background = backgroundRuns.current
+    return () => {
+      abortRef.current?.abort(DETACH_REASON)
+      background.forEach(controller => controller.abort(DETACH_REASON))
+    }
+  }, [])
+
+  // "Fork into editor" on a share link hands the diagram over in the
+  // navigation state; it is cleared again so a reload does not re-fork
+  useEffect(() => {
+    const fork = (location.state as ForkLocationState | null)?.fork
+    if (!fork) return
+    resetVersions([{ mermaid: fork.mermaid, description: fork.description, createdAt: Date.now() }])
+    setSourceExecutionId(null)
+    setDiagramSource(null)
+    setForkedOrigin(fork.origin ?? 'a shared link')
+    setError('')
+    setIsEditing(true)
+    navigate(location.pathname, { replace: true, state: null })
+  }, [location.state, location.pathname, navigate, resetVersions])
+
+  useEffect(() => {
+    if (!shareCopied) return
+    const timer = setTimeout(() => setShareCopied(false), 2000)
+    return () => clearTimeout(timer)
+  }, [shareCopied])
+
+  // Versions of the shown diagram, plus hand edits that are not a version yet
+  const compareCandidates = useMemo<CompareCandidate[]>(() => [
+    ...diagram.versions.map((version, index) => ({
+      label: versionLabel(version, index),
+      mermaid: version.mermaid,
+      description: version.description,
+    })),
+    ...(isEdited ? [{ label: 'Current edits', mermaid: mermaidDiagram, description }] : []),
+  ], [diagram.versions, isEdited, mermaidDiagram, description])
+  const canCompare = compareCandidates.length > 1
+  const showCompare = isComparing && canCompare
 
   const isButtonDisabled = isLoading || !ytUrl.trim()
+  const originText = diagramSource ? describeSource(diagramSource) : forkedOrigin
 
-  const handleDownload = () => {
-    if (mermaidRef.current) {
-      const filename = `youtube-diagram-${Date.now()}.png`
-      mermaidRef.current.downloadAsPNG(filename)
+  // Diagrams generated from YouTube get the embedded player; nodes with
+  // timestamps seek it and the playing one is highlighted
+  const sourceVideo = useMemo(() => {
+    if (diagramSource?.type !== 'youtube') return null
+    try {
+      return parseYouTubeVideoUrl(diagramSource.ytUrl)
+    } catch {
+      return null
+    }
+  }, [diagramSource])
+  const nodeTimestamps = diagram.current?.nodeTimestamps
+  const segments = useMemo(() => (nodeTimestamps ? timedSegments(nodeTimestamps) : []), [nodeTimestamps])
+  const linkedNodes = useMemo(() => (sourceVideo ? segments.map(segment => segment.nodeId) : undefined), [sourceVideo, segments])
+  // Non-flowchart diagrams have no model; labels and the diagram check are then skipped
+  const flowchart = useMemo(() => {
+    try {
+      return parseFlowchart(mermaidDiagram)
+    } catch {
+      return null
     }
+  }, [mermaidDiagram])
+  const nodeLabels = useMemo(
+    () => Object.fromEntries(flowchart?.nodes.map(node => [node.id, node.label]) ?? []),
+    [flowchart],
+  )
+  const activeNode = sourceVideo && playbackTime !== null ? nodeAt(segments, playbackTime) : null
+
+  const analysis = useMemo(() => (flowchart?.nodes.length ? analyzeFlowchart(flowchart) : null), [flowchart])
+  // Looked up by key so the selection survives edits that keep the finding
+  const selectedFinding = analysis?.findings.find(finding => findingKey(finding) === selectedFindingKey) ?? null
+  const flaggedNodes = useMemo(
+    () => (selectedFinding ? selectedFinding.nodes : [...new Set(analysis?.findings.flatMap(finding => finding.nodes))]),
+    [analysis, selectedFinding],
+  )
+  const hasSidePanel = !!sourceVideo || !!analysis
+
+  const handleNodeClick = (nodeId: string) => {
+    const timestamp = nodeTimestamps?.[nodeId]
+    if (timestamp) videoRef.current?.seekTo(timestamp.start)
   }
 
-  const generateDrawIOUrl = (mermaidContent: string): string => {
+  const handleExport = async (format: ExportFormat, options: ExportOptions) => {
     try {
-      // Create the correct JSON payload for draw.io Mermaid import
-      const payload = {
-        type: "mermaid",
-        data: mermaidContent.trim()
-      }
-      
-      // Convert to JSON string and encode
-      const jsonString = JSON.stringify(payload)
-      const encodedPayload = encodeURIComponent(jsonString)
-      
-      // Generate the draw.io URL - using app.diagrams.net as specified in docs
-      const drawioUrl = `https://app.diagrams.net/?create=${encodedPayload}`
-      
-      // Check if URL is too long (browser limits ~2048 chars for some browsers)
-      if (drawioUrl.length > 2000) {
-        throw new Error('Diagram too large for URL parameter')
-      }
-      
-      return drawioUrl
+      await mermaidRef.current?.exportAs(format, {
+        ...options,
+        description,
+        origin: originText ?? undefined,
+      })
     } catch (error) {
-      console.error('Error generating draw.io URL:', error)
-      throw error
+      setError(`Unable to export ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`)
+      console.error('Export error:', error)
     }
   }
 
-  const handleOpenInDrawIO = () => {
+  const handleOpenInDrawIO = async () => {
+    // Opens a blank tab synchronously so the popup is not blocked while the
+    // diagram is compressed
+    const drawioWindow = window.open('', '_blank')
     try {
-      const drawioUrl = generateDrawIOUrl(mermaidDiagram)
-      window.open(drawioUrl, '_blank', 'noopener,noreferrer')
+      let drawioUrl: string
+      try {
+        drawioUrl = await drawioEditUrl(mermaidToDrawio(mermaidDiagram))
+      } catch (conversionError) {
+        if (!(conversionError instanceof FlowchartParseError)) throw conversionError
+        // Not a flowchart; fall back to draw.io's own mermaid import
+        drawioUrl = mermaidImportUrl(mermaidDiagram)
+      }
+      if (drawioWindow) {
+        drawioWindow.opener = null
+        drawioWindow.location.href = drawioUrl
+      } else {
+        window.open(drawioUrl, '_blank', 'noopener,noreferrer')
+      }
     } catch (error) {
+      drawioWindow?.close()
       setError('Unable to open in draw.io: Diagram may be too large')
       console.error('Draw.io integration error:', error)
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
-    if (!ytUrl.trim()) {
-      setError('Please enter a YouTube URL')
-      return
+  // The link carries the diagram as currently shown, hand edits included
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl({ mermaid: mermaidDiagram, description, origin: originText ?? undefined }))
+      setShareCopied(true)
+    } catch (error) {
+      setError('Unable to copy the share link to the clipboard')
+      console.error('Share link error:', error)
     }
+  }
 
-    // Basic YouTube URL validation
-    const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com\/(watch\?v=|embed\/)|youtu\.be\/)[\w-]+/
-    if (!youtubeRegex.test(ytUrl.trim())) {
-      setError('Please enter a valid YouTube URL')
-      return
+  const handleDownloadDrawIO = () => {
+    try {
+      const xml = mermaidToDrawio(mermaidDiagram)
+      downloadBlob(new Blob([xml], { type: 'application/xml' }), `youtube-diagram-${Date.now()}.drawio`)
+    } catch (error) {
+      setError(error instanceof FlowchartParseError
+        ? `Unable to export to draw.io: ${error.message}`
+        : 'Unable to export to draw.io')
+      console.error('Draw.io export error:', error)
     }
+  }
+
+  // Shows a source in the matching input tab; the batch tab stays open
+  const showSource = useCallback((source: DiagramSource) => {
+    setDiagramSource(source)
+    setPlaybackTime(null)
+    if (source.type === 'youtube') setYtUrl(source.ytUrl)
+    else setTranscript(source.transcript)
+    setMode(current => current === 'batch' ? current : source.type === 'youtube' ? 'single' : 'transcript')
+  }, [])
+
+  const startRun = async (
+    source: DiagramSource,
+    run: (options: PollOptions) => Promise<ProcessResult>,
+    options: Pick<TrackedRunOptions, 'executionId'> & { startedAt?: number } = {},
+  ) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    activeExecutionId.current = options.executionId ?? null
 
     setIsLoading(true)
     setError('')
-    setMermaidDiagram('')
-    setDescription('')
+    diagram.reset([])
+    setSourceExecutionId(null)
+    setDiagramSource(source)
+    setPlaybackTime(null)
+    setProgress(null)
+    setStartedAt(options.startedAt ?? Date.now())
 
     try {
-      const result = await AgentService.processYouTubeUrl(ytUrl)
-      setMermaidDiagram(result.mermaid)
-      setDescription(result.description)
+      const result = await runTracked(source, run, {
+        executionId: options.executionId,
+        signal: controller.signal,
+        onProgress: (event: PollProgressEvent) => {
+          if (event.type === 'submitted') activeExecutionId.current = event.executionId
+          setProgress(event)
+        },
+      })
+      const { executionId, ...output } = result
+      diagram.reset([{ ...output, createdAt: Date.now() }])
+      setSourceExecutionId(executionId)
+      if (executionId) {
+        navigate(`/history/${encodeURIComponent(executionId)}`)
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      if (controller.signal.reason === DETACH_REASON) return
+      if (err instanceof AgentCancelledError) {
+        setError('Generation cancelled')
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
     } finally {
-      setIsLoading(false)
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        activeExecutionId.current = null
+        setIsLoading(false)
+      }
     }
   }
 
+  // Resuming runs once per page load, with the profile active when the history
+  // is read; switching profiles later must not pick the same runs up again
+  const resumeWith = useRef({ agent, showSource, startRun })
+  useEffect(() => {
+    resumeWith.current = { agent, showSource, startRun }
+  })
+
+  // Resume runs that were still in flight when the tab was closed: the most
+  // recent one in the foreground, any others quietly in the background
+  useEffect(() => {
+    let cancelled = false
+
+    historyStore.list().then(records => {
+      if (cancelled) return
+      const { agent, showSource, startRun } = resumeWith.current
+      const [latest, ...others] = records.filter(isInFlight)
+
+      others.forEach(record => {
+        const controller = new AbortController()
+        backgroundRuns.current.add(controller)
+        runTracked(sourceOf(record), options => agent.pollExecutionUntilComplete(record.executionId, options), {
+          executionId: record.executionId,
+          signal: controller.signal,
+        })
+          .catch(err => console.error(`Resumed execution ${record.executionId} failed:`, err))
+          .finally(() => backgroundRuns.current.delete(controller))
+      })
+
+      if (latest) {
+        showSource(sourceOf(latest))
+        startRun(sourceOf(latest), options => agent.pollExecutionUntilComplete(latest.executionId, options), {
+          executionId: latest.executionId,
+          startedAt: latest.createdAt,
+        })
+      }
+    }).catch(err => console.error('Failed to load history:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Reopen a stored diagram when navigating to /history/:executionId
+  useEffect(() => {
+    if (!routeExecutionId || routeExecutionId === activeExecutionId.current) return
+    let active = true
+
+    historyStore.get(routeExecutionId).then(record => {
+      if (!active) return
+      if (!record) {
+        setError('This diagram is no longer in your history')
+        resetVersions([])
+        setSourceExecutionId(null)
+        return
+      }
+      showSource(sourceOf(record))
+      resetVersions(record.versions ?? (record.mermaid
+        ? [{ mermaid: record.mermaid, description: record.description ?? '', nodeTimestamps: record.nodeTimestamps, createdAt: record.updatedAt }]
+        : []))
+      setSourceExecutionId(record.executionId)
+      setError(record.error ?? (isInFlight(record) ? 'This diagram is still being generated in the background' : ''))
+    }).catch(err => console.error('Failed to load history entry:', err))
+
+    return () => {
+      active = false
+    }
+  }, [routeExecutionId, resetVersions, showSource])
+
+  const saveVersions = (versions: DiagramVersion[]) => {
+    if (!sourceExecutionId) return
+    const latest = versions[versions.length - 1]
+    historyStore.update(sourceExecutionId, {
+      versions,
+      mermaid: latest.mermaid,
+      description: latest.description,
+      nodeTimestamps: latest.nodeTimestamps,
+    })
+      .catch(err => console.error('Failed to save diagram versions:', err))
+  }
+
+  const handleCancel = () => {
+    abortRef.current?.abort()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    
+    try {
+      parseYouTubeVideoUrl(ytUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Please enter a valid YouTube URL')
+      return
+    }
+
+    await startRun({ type: 'youtube', ytUrl }, options => agent.processYouTubeUrl(ytUrl, options))
+  }
+
+  const handleTranscriptSubmit = (input: Transcript) =>
+    startRun({ type: 'transcript', transcript: input }, options => agent.processTranscript(input, options))
+
+  // Cached results are only ever video results
+  const cachedAt = diagramSource?.type === 'youtube' ? diagram.current?.cachedAt : undefined
+
+  const handleRegenerate = () => {
+    if (diagramSource?.type !== 'youtube') return
+    const url = diagramSource.ytUrl
+    startRun(diagramSource, options => agent.processYouTubeUrl(url, { ...options, fresh: true }))
+  }
+
   return (
     <div className="min-h-screen gradient-bg flex flex-col items-center justify-center p-4">
-      <div className="w-full max-w-4xl">
-        {/* Header with Logo */}
-        <div className="flex items-center justify-center mb-8">
-          <div className="flex items-center gap-4">
-            <div className="text-slate-400 text-sm">Powered by</div>
-            <img src={`${import.meta.env.BASE_URL}logo_everworker.svg`} alt="Everworker" className="h-8 opacity-100 contrast-125" />
-          </div>
-        </div>
+      <div className={cn("w-full flex gap-6 items-start", showHistory || (generatedMermaid && (hasSidePanel || showCompare)) ? "max-w-7xl" : "max-w-4xl")}>
+        {showHistory && <HistorySidebar activeId={routeExecutionId} />}
 
-        {/* Main Chat Card */}
-        <div className="cyber-card p-8">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="flex gap-4">
-              <input
-                type="text"
-                placeholder="Enter YouTube URL to generate diagram..."
-                value={ytUrl}
-                onChange={(e) => setYtUrl(e.target.value)}
-                disabled={isLoading}
-                className={cn(
-                  "cyber-input flex-1",
-                  isLoading && "opacity-50 cursor-not-allowed"
-                )}
-              />
-              <button
-                type="submit"
-                disabled={isButtonDisabled}
-                className={cn(
-                  "cyber-button flex items-center gap-2 shrink-0",
-                  isButtonDisabled && "opacity-50 cursor-not-allowed"
-                )}
+        <div className="flex-1 min-w-0">
+          {/* Header with Logo */}
+          <div className="relative flex items-center justify-center mb-8">
+            <div className="flex items-center gap-4">
+              <div className="text-slate-400 text-sm">Powered by</div>
+              <img src={`${import.meta.env.BASE_URL}logo_everworker.svg`} alt="Everworker" className="h-8 opacity-100 contrast-125" />
+            </div>
+            <div className="absolute right-0 flex items-center gap-4">
+              <ProfileSwitcher />
+              <ThemePicker />
+              <Link
+                to={showHistory ? '/' : '/history'}
+                className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200"
+                title={showHistory ? 'Hide history' : 'Show history'}
               >
-                {isLoading ? (
-                  <>
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Send className="w-4 h-4" />
-                    Generate Diagram
-                  </>
-                )}
-              </button>
+                <History className="w-4 h-4" />
+                History
+              </Link>
             </div>
-          </form>
+          </div>
 
-          {/* Error Display */}
-          {error && (
-            <div className="mt-6 p-4 bg-red-900/30 border border-red-700/50 rounded-lg text-red-300">
-              {error}
+          {/* Main Chat Card */}
+          <div className="cyber-card p-8">
+            <div role="tablist" className="flex gap-2 mb-6 text-sm">
+              {INPUT_MODES.map(option => (
+                <button
+                  key={option}
+                  role="tab"
+                  aria-selected={mode === option}
+                  onClick={() => setMode(option)}
+                  className={cn(
+                    "px-3 py-1 rounded-full border",
+                    mode === option
+                      ? "border-cyber-purple bg-cyber-purple/20 text-slate-100"
+                      : "border-slate-600/50 text-slate-400 hover:text-slate-200"
+                  )}
+                >
+                  {option === 'batch' && batch.jobs.length ? `${MODE_LABELS[option]} (${batch.jobs.length})` : MODE_LABELS[option]}
+                </button>
+              ))}
             </div>
-          )}
-
-          {/* Mermaid Diagram Display */}
-          {mermaidDiagram && (
-            <div className="mt-8">
-              <div className="border-t border-slate-700/50 pt-6">
-                <div className="mb-4 flex items-center justify-between">
-                  <div>
-                    <h3 className="text-lg font-semibold text-cyber-blue">Generated Diagram</h3>
-                    <p className="text-slate-400 text-sm">Mermaid diagram generated from your YouTube video</p>
+
+            {mode === 'batch' ? (
+              <BatchPanel queue={batch.queue} jobs={batch.jobs} concurrency={batch.concurrency} />
+            ) : mode === 'transcript' ? (
+              <TranscriptPanel
+                transcript={transcript}
+                onChange={setTranscript}
+                onSubmit={handleTranscriptSubmit}
+                isLoading={isLoading}
+              />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="flex gap-4">
+                  <input
+                    type="text"
+                    placeholder="Enter YouTube URL to generate diagram..."
+                    value={ytUrl}
+                    onChange={(e) => setYtUrl(e.target.value)}
+                    disabled={isLoading}
+                    className={cn(
+                      "cyber-input flex-1",
+                      isLoading && "opacity-50 cursor-not-allowed"
+                    )}
+                  />
+                  <button
+                    type="submit"
+                    disabled={isButtonDisabled}
+                    className={cn(
+                      "cyber-button flex items-center gap-2 shrink-0",
+                      isButtonDisabled && "opacity-50 cursor-not-allowed"
+                    )}
+                  >
+                    {isLoading ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        Processing...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="w-4 h-4" />
+                        Generate Diagram
+                      </>
+                    )}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Execution Progress */}
+            {isLoading && (
+              <ExecutionTimeline startedAt={startedAt} progress={progress} onCancel={handleCancel} />
+            )}
+
+            {/* Error Display */}
+            {error && (
+              <div className="mt-6 p-4 bg-red-900/30 border border-red-700/50 rounded-lg text-red-300">
+                {error}
+              </div>
+            )}
+
+            {/* Mermaid Diagram Display */}
+            {generatedMermaid && (
+              <div className="mt-8">
+                <div className="border-t border-slate-700/50 pt-6">
+                  <div className="mb-4 flex items-center justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold text-cyber-blue">Generated Diagram</h3>
+                      <p className="text-slate-400 text-sm truncate">
+                        Mermaid diagram generated from {originText ?? 'your YouTube video'}
+                      </p>
+                      {cachedAt !== undefined && (
+                        <p className="flex items-center gap-1.5 mt-1 text-xs text-amber-300/80">
+                          <Database className="w-3.5 h-3.5 shrink-0" />
+                          Cached result from {new Date(cachedAt).toLocaleString()}
+                          <button
+                            onClick={handleRegenerate}
+                            disabled={isLoading}
+                            className="ml-1 flex items-center gap-1 text-cyber-blue hover:underline disabled:opacity-50"
+                            title="Run the agent again instead of reusing the cached result"
+                          >
+                            <RefreshCw className="w-3 h-3" />
+                            Regenerate
+                          </button>
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => setIsEditing(editing => !editing)}
+                        className={cn(
+                          "flex items-center gap-2 text-sm px-4 py-2 rounded-lg border",
+                          isEditing
+                            ? "border-cyber-purple text-slate-100 bg-cyber-purple/20"
+                            : "border-slate-600/50 text-slate-300 hover:text-slate-100"
+                        )}
+                        title="Edit the mermaid source with live preview"
+                      >
+                        <Code2 className="w-4 h-4" />
+                        {isEditing ? 'Close editor' : 'Edit source'}
+                      </button>
+                      {canCompare && (
+                        <button
+                          onClick={() => setIsComparing(comparing => !comparing)}
+                          className={cn(
+                            "flex items-center gap-2 text-sm px-4 py-2 rounded-lg border",
+                            showCompare
+                              ? "border-cyber-purple text-slate-100 bg-cyber-purple/20"
+                              : "border-slate-600/50 text-slate-300 hover:text-slate-100"
+                          )}
+                          title="Compare two versions of this diagram side by side"
+                        >
+                          <GitCompare className="w-4 h-4" />
+                          {showCompare ? 'Close compare' : 'Compare'}
+                        </button>
+                      )}
+                      <button
+                        onClick={handleCopyShareLink}
+                        className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg border border-slate-600/50 text-slate-300 hover:text-slate-100"
+                        title="Copy a read-only link with the diagram embedded"
+                      >
+                        {shareCopied ? <Check className="w-4 h-4 text-cyber-green" /> : <Link2 className="w-4 h-4" />}
+                        {shareCopied ? 'Copied' : 'Copy share link'}
+                      </button>
+                      <button
+                        onClick={handleOpenInDrawIO}
+                        className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
+                        title="Open diagram in draw.io for editing"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        Edit in draw.io
+                      </button>
+                      <button
+                        onClick={handleDownloadDrawIO}
+                        className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
+                        title="Download as a native draw.io file"
+                      >
+                        <FileDown className="w-4 h-4" />
+                        .drawio
+                      </button>
+                      <ExportMenu onExport={handleExport} />
+                    </div>
                   </div>
-                  <div className="flex items-center gap-3">
-                    <button
-                      onClick={handleOpenInDrawIO}
-                      className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
-                      title="Open diagram in draw.io for editing"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                      Edit in draw.io
-                    </button>
-                    <button
-                      onClick={handleDownload}
-                      className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
-                      title="Download diagram as PNG"
-                    >
-                      <Download className="w-4 h-4" />
-                      Download PNG
-                    </button>
+                  {showCompare && <CompareView candidates={compareCandidates} />}
+                  {/* Kept mounted while comparing so exports keep working */}
+                  <div className={cn(hasSidePanel && "grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_20rem] gap-4 items-start", showCompare && "hidden")}>
+                    <div className={cn(isEditing && "grid grid-cols-1 xl:grid-cols-2 gap-4")}>
+                      {isEditing && (
+                        <MermaidEditor
+                          value={mermaidDiagram}
+                          onChange={source.set}
+                          onUndo={source.undo}
+                          onRedo={source.redo}
+                          canUndo={source.canUndo}
+                          canRedo={source.canRedo}
+                          isEdited={isEdited}
+                          onReset={() => source.commit(generatedMermaid)}
+                        />
+                      )}
+                      <MermaidRenderer 
+                        ref={mermaidRef}
+                        chart={previewMermaid} 
+                        className="w-full min-w-0"
+                        linkedNodes={linkedNodes}
+                        activeNode={activeNode}
+                        flaggedNodes={flaggedNodes}
+                        onNodeClick={handleNodeClick}
+                      />
+                    </div>
+                    {hasSidePanel && (
+                      <div className="space-y-4">
+                        {sourceVideo && (
+                          <VideoPanel
+                            ref={videoRef}
+                            videoId={sourceVideo.videoId}
+                            startSeconds={sourceVideo.startSeconds}
+                            segments={segments}
+                            labels={nodeLabels}
+                            activeNode={activeNode}
+                            onTimeUpdate={setPlaybackTime}
+                          />
+                        )}
+                        {analysis && (
+                          <AnalysisPanel
+                            analysis={analysis}
+                            selected={selectedFinding}
+                            onSelect={finding => setSelectedFindingKey(finding && findingKey(finding))}
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
-                </div>
-                <MermaidRenderer 
-                  ref={mermaidRef}
-                  chart={mermaidDiagram} 
-                  className="w-full"
-                />
                 
-                {/* Process Description */}
-                {description && (
-                  <div className="mt-6 border-t border-slate-700/50 pt-6">
-                    <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-6">
-                      <div className="prose prose-invert prose-slate max-w-none text-slate-200">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          components={{
-                            h1: ({children}) => <h1 className="text-xl font-bold text-cyber-purple mb-4">{children}</h1>,
-                            h2: ({children}) => <h2 className="text-lg font-semibold text-cyber-blue mb-3">{children}</h2>,
-                            h3: ({children}) => <h3 className="text-md font-medium text-cyber-pink mb-2">{children}</h3>,
-                            p: ({children}) => <p className="mb-4 leading-relaxed">{children}</p>,
-                            ul: ({children}) => <ul className="list-disc list-outside mb-4 space-y-1 ml-4">{children}</ul>,
-                            ol: ({children}) => <ol className="list-decimal list-outside mb-4 space-y-1 ml-4">{children}</ol>,
-                            li: ({children}) => <li className="text-slate-300">{children}</li>,
-                            code: ({children}) => <code className="bg-slate-700/50 px-2 py-1 rounded text-cyber-green font-mono text-sm">{children}</code>,
-                            pre: ({children}) => <pre className="bg-slate-900/50 p-4 rounded-lg overflow-x-auto mb-4 border border-slate-700/30">{children}</pre>,
-                            blockquote: ({children}) => <blockquote className="border-l-4 border-cyber-purple pl-4 italic text-slate-400 mb-4">{children}</blockquote>,
-                            strong: ({children}) => <strong className="text-cyber-blue font-semibold">{children}</strong>,
-                            em: ({children}) => <em className="text-cyber-pink italic">{children}</em>,
-                          }}
-                        >
-                          {description}
-                        </ReactMarkdown>
+                  {/* Process Description */}
+                  {description && !showCompare && (
+                    <div className="mt-6 border-t border-slate-700/50 pt-6">
+                      <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-6">
+                        <DescriptionMarkdown markdown={description} />
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
+
+                  {/* Follow-up Turns; remounted per diagram so a pending refinement is aborted */}
+                  {diagramSource && (
+                    <RefinementChat
+                      key={sourceExecutionId ?? 'unsaved'}
+                      source={diagramSource}
+                      mermaid={mermaidDiagram}
+                      versions={diagram.versions}
+                      currentIndex={diagram.currentIndex}
+                      onSelect={diagram.select}
+                      onRevert={(index) => saveVersions(diagram.revertTo(index))}
+                      onRefined={(result, instruction) => saveVersions(diagram.addVersion(result, instruction))}
+                    />
+                  )}
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
       </div>
     </div>
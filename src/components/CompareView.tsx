@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react'
+import { ArrowLeftRight, GitCompare } from 'lucide-react'
+import MermaidRenderer from './MermaidRenderer'
+import { FlowchartParseError, parseFlowchart } from '../lib/flowchart/parseFlowchart'
+import { diffFlowcharts, type DiffMark, type FlowChange, type FlowDiff } from '../lib/flowchart/diff'
+import { diffLines, unifiedHunks } from '../lib/textDiff'
+import { cn } from '../lib/utils'
+
+export interface CompareCandidate {
+  label: string
+  mermaid: string
+  description: string
+}
+
+interface CompareViewProps {
+  // Oldest first; the last two are compared initially
+  candidates: CompareCandidate[]
+}
+
+const MARK_STYLES: Record<DiffMark, { label: string; swatch: string; text: string }> = {
+  added: { label: 'Added', swatch: 'bg-emerald-400', text: 'text-emerald-300' },
+  removed: { label: 'Removed', swatch: 'bg-red-400', text: 'text-red-300' },
+  relabeled: { label: 'Relabeled', swatch: 'bg-amber-400', text: 'text-amber-300' },
+  rewired: { label: 'Rewired', swatch: 'bg-blue-400', text: 'text-blue-300' },
+}
+
+const describeChange = (change: FlowChange): string => {
+  if (change.kind === 'node') {
+    return change.mark === 'relabeled'
+      ? `"${change.previousLabel}" → "${change.label}"`
+      : `"${change.label}"`
+  }
+  const edge = `${change.from} → ${change.to}`
+  if (change.mark === 'relabeled') return `Edge ${edge}: "${change.previousLabel ?? ''}" → "${change.label ?? ''}"`
+  return `Edge ${edge}${change.label ? ` "${change.label}"` : ''}`
+}
+
+type StructuralDiff = { diff: FlowDiff; error?: never } | { diff?: never; error: string }
+
+const structuralDiff = (before: string, after: string): StructuralDiff => {
+  try {
+    return { diff: diffFlowcharts(parseFlowchart(before), parseFlowchart(after)) }
+  } catch (error) {
+    if (!(error instanceof FlowchartParseError)) throw error
+    return { error: 'Node-level changes are only shown for flowcharts; the source diff below still applies.' }
+  }
+}
+
+function UnifiedDiff({ title, before, after }: { title: string; before: string; after: string }) {
+  const hunks = useMemo(() => unifiedHunks(diffLines(before, after)), [before, after])
+
+  return (
+    <section className="min-w-0 bg-slate-800/30 border border-slate-700/30 rounded-lg" aria-label={`${title} diff`}>
+      <h4 className="px-4 py-2 border-b border-slate-700/40 text-sm font-semibold text-slate-200">{title}</h4>
+      {hunks.length ? (
+        <pre className="max-h-96 overflow-auto py-2 text-xs font-mono leading-5">
+          {hunks.map(hunk => (
+            <div key={hunk.header}>
+              <div className="px-4 text-cyber-blue/80">{hunk.header}</div>
+              {hunk.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "px-4 whitespace-pre-wrap break-words",
+                    line.type === 'added' && "bg-emerald-500/15 text-emerald-200",
+                    line.type === 'removed' && "bg-red-500/15 text-red-200",
+                    line.type === 'same' && "text-slate-400"
+                  )}
+                >
+                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}{line.text}
+                </div>
+              ))}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="px-4 py-3 text-xs text-slate-400">No differences.</p>
+      )}
+    </section>
+  )
+}
+
+// Two diagram versions next to each other. Node and edge changes are colored
+// on both renders; line diffs of the source and description sit below.
+export default function CompareView({ candidates }: CompareViewProps) {
+  const [leftIndex, setLeftIndex] = useState(Math.max(0, candidates.length - 2))
+  const [rightIndex, setRightIndex] = useState(candidates.length - 1)
+  // Candidates can shrink when hand edits are discarded
+  const left = candidates[Math.min(leftIndex, candidates.length - 1)]
+  const right = candidates[Math.min(rightIndex, candidates.length - 1)]
+
+  const structure = useMemo(() => structuralDiff(left.mermaid, right.mermaid), [left.mermaid, right.mermaid])
+
+  const swap = () => {
+    setLeftIndex(rightIndex)
+    setRightIndex(leftIndex)
+  }
+
+  const picker = (label: string, value: number, onChange: (index: number) => void) => (
+    <label className="flex min-w-0 flex-1 items-center gap-2 text-sm text-slate-400">
+      {label}
+      <select
+        value={Math.min(value, candidates.length - 1)}
+        onChange={e => onChange(Number(e.target.value))}
+        className="cyber-input min-w-0 flex-1 py-1.5 text-sm"
+      >
+        {candidates.map((candidate, index) => (
+          <option key={index} value={index}>{candidate.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {picker('Before', leftIndex, setLeftIndex)}
+        <button
+          type="button"
+          onClick={swap}
+          className="p-2 rounded text-slate-300 hover:text-slate-100 hover:bg-slate-700/50"
+          title="Swap sides"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+        {picker('After', rightIndex, setRightIndex)}
+      </div>
+
+      <section className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-4 space-y-3" aria-label="Structural changes">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-200">
+            <GitCompare className="w-4 h-4 text-cyber-blue" />
+            Structural changes
+          </h4>
+          <ul className="flex flex-wrap gap-3 text-xs text-slate-400">
+            {Object.values(MARK_STYLES).map(style => (
+              <li key={style.label} className="flex items-center gap-1.5">
+                <span className={cn("w-2.5 h-2.5 rounded-sm", style.swatch)} />
+                {style.label}
+              </li>
+            ))}
+          </ul>
+        </div>
+        {!structure.diff ? (
+          <p className="text-xs text-slate-400">{structure.error}</p>
+        ) : structure.diff.changes.length ? (
+          <ul className="grid gap-1 text-xs sm:grid-cols-2">
+            {structure.diff.changes.map((change, index) => (
+              <li key={index} className="text-slate-300">
+                <span className={cn("font-medium", MARK_STYLES[change.mark].text)}>{MARK_STYLES[change.mark].label}</span>{' '}
+                {describeChange(change)}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-400">No node or edge changes.</p>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <MermaidRenderer chart={left.mermaid} className="w-full min-w-0" diffMarks={structure.diff?.before} />
+        <MermaidRenderer chart={right.mermaid} className="w-full min-w-0" diffMarks={structure.diff?.after} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <UnifiedDiff title="Mermaid source" before={left.mermaid} after={right.mermaid} />
+        <UnifiedDiff title="Description" before={left.description} after={right.description} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { useTheme } from '../context/themeContext'
+import { cn } from '../lib/utils'
+
+// The agent's process description, styled to match the app chrome
+export default function DescriptionMarkdown({ markdown }: { markdown: string }) {
+  const { theme } = useTheme()
+
+  return (
+    <div className={cn("prose prose-slate max-w-none text-slate-200", theme.chrome !== 'light' && "prose-invert")}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          h1: ({children}) => <h1 className="text-xl font-bold text-cyber-purple mb-4">{children}</h1>,
+          h2: ({children}) => <h2 className="text-lg font-semibold text-cyber-blue mb-3">{children}</h2>,
+          h3: ({children}) => <h3 className="text-md font-medium text-cyber-pink mb-2">{children}</h3>,
+          p: ({children}) => <p className="mb-4 leading-relaxed">{children}</p>,
+          ul: ({children}) => <ul className="list-disc list-outside mb-4 space-y-1 ml-4">{children}</ul>,
+          ol: ({children}) => <ol className="list-decimal list-outside mb-4 space-y-1 ml-4">{children}</ol>,
+          li: ({children}) => <li className="text-slate-300">{children}</li>,
+          code: ({children}) => <code className="bg-slate-700/50 px-2 py-1 rounded text-cyber-green font-mono text-sm">{children}</code>,
+          pre: ({children}) => <pre className="bg-slate-900/50 p-4 rounded-lg overflow-x-auto mb-4 border border-slate-700/30">{children}</pre>,
+          blockquote: ({children}) => <blockquote className="border-l-4 border-cyber-purple pl-4 italic text-slate-400 mb-4">{children}</blockquote>,
+          strong: ({children}) => <strong className="text-cyber-blue font-semibold">{children}</strong>,
+          em: ({children}) => <em className="text-cyber-pink italic">{children}</em>,
+        }}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useId, useRef } from 'react'
+import { Locate, PlayCircle } from 'lucide-react'
+import type { FlowOutline, OutlineStepKind } from '../lib/flowchart/outline'
+import { cn } from '../lib/utils'
+
+interface DiagramOutlineProps {
+  outline: FlowOutline
+  // Steps with a video timestamp, played through onNodeClick
+  linkedNodes?: string[]
+  activeNode?: string | null
+  onNodeClick?: (nodeId: string) => void
+  // Switches back to the diagram with the step's node focused
+  onLocate: (nodeId: string) => void
+}
+
+const KIND_BADGES: Partial<Record<OutlineStepKind, { label: string; className: string }>> = {
+  start: { label: 'Start', className: 'bg-emerald-400/15 text-emerald-300' },
+  decision: { label: 'Decision', className: 'bg-amber-400/15 text-amber-300' },
+  end: { label: 'End', className: 'bg-cyber-pink/15 text-cyber-pink' },
+}
+
+// Text alternative to the rendered flowchart: the steps in reading order,
+// each with its branches and their conditions. Branch links move focus to
+// the step they lead to, so the flow can be followed from the keyboard.
+export default function DiagramOutline({ outline, linkedNodes, activeNode, onNodeClick, onLocate }: DiagramOutlineProps) {
+  const baseId = useId()
+  const listRef = useRef<HTMLOListElement>(null)
+  const stepId = (number: number) => `${baseId}-step-${number}`
+
+  const focusStep = (number: number) => {
+    const item = listRef.current?.querySelector<HTMLElement>(`[id="${stepId(number)}"]`)
+    item?.scrollIntoView({ block: 'nearest' })
+    item?.focus()
+  }
+
+  return (
+    <ol ref={listRef} aria-label="Process outline" className="space-y-2 text-sm">
+      {outline.steps.map(step => {
+        const badge = KIND_BADGES[step.kind]
+        const linked = linkedNodes?.includes(step.id)
+        return (
+          <li
+            key={step.id}
+            id={stepId(step.number)}
+            tabIndex={-1}
+            className={cn(
+              "rounded px-3 py-2 bg-slate-900/40 focus:outline-none focus-visible:ring-1 focus-visible:ring-cyber-purple",
+              step.id === activeNode && "ring-1 ring-cyber-blue"
+            )}
+          >
+            <div className="flex items-start gap-2">
+              <span className="w-6 shrink-0 text-right text-slate-500 tabular-nums" aria-hidden>{step.number}.</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-100">
+                  <span className="sr-only">Step {step.number}{badge ? `, ${badge.label.toLowerCase()}` : ''}: </span>
+                  {badge && (
+                    <span aria-hidden className={cn("mr-2 rounded px-1.5 py-0.5 text-[11px] font-medium", badge.className)}>
+                      {badge.label}
+                    </span>
+                  )}
+                  {step.label}
+                  {step.group && <span className="ml-2 text-xs text-slate-400">in {step.group}</span>}
+                </p>
+                {step.next.length > 0 ? (
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-300" aria-label={`Next after step ${step.number}`}>
+                    {step.next.map(branch => {
+                      const target = outline.byId.get(branch.to)!
+                      return (
+                        <li key={`${branch.to}:${branch.condition ?? ''}`}>
+                          {branch.condition ? `If ${branch.condition}: ` : 'Then: '}
+                          <button
+                            type="button"
+                            onClick={() => focusStep(target.number)}
+                            className="text-cyber-blue hover:underline"
+                          >
+                            step {target.number}, {target.label}
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-xs text-slate-400">No further steps.</p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {linked && onNodeClick && (
+                  <button
+                    type="button"
+                    onClick={() => onNodeClick(step.id)}
+                    className="p-1 rounded text-slate-400 hover:text-slate-100 hover:bg-slate-700/50"
+                    title="Play this step in the video"
+                    aria-label={`Play step ${step.number} in the video`}
+                  >
+                    <PlayCircle className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onLocate(step.id)}
+                  className="p-1 rounded text-slate-400 hover:text-slate-100 hover:bg-slate-700/50"
+                  title="Show in diagram"
+                  aria-label={`Show step ${step.number} in the diagram`}
+                >
+                  <Locate className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
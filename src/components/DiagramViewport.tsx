@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { ChevronDown, ChevronUp, ListTree, Maximize2, Minimize2, MoveHorizontal, Scan, Search, ZoomIn, ZoomOut } from 'lucide-react'
+import { usePanZoom, type ViewTransform } from '../hooks/usePanZoom'
+import { isMermaidEdge, mermaidNodeId } from '../lib/nodeTimestamps'
+import type { DiffMark, DiffMarks } from '../lib/flowchart/diff'
+import { describeOutlineStep, type FlowOutline } from '../lib/flowchart/outline'
+import { cn } from '../lib/utils'
+import DiagramOutline from './DiagramOutline'
+
+interface DiagramViewportProps {
+  svg: string
+  // Natural size of the rendered SVG
+  width: number
+  height: number
+  // Node IDs that react to clicks (and Enter), e.g. nodes with a video timestamp
+  linkedNodes?: string[]
+  // Node highlighted as the one currently playing
+  activeNode?: string | null
+  // Nodes outlined as having lint findings
+  flaggedNodes?: string[]
+  // Nodes and edges colored by the compare view
+  diffMarks?: DiffMarks
+  // Text alternative for flowcharts; also announced for focused nodes
+  outline?: FlowOutline | null
+  onNodeClick?: (nodeId: string) => void
+}
+
+interface Size {
+  width: number
+  height: number
+}
+
+const ZOOM_STEP = 1.25
+const MINIMAP_MAX = { width: 180, height: 120 }
+// Search matches are zoomed to at least this scale so their labels are readable
+const MATCH_MIN_SCALE = 0.8
+const SEARCHABLE = 'g.node, g.cluster, g.edgeLabel'
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowDown: [0, 1],
+  ArrowUp: [0, -1],
+}
+const DIFF_CLASSES: Record<DiffMark, string> = {
+  added: 'diagram-diff-added',
+  removed: 'diagram-diff-removed',
+  relabeled: 'diagram-diff-relabeled',
+  rewired: 'diagram-diff-rewired',
+}
+
+interface MinimapProps {
+  svg: string
+  content: Size
+  viewport: Size
+  transform: ViewTransform
+  onNavigate: (x: number, y: number) => void
+}
+
+function Minimap({ svg, content, viewport, transform, onNavigate }: MinimapProps) {
+  const ratio = Math.min(MINIMAP_MAX.width / content.width, MINIMAP_MAX.height / content.height)
+  const view = {
+    x: (-transform.x / transform.scale) * ratio,
+    y: (-transform.y / transform.scale) * ratio,
+    width: (viewport.width / transform.scale) * ratio,
+    height: (viewport.height / transform.scale) * ratio,
+  }
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onNavigate((e.clientX - rect.left) / ratio, (e.clientY - rect.top) / ratio)
+  }
+
+  return (
+    <div
+      aria-hidden
+      className="absolute bottom-3 right-3 overflow-hidden rounded border border-slate-600/70 bg-slate-900/80 shadow-lg cursor-pointer touch-none"
+      style={{ width: content.width * ratio, height: content.height * ratio }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId)
+        navigate(e)
+      }}
+      onPointerMove={(e) => e.currentTarget.hasPointerCapture(e.pointerId) && navigate(e)}
+    >
+      <div className="pointer-events-none [&>svg]:w-full [&>svg]:h-full w-full h-full" dangerouslySetInnerHTML={{ __html: svg }} />
+      <div
+        className="pointer-events-none absolute border-2 border-cyber-pink bg-cyber-pink/10"
+        style={{ left: view.x, top: view.y, width: view.width, height: view.height }}
+      />
+    </div>
+  )
+}
+
+const center = (el: Element) => {
+  const box = el.getBoundingClientRect()
+  return { x: box.left + box.width / 2, y: box.top + box.height / 2 }
+}
+
+// The closest node in the arrow's direction, preferring nodes in line with
+// the current one over nearer ones off to the side
+const nodeInDirection = (from: Element, nodes: Element[], [dx, dy]: [number, number]): Element | undefined => {
+  const origin = center(from)
+  let best: Element | undefined
+  let bestScore = Infinity
+  for (const el of nodes) {
+    const { x, y } = center(el)
+    const along = (x - origin.x) * dx + (y - origin.y) * dy
+    if (el === from || along < 1) continue
+    const score = along + 2 * Math.abs((x - origin.x) * dy + (y - origin.y) * dx)
+    if (score < bestScore) {
+      best = el
+      bestScore = score
+    }
+  }
+  return best
+}
+
+// Interactive view of a rendered diagram. Only the on-screen copy is
+// transformed; exports render from source and never see the zoom level.
+export default function DiagramViewport({ svg, width, height, linkedNodes, activeNode, flaggedNodes, diffMarks, outline, onNodeClick }: DiagramViewportProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const { transform, interacted, zoomBy, setScale, fit, centerOn } = usePanZoom(viewportRef)
+  const [viewportSize, setViewportSize] = useState<Size>({ width: 0, height: 0 })
+  const [isFullscreen, setIsFullscreen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<Element[]>([])
+  const [activeMatch, setActiveMatch] = useState(0)
+  const [showOutline, setShowOutline] = useState(false)
+  // Node holding the diagram's single tab stop
+  const [currentNode, setCurrentNode] = useState<string | null>(null)
+  const outlineShown = showOutline && !!outline
+  // React rewrites innerHTML whenever this object changes, which would drop
+  // the classes and tab stops set on the nodes below, and the focused node
+  const markup = useMemo(() => ({ __html: svg }), [svg])
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(viewport)
+    return () => observer.disconnect()
+  }, [])
+
+  // New content is fitted to the width (never enlarged) until the user moves the view
+  useLayoutEffect(() => {
+    if (interacted.current || !viewportSize.width) return
+    fit({ width, height }, width > viewportSize.width ? 'width' : 'page', 1)
+  }, [svg, width, height, viewportSize, fit, interacted])
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => document.removeEventListener('fullscreenchange', handleChange)
+  }, [])
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen()
+    else containerRef.current?.requestFullscreen().catch(err => console.error('Fullscreen request failed:', err))
+  }
+
+  const focusMatch = useCallback((element: Element | undefined) => {
+    const content = contentRef.current
+    if (!element || !content) return
+    const box = element.getBoundingClientRect()
+    const origin = content.getBoundingClientRect()
+    // Screen pixels per content pixel, whatever the current zoom
+    const scale = origin.width / content.offsetWidth || 1
+    centerOn({
+      x: (box.left - origin.left) / scale,
+      y: (box.top - origin.top) / scale,
+      width: box.width / scale,
+      height: box.height / scale,
+    }, MATCH_MIN_SCALE)
+  }, [centerOn])
+
+  useEffect(() => {
+    const needle = query.trim().toLowerCase()
+    const elements = needle && contentRef.current
+      ? Array.from(contentRef.current.querySelectorAll(SEARCHABLE)).filter(el => el.textContent?.toLowerCase().includes(needle))
+      : []
+    setMatches(elements)
+    setActiveMatch(0)
+    focusMatch(elements[0])
+  }, [query, svg, focusMatch])
+
+  useEffect(() => {
+    matches.forEach((el, i) => {
+      el.classList.add('diagram-search-match')
+      el.classList.toggle('diagram-search-active', i === activeMatch)
+    })
+    return () => matches.forEach(el => el.classList.remove('diagram-search-match', 'diagram-search-active'))
+  }, [matches, activeMatch])
+
+  // The classes drive the CSS in index.css
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+    const linked = new Set(linkedNodes)
+    const flagged = new Set(flaggedNodes)
+    const nodes = Array.from(content.querySelectorAll('g.node'))
+    nodes.forEach(el => {
+      const id = mermaidNodeId(el)
+      el.classList.toggle('diagram-node-linked', id !== null && linked.has(id))
+      el.classList.toggle('diagram-node-playing', id !== null && id === activeNode)
+      el.classList.toggle('diagram-node-flagged', id !== null && flagged.has(id))
+    })
+  }, [svg, linkedNodes, activeNode, flaggedNodes])
+
+  // The nodes share one tab stop and the arrow keys move between them
+  // (roving tabindex). Each is announced with the steps it leads to; linked
+  // nodes are buttons.
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+    const linked = new Set(linkedNodes)
+    const nodes = Array.from(content.querySelectorAll('g.node'))
+    const first = outline?.steps[0]?.id
+    const tabStop = nodes.find(el => mermaidNodeId(el) === currentNode)
+      ?? nodes.find(el => mermaidNodeId(el) === first)
+      ?? nodes[0]
+    nodes.forEach(el => {
+      const id = mermaidNodeId(el)
+      el.classList.add('diagram-node-nav')
+      el.setAttribute('tabindex', el === tabStop ? '0' : '-1')
+      el.setAttribute('role', id !== null && linked.has(id) ? 'button' : 'img')
+      el.setAttribute(
+        'aria-label',
+        (id !== null && outline && describeOutlineStep(outline, id)) || el.textContent?.trim() || 'Diagram node'
+      )
+    })
+  }, [svg, linkedNodes, outline, currentNode])
+
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content || !diffMarks) return
+    const marked: [Element, string][] = []
+    content.querySelectorAll('g.node').forEach(el => {
+      const id = mermaidNodeId(el)
+      const mark = id !== null ? diffMarks.nodes[id] : undefined
+      if (mark) marked.push([el, DIFF_CLASSES[mark]])
+    })
+    if (diffMarks.edges.length) {
+      const paths = Array.from(content.querySelectorAll('path.flowchart-link'))
+      diffMarks.edges.forEach(({ from, to, mark }) => {
+        paths.filter(el => isMermaidEdge(el, from, to)).forEach(el => marked.push([el, DIFF_CLASSES[mark]]))
+      })
+    }
+    marked.forEach(([el, className]) => el.classList.add(className))
+    return () => marked.forEach(([el, className]) => el.classList.remove(className))
+  }, [svg, diffMarks])
+
+  const linkedNodeAt = (target: EventTarget) => {
+    const el = (target as Element).closest?.('g.node')
+    const id = el ? mermaidNodeId(el) : null
+    return id && linkedNodes?.includes(id) ? id : null
+  }
+
+  const handleContentClick = (e: React.MouseEvent) => {
+    const id = linkedNodeAt(e.target)
+    if (id) onNodeClick?.(id)
+  }
+
+  // Reading order when there is an outline, document order otherwise
+  const orderedNodes = () => {
+    const nodes = Array.from(contentRef.current?.querySelectorAll('g.node') ?? [])
+    if (!outline) return nodes
+    const position = (el: Element) => outline.byId.get(mermaidNodeId(el) ?? '')?.number ?? Infinity
+    return nodes.sort((a, b) => position(a) - position(b))
+  }
+
+  const handleContentKey = (e: React.KeyboardEvent) => {
+    const node = (e.target as Element).closest?.('g.node')
+    if (!node) return
+
+    if (e.key === 'Enter' || e.key === ' ') {
+      const id = linkedNodeAt(node)
+      if (!id) return
+      e.preventDefault()
+      onNodeClick?.(id)
+      return
+    }
+
+    const nodes = orderedNodes()
+    const direction = ARROW_DIRECTIONS[e.key]
+    const next = direction
+      ? nodeInDirection(node, nodes, direction)
+      : e.key === 'Home' ? nodes[0] : e.key === 'End' ? nodes[nodes.length - 1] : null
+    if (next === null) return
+    e.preventDefault()
+    if (next instanceof SVGElement) next.focus()
+  }
+
+  const handleContentFocus = (e: React.FocusEvent) => {
+    const node = (e.target as Element).closest?.('g.node')
+    const viewport = viewportRef.current
+    if (!node || !viewport) return
+    setCurrentNode(mermaidNodeId(node))
+
+    // Focusing scrolls the clipped viewport; the view only ever moves through the transform
+    viewport.scrollTop = 0
+    viewport.scrollLeft = 0
+    const box = node.getBoundingClientRect()
+    const view = viewport.getBoundingClientRect()
+    if (box.left < view.left || box.right > view.right || box.top < view.top || box.bottom > view.bottom) {
+      focusMatch(node)
+    }
+  }
+
+  const focusNode = (id?: string | null) => {
+    const nodes = orderedNodes()
+    const node = nodes.find(el => mermaidNodeId(el) === id) ?? nodes.find(el => el.getAttribute('tabindex') === '0')
+    if (node instanceof SVGElement) node.focus()
+  }
+
+  // The diagram is hidden while the outline shows, so focus moves after it is back
+  const locateNode = (id: string) => {
+    setShowOutline(false)
+    requestAnimationFrame(() => focusNode(id))
+  }
+
+  const stepMatch = (delta: number) => {
+    if (!matches.length) return
+    const next = (activeMatch + delta + matches.length) % matches.length
+    setActiveMatch(next)
+    focusMatch(matches[next])
+  }
+
+  const handleViewportKey = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return
+    if (e.key === '+' || e.key === '=') zoomBy(ZOOM_STEP)
+    else if (e.key === '-') zoomBy(1 / ZOOM_STEP)
+    else if (e.key === '0') setScale(1)
+    else if (ARROW_DIRECTIONS[e.key]) focusNode(currentNode)
+    else return
+    e.preventDefault()
+  }
+
+  const toolButton = "p-1.5 rounded text-slate-300 hover:text-slate-100 hover:bg-slate-700/50"
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "flex flex-col bg-slate-800/30 border border-slate-700/30 rounded-lg overflow-hidden",
+        isFullscreen && "bg-slate-950"
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border-b border-slate-700/40">
+        <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} className={toolButton} title="Zoom out (-)">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setScale(1)}
+          className="w-14 text-xs text-slate-300 hover:text-slate-100 tabular-nums"
+          title="Reset to 100% (0)"
+        >
+          {Math.round(transform.scale * 100)}%
+        </button>
+        <button type="button" onClick={() => zoomBy(ZOOM_STEP)} className={toolButton} title="Zoom in (+)">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => fit({ width, height }, 'width')} className={toolButton} title="Fit to width">
+          <MoveHorizontal className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => fit({ width, height }, 'page')} className={toolButton} title="Fit whole diagram">
+          <Scan className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowOutline(shown => !shown)}
+          disabled={!outline}
+          aria-pressed={outlineShown}
+          className={cn(toolButton, outlineShown && "text-cyber-blue", "disabled:opacity-40")}
+          title={outline ? 'Text outline' : 'Text outline is only available for flowcharts'}
+        >
+          <ListTree className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={toggleFullscreen}
+          className={toolButton}
+          title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+        >
+          {isFullscreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+        </button>
+
+        <div className="ml-auto flex items-center gap-1">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-500" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  stepMatch(e.shiftKey ? -1 : 1)
+                }
+              }}
+              placeholder="Find node..."
+              aria-label="Find node"
+              className="cyber-auth-input w-40 pl-6"
+            />
+          </div>
+          <span className="w-12 text-center text-xs text-slate-400 tabular-nums" aria-live="polite">
+            {query.trim() ? `${matches.length ? activeMatch + 1 : 0}/${matches.length}` : ''}
+          </span>
+          <button type="button" onClick={() => stepMatch(-1)} disabled={!matches.length} className={cn(toolButton, "disabled:opacity-40")} title="Previous match">
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={() => stepMatch(1)} disabled={!matches.length} className={cn(toolButton, "disabled:opacity-40")} title="Next match">
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {outline && outlineShown && (
+        <div className={cn("overflow-y-auto p-3", isFullscreen ? "flex-1" : "h-[32rem]")}>
+          <DiagramOutline
+            outline={outline}
+            linkedNodes={linkedNodes}
+            activeNode={activeNode}
+            onNodeClick={onNodeClick}
+            onLocate={locateNode}
+          />
+        </div>
+      )}
+      <div className={cn("relative", isFullscreen ? "flex-1" : "h-[32rem]", outlineShown && "hidden")}>
+        <div
+          ref={viewportRef}
+          tabIndex={0}
+          onKeyDown={handleViewportKey}
+          aria-label="Diagram viewport. Drag to pan, scroll to zoom, arrow keys to move between steps."
+          className="absolute inset-0 overflow-hidden cursor-grab active:cursor-grabbing touch-none focus:outline-none focus-visible:ring-1 focus-visible:ring-cyber-purple"
+        >
+          <div
+            ref={contentRef}
+            className="absolute left-0 top-0 origin-top-left"
+            style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`, width, height }}
+            onClick={handleContentClick}
+            onKeyDown={handleContentKey}
+            onFocus={handleContentFocus}
+            dangerouslySetInnerHTML={markup}
+          />
+        </div>
+        {viewportSize.width > 0 && width > 0 && (
+          <Minimap
+            svg={svg}
+            content={{ width, height }}
+            viewport={viewportSize}
+            transform={transform}
+            onNavigate={(x, y) => centerOn({ x, y, width: 0, height: 0 })}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
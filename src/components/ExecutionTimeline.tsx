@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { Check, X } from 'lucide-react'
+import type { ExecutionStatus } from '../services/agentProvider'
+import type { PollProgressEvent } from '../services/polling'
+import { cn } from '../lib/utils'
+
+interface ExecutionTimelineProps {
+  startedAt: number
+  progress: PollProgressEvent | null
+  onCancel: () => void
+}
+
+type Stage = 'submitting' | ExecutionStatus
+
+const STAGES: { id: Stage; label: string }[] = [
+  { id: 'submitting', label: 'Submitting' },
+  { id: 'queued', label: 'Queued' },
+  { id: 'running', label: 'Running' },
+  { id: 'finished', label: 'Finished' },
+]
+
+const stageIndex = (stage: Stage) => (stage === 'failed' ? STAGES.length - 1 : STAGES.findIndex(s => s.id === stage))
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export default function ExecutionTimeline({ startedAt, progress, onCancel }: ExecutionTimelineProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const [stage, setStage] = useState<Stage>('submitting')
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Retry events carry no status, so the last known stage is kept
+  useEffect(() => {
+    if (progress?.type === 'status') setStage(progress.status)
+    else if (progress?.type === 'submitted') setStage('queued')
+  }, [progress])
+
+  const current = stageIndex(stage)
+
+  return (
+    <div className="mt-6 p-4 bg-slate-800/30 border border-slate-700/30 rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <ol className="flex items-center gap-2 flex-1">
+          {STAGES.map((s, index) => {
+            const done = index < current
+            const active = index === current
+            return (
+              <li key={s.id} className="flex items-center gap-2 flex-1 last:flex-none">
+                <div
+                  className={cn(
+                    "w-6 h-6 rounded-full border flex items-center justify-center text-xs shrink-0",
+                    done && "bg-cyber-green/20 border-cyber-green text-cyber-green",
+                    active && "border-cyber-blue text-cyber-blue animate-pulse",
+                    !done && !active && "border-slate-600 text-slate-500"
+                  )}
+                >
+                  {done ? <Check className="w-3 h-3" /> : index + 1}
+                </div>
+                <span className={cn("text-sm", active ? "text-slate-200" : "text-slate-400")}>{s.label}</span>
+                {index < STAGES.length - 1 && <div className="h-px flex-1 bg-slate-700" />}
+              </li>
+            )
+          })}
+        </ol>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-1 text-sm text-slate-300 hover:text-red-300 border border-slate-600/50 rounded-lg px-3 py-1.5"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+      <div className="mt-3 flex gap-4 text-xs text-slate-400">
+        <span>Elapsed {formatElapsed(now - startedAt)}</span>
+        {progress && progress.attempt > 0 && <span>Status checks: {progress.attempt}</span>}
+        {progress?.type === 'retry' && (
+          <span className="text-amber-300">
+            {progress.error} – retrying in {Math.ceil(progress.delayMs / 1000)}s
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, Download, Loader2 } from 'lucide-react'
+import { DEFAULT_EXPORT_OPTIONS, type ExportFormat, type ExportOptions } from '../lib/export'
+import { findTheme } from '../lib/themes'
+import { useTheme } from '../context/themeContext'
+import { cn } from '../lib/utils'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat, options: ExportOptions) => Promise<void>
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'png', label: 'PNG image', hint: 'Raster image at the chosen scale' },
+  { format: 'svg', label: 'SVG', hint: 'Vector image with inlined styles' },
+  { format: 'pdf', label: 'PDF', hint: 'Diagram page plus the description' },
+  { format: 'html', label: 'HTML report', hint: 'Single self-contained file' },
+  { format: 'md', label: 'Markdown', hint: 'Fenced mermaid block and description' },
+]
+
+const SCALES = [1, 2, 3, 4]
+
+const BACKGROUNDS: { value: ExportOptions['background']; label: string }[] = [
+  { value: 'theme', label: 'Theme' },
+  { value: 'transparent', label: 'Transparent' },
+  { value: '#ffffff', label: 'White' },
+]
+
+export default function ExportMenu({ onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const { theme: appTheme, themes } = useTheme()
+  // Empty means "follow the app theme"
+  const [themeId, setThemeId] = useState('')
+  const [options, setOptions] = useState<Omit<ExportOptions, 'theme'>>(DEFAULT_EXPORT_OPTIONS)
+  const [busy, setBusy] = useState<ExportFormat | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handlePointer = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointer)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('pointerdown', handlePointer)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [open])
+
+  const runExport = async (format: ExportFormat) => {
+    setBusy(format)
+    try {
+      await onExport(format, { ...options, theme: themeId ? findTheme(themes, themeId) : appTheme })
+      setOpen(false)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const selectClass = "w-full bg-slate-900/60 border border-slate-600/50 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyber-purple"
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(value => !value)}
+        className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="Export the diagram"
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3">
+          <div className="grid grid-cols-3 gap-2 text-xs text-slate-400">
+            <label className="space-y-1">
+              <span>Theme</span>
+              <select value={themeId} onChange={(e) => setThemeId(e.target.value)} className={selectClass}>
+                <option value="">App ({appTheme.label})</option>
+                {themes.map(theme => (
+                  <option key={theme.id} value={theme.id}>{theme.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>Scale</span>
+              <select
+                value={options.scale}
+                onChange={(e) => setOptions({ ...options, scale: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>Background</span>
+              <select
+                value={options.background}
+                onChange={(e) => setOptions({ ...options, background: e.target.value })}
+                className={selectClass}
+              >
+                {BACKGROUNDS.map(bg => <option key={bg.value} value={bg.value}>{bg.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div role="menu" className="border-t border-slate-700/50 pt-2 space-y-1">
+            {FORMATS.map(({ format, label, hint }) => (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => runExport(format)}
+                disabled={busy !== null}
+                className={cn(
+                  "w-full flex items-center justify-between gap-2 rounded px-2 py-1.5 text-left hover:bg-slate-700/50 disabled:cursor-wait",
+                  busy && busy !== format && "opacity-50"
+                )}
+              >
+                <span>
+                  <span className="block text-sm text-slate-200">{label}</span>
+                  <span className="block text-xs text-slate-400">{hint}</span>
+                </span>
+                {busy === format && <Loader2 className="w-4 h-4 animate-spin text-cyber-blue" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { FileText, Search, Trash2, Youtube } from 'lucide-react'
+import { historyStore, isInFlight, type HistoryRecord } from '../services/historyStore'
+import { useHistoryRecords } from '../hooks/useHistoryRecords'
+import { cn } from '../lib/utils'
+
+interface HistorySidebarProps {
+  activeId?: string
+}
+
+const STATUS_STYLES: Record<HistoryRecord['status'], string> = {
+  queued: 'text-slate-400',
+  running: 'text-cyber-blue',
+  finished: 'text-cyber-green',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+}
+
+const matches = (record: HistoryRecord, query: string) =>
+  [record.ytUrl, record.videoId, record.transcript?.name, record.description, record.mermaid]
+    .some(field => field?.toLowerCase().includes(query))
+
+const titleFor = (record: HistoryRecord) =>
+  record.description?.match(/^#+\s*(.+)$/m)?.[1] ?? record.videoId ?? record.transcript?.name ?? record.ytUrl
+
+export default function HistorySidebar({ activeId }: HistorySidebarProps) {
+  const records = useHistoryRecords()
+  const [query, setQuery] = useState('')
+  const navigate = useNavigate()
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return q ? records.filter(record => matches(record, q)) : records
+  }, [records, query])
+
+  const handleDelete = async (executionId: string) => {
+    await historyStore.delete(executionId)
+    if (executionId === activeId) {
+      navigate('/history')
+    }
+  }
+
+  return (
+    <aside className="cyber-card p-4 w-72 shrink-0 self-stretch max-h-[calc(100vh-2rem)] flex flex-col">
+      <h2 className="text-sm font-semibold text-cyber-blue mb-3">History</h2>
+      <div className="relative mb-3">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+        <input
+          type="search"
+          placeholder="Search diagrams..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="cyber-input w-full pl-9 py-2 text-sm"
+        />
+      </div>
+
+      <ul className="space-y-2 overflow-y-auto flex-1">
+        {filtered.length === 0 && (
+          <li className="text-xs text-slate-500">{records.length === 0 ? 'No diagrams generated yet' : 'No matches'}</li>
+        )}
+        {filtered.map(record => (
+          <li
+            key={record.executionId}
+            className={cn(
+              "group rounded-lg border p-3 text-sm",
+              record.executionId === activeId
+                ? "border-cyber-purple/60 bg-cyber-purple/10"
+                : "border-slate-700/40 bg-slate-800/30 hover:border-slate-600"
+            )}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <Link to={`/history/${encodeURIComponent(record.executionId)}`} className="min-w-0 flex-1">
+                <div className="truncate text-slate-200">{titleFor(record)}</div>
+                <div className="mt-1 flex items-center gap-2 text-xs">
+                  {record.transcript ? (
+                    <FileText className="w-3 h-3 shrink-0 text-slate-400" aria-label="From a transcript" />
+                  ) : (
+                    <Youtube className="w-3 h-3 shrink-0 text-slate-400" aria-label="From a YouTube video" />
+                  )}
+                  <span className={STATUS_STYLES[record.status]}>
+                    {record.status}{isInFlight(record) && '…'}
+                  </span>
+                  <span className="text-slate-500">{new Date(record.createdAt).toLocaleString()}</span>
+                </div>
+              </Link>
+              <button
+                type="button"
+                onClick={() => handleDelete(record.executionId)}
+                className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title="Delete from history"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  )
+}
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle, CheckCircle2, Redo2, RotateCcw, Undo2 } from 'lucide-react'
+import { diagnoseMermaid, type MermaidDiagnostic } from '../lib/mermaidDiagnostics'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { cn } from '../lib/utils'
+
+interface MermaidEditorProps {
+  value: string
+  onChange: (value: string) => void
+  onUndo: () => void
+  onRedo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  isEdited: boolean
+  onReset: () => void
+}
+
+const DIAGNOSE_DELAY_MS = 400
+
+export default function MermaidEditor({ value, onChange, onUndo, onRedo, canUndo, canRedo, isEdited, onReset }: MermaidEditorProps) {
+  const [diagnostic, setDiagnostic] = useState<MermaidDiagnostic | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const debounced = useDebouncedValue(value, DIAGNOSE_DELAY_MS)
+
+  useEffect(() => {
+    let active = true
+    diagnoseMermaid(debounced).then(result => active && setDiagnostic(result))
+    return () => {
+      active = false
+    }
+  }, [debounced])
+
+  const lineCount = value.split('\n').length
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.metaKey || e.ctrlKey
+    if (mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault()
+      if (e.shiftKey) onRedo()
+      else onUndo()
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault()
+      onRedo()
+    } else if (e.key === 'Tab') {
+      // Indent instead of leaving the editor
+      e.preventDefault()
+      const { selectionStart, selectionEnd } = e.currentTarget
+      onChange(value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd))
+      requestAnimationFrame(() => textareaRef.current?.setSelectionRange(selectionStart + 4, selectionStart + 4))
+    }
+  }
+
+  const jumpToDiagnostic = () => {
+    const textarea = textareaRef.current
+    if (!textarea || !diagnostic?.line) return
+    const lines = value.split('\n')
+    const offset = lines.slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0)
+    const position = offset + Math.max(0, (diagnostic.column ?? 1) - 1)
+    textarea.focus()
+    textarea.setSelectionRange(position, position)
+  }
+
+  const toolbarButton = "flex items-center gap-1 text-xs text-slate-300 hover:text-slate-100 border border-slate-600/50 rounded px-2 py-1 disabled:opacity-40 disabled:cursor-not-allowed"
+
+  return (
+    <div className="flex flex-col bg-slate-800/30 border border-slate-700/30 rounded-lg overflow-hidden min-h-[24rem]">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-700/40">
+        <span className="text-xs text-slate-400">
+          Mermaid source{isEdited && <span className="ml-2 text-cyber-pink">edited</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={onUndo} disabled={!canUndo} className={toolbarButton} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+          <button type="button" onClick={onRedo} disabled={!canRedo} className={toolbarButton} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-3 h-3" />
+            Redo
+          </button>
+          <button type="button" onClick={onReset} disabled={!isEdited} className={toolbarButton} title="Discard manual edits">
+            <RotateCcw className="w-3 h-3" />
+            Reset to AI output
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex flex-1 min-h-0 font-mono text-xs leading-5">
+        <div
+          ref={gutterRef}
+          aria-hidden
+          className="select-none overflow-hidden py-3 text-right text-slate-500 bg-slate-900/40 border-r border-slate-700/40"
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div
+              key={i}
+              className={cn("px-2", diagnostic?.line === i + 1 && "bg-red-900/50 text-red-300")}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop
+          }}
+          spellCheck={false}
+          aria-label="Mermaid source"
+          aria-invalid={!!diagnostic}
+          className="flex-1 resize-none bg-transparent p-3 text-slate-200 whitespace-pre overflow-auto focus:outline-none"
+        />
+      </div>
+
+      <div
+        role="status"
+        className={cn(
+          "px-3 py-2 text-xs border-t border-slate-700/40",
+          diagnostic ? "text-red-300 bg-red-900/20" : "text-cyber-green"
+        )}
+      >
+        {diagnostic ? (
+          <button type="button" onClick={jumpToDiagnostic} className="flex items-start gap-2 text-left w-full">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>
+              {diagnostic.line && (
+                <span className="font-semibold">
+                  Line {diagnostic.line}{diagnostic.column ? `, column ${diagnostic.column}` : ''}:{' '}
+                </span>
+              )}
+              <span className="whitespace-pre-wrap">{diagnostic.message}</span>
+            </span>
+          </button>
+        ) : (
+          <span className="flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4" />
+            Syntax OK
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
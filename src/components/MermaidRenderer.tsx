@@ -1,174 +1,112 @@
-import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import mermaid from 'mermaid';
+import { useEffect, useMemo, useState, useImperativeHandle, forwardRef } from 'react';
+import { Wrench } from 'lucide-react';
+import { exportDiagram, exportFilename, exportTitle, withThemeDirective, type ExportFormat, type ExportOptions } from '../lib/export';
+import { mermaid, sanitizeSvg } from '../lib/safeMermaid';
+import { repairMermaid, type MermaidFixer } from '../lib/mermaidRepair';
+import { useTheme } from '../context/themeContext';
+import DiagramViewport from './DiagramViewport';
+import type { DiffMarks } from '../lib/flowchart/diff';
+import { outlineFromSource } from '../lib/flowchart/outline';
+import { downloadBlob } from '../lib/download';
 
 interface MermaidRendererProps {
   chart: string;
   className?: string;
+  // Passed through to the viewport for nodes linked to video timestamps
+  linkedNodes?: string[];
+  activeNode?: string | null;
+  onNodeClick?: (nodeId: string) => void;
+  // Nodes with lint findings, outlined in the viewport
+  flaggedNodes?: string[];
+  // Changes colored by the compare view
+  diffMarks?: DiffMarks;
+}
+
+export interface ExportRequest extends Partial<ExportOptions> {
+  title?: string;
+  // Markdown included by the PDF, HTML and Markdown formats
+  description?: string;
+  origin?: string;
+  filename?: string;
 }
 
 export interface MermaidRendererRef {
-  downloadAsPNG: (filename?: string) => void;
+  downloadAsPNG: (filename?: string) => Promise<void>;
+  exportAs: (format: ExportFormat, request?: ExportRequest) => Promise<void>;
 }
 
-const MermaidRenderer = forwardRef<MermaidRendererRef, MermaidRendererProps>(({ chart, className = '' }, ref) => {
-  const mermaidRef = useRef<HTMLDivElement>(null);
-
-  const downloadAsPNG = (filename: string = 'mermaid-diagram.png') => {
-    if (!mermaidRef.current) return;
-
-    const svgElement = mermaidRef.current.querySelector('svg');
-    if (!svgElement) return;
-
-    // Clone the SVG to avoid modifying the original
-    const svgClone = svgElement.cloneNode(true) as SVGElement;
-    
-    // Get SVG dimensions
-    const svgRect = svgElement.getBoundingClientRect();
-    const svgWidth = svgElement.viewBox?.baseVal?.width || svgRect.width;
-    const svgHeight = svgElement.viewBox?.baseVal?.height || svgRect.height;
-
-    // Set explicit dimensions on the cloned SVG
-    svgClone.setAttribute('width', svgWidth.toString());
-    svgClone.setAttribute('height', svgHeight.toString());
-
-    // Create a canvas element
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas dimensions with some padding
-    const padding = 40;
-    const scale = 2; // For better quality
-    canvas.width = (svgWidth + padding * 2) * scale;
-    canvas.height = (svgHeight + padding * 2) * scale;
-
-    // Scale the context for high resolution
-    ctx.scale(scale, scale);
-
-    // Fill canvas with white background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, svgWidth + padding * 2, svgHeight + padding * 2);
-
-    // Convert SVG to data URL with embedded styles
-    const svgData = new XMLSerializer().serializeToString(svgClone);
-    const svgDataUrl = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgData)))}`;
-
-    // Create image and draw to canvas
-    const img = new Image();
-    img.crossOrigin = 'anonymous'; // This helps prevent CORS issues
-    img.onload = () => {
-      try {
-        ctx.drawImage(img, padding, padding, svgWidth, svgHeight);
-        
-        // Convert canvas to blob and download
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const downloadUrl = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = downloadUrl;
-            link.download = filename;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(downloadUrl);
-          }
-        }, 'image/png');
-      } catch (error) {
-        console.error('Error converting to PNG:', error);
-        // Fallback: download as SVG
-        const svgBlob = new Blob([svgData], { type: 'image/svg+xml' });
-        const downloadUrl = URL.createObjectURL(svgBlob);
-        const link = document.createElement('a');
-        link.href = downloadUrl;
-        link.download = filename.replace('.png', '.svg');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(downloadUrl);
-      }
-    };
-    
-    img.onerror = () => {
-      console.error('Error loading SVG as image');
-      // Fallback: download as SVG
-      const svgBlob = new Blob([svgData], { type: 'image/svg+xml' });
-      const downloadUrl = URL.createObjectURL(svgBlob);
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = filename.replace('.png', '.svg');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(downloadUrl);
-    };
-    
-    img.src = svgDataUrl;
+interface RenderedChart {
+  // Source that was rendered, after automatic repairs
+  source: string;
+  repairs: MermaidFixer[];
+  svg: string;
+  width: number;
+  height: number;
+  error: string | null;
+}
+
+let renderCounter = 0;
+
+// Mermaid sizes its SVG with width="100%" and a max-width style, which would
+// squeeze large diagrams; the viewport needs the natural size instead
+const naturalSize = (svg: string) => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [, , width = 0, height = 0] = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.style.removeProperty('max-width');
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+const MermaidRenderer = forwardRef<MermaidRendererRef, MermaidRendererProps>(({ chart, className = '', linkedNodes, activeNode, onNodeClick, flaggedNodes, diffMarks }, ref) => {
+  const [rendered, setRendered] = useState<RenderedChart>({ source: '', repairs: [], svg: '', width: 0, height: 0, error: null });
+  const { theme } = useTheme();
+  const outline = useMemo(() => (rendered.source ? outlineFromSource(rendered.source) : null), [rendered.source]);
+
+  // Exports re-render from source instead of copying the on-screen SVG, so the
+  // requested theme (the app theme by default), background and scale are honoured
+  const exportAs = async (format: ExportFormat, { filename, title, description, origin, ...options }: ExportRequest = {}) => {
+    if (!chart.trim()) return;
+    const content = { source: rendered.source || chart, title, description, origin };
+    const blob = await exportDiagram(format, content, { theme, ...options });
+    downloadBlob(blob, filename ?? exportFilename(exportTitle(content), format));
   };
 
   useImperativeHandle(ref, () => ({
-    downloadAsPNG
+    downloadAsPNG: (filename?: string) => exportAs('png', { filename }),
+    exportAs,
   }));
 
   useEffect(() => {
-    // Initialize mermaid with cyber theme colors
-    mermaid.initialize({
-      startOnLoad: false,
-      theme: 'dark',
-      themeVariables: {
-        primaryColor: '#8B5CF6',
-        primaryTextColor: '#ffffff',
-        primaryBorderColor: '#0EA5E9',
-        lineColor: '#EC4899',
-        secondaryColor: '#10B981',
-        tertiaryColor: '#1e293b',
-        background: '#0f172a',
-        mainBkg: '#1e293b',
-        secondBkg: '#334155',
-        tertiaryBkg: '#475569',
-      }
-    });
+    let active = true;
 
     const renderChart = async () => {
-      if (mermaidRef.current && chart.trim()) {
+      if (chart.trim()) {
         console.log('Mermaid diagram syntax:', chart);
         try {
-          // Clear previous content
-          mermaidRef.current.innerHTML = '';
-          
+          // Common LLM syntax slips are fixed before rendering; a source that
+          // still does not parse is rendered as-is so the error refers to it
+          const { source, applied } = await repairMermaid(chart);
+
           // Generate unique ID for this chart
-          const id = `mermaid-${Date.now()}`;
-          
-          // Render the chart
-          const { svg } = await mermaid.render(id, chart);
-          
-          // Insert the rendered SVG
-          mermaidRef.current.innerHTML = svg;
-          
-          // Style the SVG to fit within the container
-          const svgElement = mermaidRef.current.querySelector('svg');
-          if (svgElement) {
-            svgElement.style.maxWidth = '100%';
-            svgElement.style.height = 'auto';
-            svgElement.style.backgroundColor = 'transparent';
-          }
+          const id = `mermaid-${++renderCounter}`;
+
+          // The theme travels with the source, so switching re-renders without a new agent request
+          const { svg } = await mermaid.render(id, withThemeDirective(source, theme, false));
+          if (active) setRendered({ source, repairs: applied, ...naturalSize(sanitizeSvg(svg)), error: null });
         } catch (error) {
           console.error('Mermaid rendering error:', error);
-          mermaidRef.current.innerHTML = `
-            <div class="text-red-400 p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
-              <h3 class="font-semibold mb-2">Error rendering diagram</h3>
-              <p class="text-sm">Unable to render the mermaid diagram. Please check the syntax.</p>
-              <details class="mt-2">
-                <summary class="cursor-pointer text-xs opacity-70">Show error details</summary>
-                <pre class="text-xs mt-1 opacity-70">${error}</pre>
-              </details>
-            </div>
-          `;
+          if (active) setRendered(previous => ({ ...previous, source: chart, repairs: [], error: String(error) }));
         }
       }
     };
 
     renderChart();
-  }, [chart]);
+    return () => {
+      active = false;
+    };
+  }, [chart, theme]);
 
   if (!chart.trim()) {
     return null;
@@ -176,10 +114,43 @@ const MermaidRenderer = forwardRef<MermaidRendererRef, MermaidRendererProps>(({
 
   return (
     <div className={`mermaid-container ${className}`}>
-      <div 
-        ref={mermaidRef} 
-        className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-6 overflow-auto"
-      />
+      {rendered.error ? (
+        <div className="text-red-400 p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
+          <h3 className="font-semibold mb-2">Error rendering diagram</h3>
+          <p className="text-sm">Unable to render the mermaid diagram. Please check the syntax.</p>
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs opacity-70">Show error details</summary>
+            <pre className="text-xs mt-1 opacity-70 whitespace-pre-wrap">{rendered.error}</pre>
+            <p className="text-xs mt-2 opacity-70">Diagram source:</p>
+            <pre className="text-xs mt-1 p-2 rounded bg-slate-900/60 text-slate-300 whitespace-pre-wrap">{chart}</pre>
+          </details>
+        </div>
+      ) : (
+        rendered.svg && (
+          <>
+            {rendered.repairs.length > 0 && (
+              <p
+                className="flex items-center gap-1.5 mb-2 text-xs text-amber-300/80"
+                title={rendered.repairs.map(fixer => fixer.name).join(', ')}
+              >
+                <Wrench className="w-3.5 h-3.5 shrink-0" />
+                Auto-repaired: {rendered.repairs.map(fixer => fixer.description).join('; ')}
+              </p>
+            )}
+            <DiagramViewport
+              svg={rendered.svg}
+              width={rendered.width}
+              height={rendered.height}
+              linkedNodes={linkedNodes}
+              activeNode={activeNode}
+              flaggedNodes={flaggedNodes}
+              diffMarks={diffMarks}
+              outline={outline}
+              onNodeClick={onNodeClick}
+            />
+          </>
+        )
+      )}
     </div>
   );
 });
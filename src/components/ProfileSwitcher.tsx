@@ -0,0 +1,31 @@
+import { Link } from 'react-router-dom'
+import { Settings } from 'lucide-react'
+import { useAgentProfiles } from '../context/agentContext'
+
+// Header control for the agent profile new runs use; runs already in flight
+// finish with the profile they started with
+export default function ProfileSwitcher() {
+  const { activeProfile, profiles, setActiveProfile } = useAgentProfiles()
+
+  return (
+    <div className="flex items-center gap-2">
+      {profiles.length > 1 && (
+        <select
+          value={activeProfile.id}
+          onChange={(e) => setActiveProfile(e.target.value)}
+          className="cyber-auth-input max-w-[10rem] font-sans text-sm"
+          aria-label="Agent profile"
+          title="Agent profile used for new diagrams"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      )}
+      <Link to="/settings" className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200" title="Agent profiles">
+        <Settings className="w-4 h-4" />
+        Settings
+      </Link>
+    </div>
+  )
+}
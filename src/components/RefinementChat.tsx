@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react'
+import { MessageSquare, RotateCcw, Send } from 'lucide-react'
+import { useAgentProvider } from '../context/agentContext'
+import type { ProcessResult } from '../services/agentProvider'
+import { AgentCancelledError } from '../services/agentErrors'
+import type { DiagramSource } from '../services/diagramSource'
+import type { DiagramVersion } from '../services/historyStore'
+import type { PollProgressEvent } from '../services/polling'
+import ExecutionTimeline from './ExecutionTimeline'
+import { versionLabel } from '../hooks/useDiagramVersions'
+import { cn } from '../lib/utils'
+
+interface RefinementChatProps {
+  source: DiagramSource
+  // Source sent with follow-ups; may include hand edits on top of the version
+  mermaid: string
+  versions: DiagramVersion[]
+  currentIndex: number
+  onSelect: (index: number) => void
+  onRevert: (index: number) => void
+  onRefined: (result: ProcessResult, instruction: string) => void
+}
+
+const SUGGESTIONS = ['Merge the approval steps', 'Add swimlanes per role', 'Translate labels to German']
+
+export default function RefinementChat({ source, mermaid, versions, currentIndex, onSelect, onRevert, onRefined }: RefinementChatProps) {
+  const agent = useAgentProvider()
+  const [instruction, setInstruction] = useState('')
+  const [pending, setPending] = useState<string | null>(null)
+  const [progress, setProgress] = useState<PollProgressEvent | null>(null)
+  const [startedAt, setStartedAt] = useState(0)
+  const [error, setError] = useState('')
+  const abortRef = useRef<AbortController | null>(null)
+  const threadRef = useRef<HTMLOListElement>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight })
+  }, [versions.length, pending])
+
+  const current = versions[currentIndex]
+  const isLatest = currentIndex === versions.length - 1
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = instruction.trim()
+    if (!text || !current || pending) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setPending(text)
+    setInstruction('')
+    setError('')
+    setProgress(null)
+    setStartedAt(Date.now())
+
+    try {
+      const result = await agent.refineDiagram(
+        { source, instruction: text, mermaid, description: current.description },
+        { signal: controller.signal, onProgress: setProgress },
+      )
+      // Unmounted meanwhile: the result belongs to a diagram no longer shown
+      if (controller.signal.aborted) return
+      onRefined(result, text)
+    } catch (err) {
+      setError(err instanceof AgentCancelledError
+        ? 'Refinement cancelled'
+        : err instanceof Error ? err.message : 'An error occurred')
+      setInstruction(text)
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setPending(null)
+      }
+    }
+  }
+
+  return (
+    <div className="mt-6 border-t border-slate-700/50 pt-6">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-cyber-blue">
+          <MessageSquare className="w-5 h-5" />
+          Refine Diagram
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={currentIndex}
+            onChange={(e) => onSelect(Number(e.target.value))}
+            className="cyber-input py-1.5 text-sm max-w-xs"
+            aria-label="Diagram version"
+          >
+            {versions.map((version, index) => (
+              <option key={index} value={index}>{versionLabel(version, index)}</option>
+            ))}
+          </select>
+          {!isLatest && (
+            <button
+              type="button"
+              onClick={() => onRevert(currentIndex)}
+              disabled={!!pending}
+              className="flex items-center gap-1 text-sm text-slate-300 hover:text-slate-100 border border-slate-600/50 rounded-lg px-3 py-1.5 disabled:opacity-50"
+              title="Make this version the latest one"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Revert
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ol ref={threadRef} className="space-y-3 max-h-72 overflow-y-auto mb-4">
+        {versions.map((version, index) => (
+          <li key={index} className="space-y-2">
+            {version.instruction && (
+              <div className="ml-auto w-fit max-w-[80%] rounded-lg bg-cyber-purple/20 border border-cyber-purple/40 px-3 py-2 text-sm text-slate-100">
+                {version.instruction}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              className={cn(
+                "block w-fit max-w-[80%] rounded-lg border px-3 py-2 text-left text-sm",
+                index === currentIndex
+                  ? "border-cyber-blue/60 bg-cyber-blue/10 text-slate-100"
+                  : "border-slate-700/40 bg-slate-800/40 text-slate-300 hover:border-slate-600"
+              )}
+            >
+              {index === 0
+                ? 'Generated the original diagram (v1).'
+                : version.revertedFrom !== undefined
+                  ? `Restored version ${version.revertedFrom + 1} as v${index + 1}.`
+                  : `Updated the diagram (v${index + 1}).`}
+            </button>
+          </li>
+        ))}
+        {pending && (
+          <li className="ml-auto w-fit max-w-[80%] rounded-lg bg-cyber-purple/20 border border-cyber-purple/40 px-3 py-2 text-sm text-slate-100">
+            {pending}
+          </li>
+        )}
+      </ol>
+
+      {pending && (
+        <ExecutionTimeline startedAt={startedAt} progress={progress} onCancel={() => abortRef.current?.abort()} />
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-700/50 rounded-lg text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!pending && versions.length === 1 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => setInstruction(suggestion)}
+              className="text-xs text-slate-300 border border-slate-600/50 rounded-full px-3 py-1 hover:border-cyber-purple"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-3">
+        <input
+          type="text"
+          placeholder={isLatest ? 'Ask for a change, e.g. "merge the approval steps"' : `Refine v${currentIndex + 1}...`}
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={!!pending}
+          className={cn("cyber-input flex-1 text-sm", pending && "opacity-50 cursor-not-allowed")}
+        />
+        <button
+          type="submit"
+          disabled={!!pending || !instruction.trim()}
+          className={cn(
+            "cyber-button flex items-center gap-2 text-sm px-4 py-2 shrink-0",
+            (!!pending || !instruction.trim()) && "opacity-50 cursor-not-allowed"
+          )}
+        >
+          <Send className="w-4 h-4" />
+          Send
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,348 @@
+import { useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, Check, Copy, Download, Plus, Save, Trash2, Upload } from 'lucide-react'
+import { useAgentProfiles } from '../context/agentContext'
+import {
+  DEFAULT_OUTPUT_KEYS,
+  DEFAULT_PROFILE_ID,
+  INPUT_FIELDS,
+  PROVIDER_NAMES,
+  parseProfile,
+  parseProfilesFile,
+  serializeProfiles,
+  type AgentProfile,
+  type OutputKeys,
+  type PollLimits,
+} from '../services/agentProfiles'
+import ThemePicker from './ThemePicker'
+import { downloadBlob } from '../lib/download'
+import { cn } from '../lib/utils'
+
+const POLL_FIELDS: { key: keyof PollLimits; label: string; unit: 'seconds' | 'ms' | 'count' }[] = [
+  { key: 'deadlineMs', label: 'Give up after', unit: 'seconds' },
+  { key: 'initialDelayMs', label: 'First poll after', unit: 'ms' },
+  { key: 'maxDelayMs', label: 'Longest poll interval', unit: 'ms' },
+  { key: 'maxRetries', label: 'Retries on network errors', unit: 'count' },
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
+const copyOf = (profile: AgentProfile, name: string): AgentProfile => ({
+  ...structuredClone(profile),
+  id: `profile-${Date.now()}`,
+  name,
+})
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      {children}
+      {hint && <span className="text-slate-500">{hint}</span>}
+    </label>
+  )
+}
+
+// Agent profiles: which proxy, account and agent to use, how inputs and
+// outputs are named for that agent and how long to wait for it. The built-in
+// profile mirrors the build configuration and can only be duplicated.
+export default function SettingsView() {
+  const { activeProfile, profiles, setActiveProfile, saveProfile, deleteProfile, importProfiles } = useAgentProfiles()
+  const [draft, setDraft] = useState<AgentProfile>(activeProfile)
+  const [formError, setFormError] = useState('')
+  const [notice, setNotice] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isBuiltIn = draft.id === DEFAULT_PROFILE_ID
+  const isSaved = profiles.some(profile => profile.id === draft.id)
+  const userProfiles = profiles.filter(profile => profile.id !== DEFAULT_PROFILE_ID)
+
+  const edit = (profile: AgentProfile) => {
+    setDraft(profile)
+    setFormError('')
+    setNotice('')
+  }
+
+  const update = (changes: Partial<AgentProfile>) => setDraft(current => ({ ...current, ...changes }))
+
+  const handleSave = () => {
+    try {
+      const profile = parseProfile(draft)
+      saveProfile(profile)
+      setDraft(profile)
+      setFormError('')
+      setNotice(`Saved "${profile.name}".`)
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleDelete = () => {
+    deleteProfile(draft.id)
+    if (activeProfile.id === draft.id) setActiveProfile(DEFAULT_PROFILE_ID)
+    edit(profiles[0])
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const imported = parseProfilesFile(await file.text())
+      importProfiles(imported)
+      setFormError('')
+      setNotice(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'} from ${file.name}.`)
+    } catch (error) {
+      setNotice('')
+      setFormError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeProfiles(userProfiles)], { type: 'application/json' }), 'agent-profiles.json')
+  }
+
+  const outputKey = (key: keyof OutputKeys, label: string) => (
+    <Field label={label}>
+      <input
+        value={draft.outputKeys[key]}
+        onChange={(e) => update({ outputKeys: { ...draft.outputKeys, [key]: e.target.value } })}
+        placeholder={DEFAULT_OUTPUT_KEYS[key]}
+        className="cyber-auth-input"
+      />
+    </Field>
+  )
+
+  return (
+    <div className="min-h-screen gradient-bg flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl">
+        <div className="relative flex items-center justify-center mb-8">
+          <Link to="/" className="absolute left-0 flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+          <div className="flex items-center gap-4">
+            <div className="text-slate-400 text-sm">Powered by</div>
+            <img src={`${import.meta.env.BASE_URL}logo_everworker.svg`} alt="Everworker" className="h-8 opacity-100 contrast-125" />
+          </div>
+          <div className="absolute right-0 flex items-center gap-4">
+            <ThemePicker />
+          </div>
+        </div>
+
+        <div className="cyber-card p-8 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-cyber-blue">Agent profiles</h3>
+              <p className="text-slate-400 text-sm">Saved in this browser. Credentials stay on the agent proxy.</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg border border-slate-600/50 text-slate-300 hover:text-slate-100"
+              >
+                <Upload className="w-4 h-4" />
+                Import JSON
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={!userProfiles.length}
+                className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg border border-slate-600/50 text-slate-300 hover:text-slate-100 disabled:opacity-50"
+                title="Download your profiles (not the built-in one) as JSON"
+              >
+                <Download className="w-4 h-4" />
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          {notice && <p className="text-sm text-cyber-green">{notice}</p>}
+          {formError && (
+            <div className="p-4 bg-red-900/30 border border-red-700/50 rounded-lg text-red-300 text-sm">{formError}</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-[14rem_minmax(0,1fr)] gap-6 items-start">
+            <ul className="space-y-1">
+              {profiles.map(profile => (
+                <li key={profile.id}>
+                  <button
+                    type="button"
+                    onClick={() => edit(profile)}
+                    aria-pressed={profile.id === draft.id}
+                    className={cn(
+                      "w-full flex items-center gap-2 rounded px-3 py-2 text-sm text-left",
+                      profile.id === draft.id ? "bg-slate-700/50 text-slate-100" : "text-slate-300 hover:bg-slate-700/30"
+                    )}
+                  >
+                    <span className="flex-1 truncate">{profile.name}</span>
+                    {profile.id === activeProfile.id && <Check className="w-4 h-4 text-cyber-green" aria-label="Active" />}
+                  </button>
+                </li>
+              ))}
+              <li>
+                <button
+                  type="button"
+                  onClick={() => edit(copyOf(profiles[0], 'New profile'))}
+                  className="w-full flex items-center gap-2 rounded px-3 py-2 text-sm text-slate-400 hover:text-slate-200"
+                >
+                  <Plus className="w-4 h-4" />
+                  New profile
+                </button>
+              </li>
+            </ul>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleSave()
+              }}
+              className="space-y-5"
+            >
+              {isBuiltIn && (
+                <p className="text-xs text-slate-400">
+                  The built-in profile follows the build configuration. Duplicate it to make changes.
+                </p>
+              )}
+
+              <fieldset disabled={isBuiltIn} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Field label="Name">
+                  <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className="cyber-auth-input" />
+                </Field>
+                <Field label="Provider">
+                  <select
+                    value={draft.provider}
+                    onChange={(e) => update({ provider: e.target.value as AgentProfile['provider'] })}
+                    className="cyber-auth-input"
+                  >
+                    {PROVIDER_NAMES.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Proxy base URL" hint="The agent proxy from server/, e.g. /api">
+                  <input value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} className="cyber-auth-input" />
+                </Field>
+                <div className="grid grid-cols-2 gap-3">
+                  <Field label="Account ID" hint="Empty: proxy default">
+                    <input value={draft.accountId} onChange={(e) => update({ accountId: e.target.value })} className="cyber-auth-input" />
+                  </Field>
+                  <Field label="Agent ID" hint="Empty: proxy default">
+                    <input value={draft.agentId} onChange={(e) => update({ agentId: e.target.value })} className="cyber-auth-input" />
+                  </Field>
+                </div>
+              </fieldset>
+
+              <fieldset disabled={isBuiltIn} className="space-y-2">
+                <legend className="text-sm font-semibold text-slate-200">Input field names</legend>
+                <p className="text-xs text-slate-500">Leave empty to send a field under its own name.</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {INPUT_FIELDS.map(field => (
+                    <Field key={field} label={field}>
+                      <input
+                        value={draft.inputFields[field] ?? ''}
+                        onChange={(e) => update({ inputFields: { ...draft.inputFields, [field]: e.target.value } })}
+                        placeholder={field}
+                        className="cyber-auth-input"
+                      />
+                    </Field>
+                  ))}
+                </div>
+              </fieldset>
+
+              <fieldset disabled={isBuiltIn} className="space-y-2">
+                <legend className="text-sm font-semibold text-slate-200">Output keys</legend>
+                <div className="grid grid-cols-3 gap-3">
+                  {outputKey('mermaid', 'Diagram')}
+                  {outputKey('description', 'Description')}
+                  {outputKey('timestamps', 'Node timestamps')}
+                </div>
+              </fieldset>
+
+              <fieldset disabled={isBuiltIn} className="space-y-2">
+                <legend className="text-sm font-semibold text-slate-200">Polling</legend>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {POLL_FIELDS.map(({ key, label, unit }) => (
+                    <Field key={key} label={unit === 'count' ? label : `${label} (${unit === 'seconds' ? 's' : 'ms'})`}>
+                      <input
+                        type="number"
+                        min={0}
+                        value={unit === 'seconds' ? draft.polling[key] / 1000 : draft.polling[key]}
+                        onChange={(e) => update({
+                          polling: { ...draft.polling, [key]: e.target.valueAsNumber * (unit === 'seconds' ? 1000 : 1) },
+                        })}
+                        className="cyber-auth-input"
+                      />
+                    </Field>
+                  ))}
+                </div>
+              </fieldset>
+
+              <fieldset disabled={isBuiltIn} className="space-y-2">
+                <legend className="text-sm font-semibold text-slate-200">Result cache</legend>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  <Field label="Reuse video results for (h)" hint="0 always runs the agent">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.cacheTtlMs / HOUR_MS}
+                      onChange={(e) => update({ cacheTtlMs: e.target.valueAsNumber * HOUR_MS })}
+                      className="cyber-auth-input"
+                    />
+                  </Field>
+                </div>
+              </fieldset>
+
+              <div className="flex flex-wrap justify-end gap-3 border-t border-slate-700/50 pt-4">
+                {isSaved && !isBuiltIn && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="mr-auto flex items-center gap-2 text-sm text-slate-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => edit(copyOf(draft, `${draft.name} copy`))}
+                  className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg border border-slate-600/50 text-slate-300 hover:text-slate-100"
+                >
+                  <Copy className="w-4 h-4" />
+                  Duplicate
+                </button>
+                {isSaved && draft.id !== activeProfile.id && (
+                  <button
+                    type="button"
+                    onClick={() => setActiveProfile(draft.id)}
+                    className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg border border-slate-600/50 text-slate-300 hover:text-slate-100"
+                  >
+                    <Check className="w-4 h-4" />
+                    Use this profile
+                  </button>
+                )}
+                {!isBuiltIn && (
+                  <button type="submit" className="cyber-button flex items-center gap-2 text-sm px-4 py-2">
+                    <Save className="w-4 h-4" />
+                    Save
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useMemo, useRef, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { AlertTriangle, Eye, GitFork } from 'lucide-react'
+import MermaidRenderer, { type MermaidRendererRef } from './MermaidRenderer'
+import DescriptionMarkdown from './DescriptionMarkdown'
+import ExportMenu from './ExportMenu'
+import ThemePicker from './ThemePicker'
+import { decodeShareFragment, ShareLinkError, type ForkLocationState, type SharedDiagram } from '../lib/shareLink'
+import type { ExportFormat, ExportOptions } from '../lib/export'
+
+type Decoded = { diagram: SharedDiagram; error?: never } | { diagram?: never; error: string }
+
+// Read-only page for share links (/view#<payload>). Everything it shows comes
+// from the URL fragment; forking copies the diagram into the main view.
+export default function SharedView() {
+  const { hash } = useLocation()
+  const navigate = useNavigate()
+  const mermaidRef = useRef<MermaidRendererRef>(null)
+  const [exportError, setExportError] = useState('')
+
+  const decoded = useMemo<Decoded>(() => {
+    try {
+      return { diagram: decodeShareFragment(hash) }
+    } catch (error) {
+      console.error('Unable to open share link:', error)
+      return { error: error instanceof ShareLinkError ? error.message : 'This share link could not be opened.' }
+    }
+  }, [hash])
+
+  const handleFork = (diagram: SharedDiagram) => {
+    const state: ForkLocationState = { fork: diagram }
+    navigate('/', { state })
+  }
+
+  const handleExport = async (format: ExportFormat, options: ExportOptions) => {
+    try {
+      setExportError('')
+      await mermaidRef.current?.exportAs(format, {
+        ...options,
+        description: decoded.diagram?.description,
+        origin: decoded.diagram?.origin,
+      })
+    } catch (error) {
+      setExportError(`Unable to export ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return (
+    <div className="min-h-screen gradient-bg flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl">
+        <div className="relative flex items-center justify-center mb-8">
+          <div className="flex items-center gap-4">
+            <div className="text-slate-400 text-sm">Powered by</div>
+            <img src={`${import.meta.env.BASE_URL}logo_everworker.svg`} alt="Everworker" className="h-8 opacity-100 contrast-125" />
+          </div>
+          <div className="absolute right-0 flex items-center gap-4">
+            <ThemePicker />
+          </div>
+        </div>
+
+        <div className="cyber-card p-8">
+          {decoded.diagram ? (
+            <>
+              <div className="mb-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="flex items-center gap-2 text-lg font-semibold text-cyber-blue">
+                    Shared Diagram
+                    <span className="flex items-center gap-1 rounded-full border border-slate-600/50 px-2 py-0.5 text-xs font-normal text-slate-400">
+                      <Eye className="w-3 h-3" />
+                      Read-only
+                    </span>
+                  </h3>
+                  {decoded.diagram.origin && (
+                    <p className="text-slate-400 text-sm truncate">Generated from {decoded.diagram.origin}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => handleFork(decoded.diagram)}
+                    className="cyber-button flex items-center gap-2 text-sm px-4 py-2"
+                    title="Open a copy in the editor; the shared link stays unchanged"
+                  >
+                    <GitFork className="w-4 h-4" />
+                    Fork into editor
+                  </button>
+                  <ExportMenu onExport={handleExport} />
+                </div>
+              </div>
+
+              {exportError && (
+                <div className="mb-4 p-4 bg-red-900/30 border border-red-700/50 rounded-lg text-red-300">
+                  {exportError}
+                </div>
+              )}
+
+              <MermaidRenderer ref={mermaidRef} chart={decoded.diagram.mermaid} className="w-full min-w-0" />
+
+              {decoded.diagram.description && (
+                <div className="mt-6 border-t border-slate-700/50 pt-6">
+                  <div className="bg-slate-800/30 border border-slate-700/30 rounded-lg p-6">
+                    <DescriptionMarkdown markdown={decoded.diagram.description} />
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-4 py-8 text-center">
+              <AlertTriangle className="w-8 h-8 text-amber-300" />
+              <p className="text-slate-300 max-w-md">{decoded.error}</p>
+              <Link to="/" className="cyber-button text-sm px-4 py-2">
+                Create a new diagram
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react'
+import { Check, Palette, Pencil, Plus, Trash2 } from 'lucide-react'
+import { useTheme } from '../context/themeContext'
+import type { BrandPalette } from '../lib/themes'
+import { cn } from '../lib/utils'
+
+const COLOR_FIELDS: { key: keyof Pick<BrandPalette, 'primary' | 'secondary' | 'accent' | 'background' | 'text'>; label: string }[] = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'accent', label: 'Lines' },
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Text' },
+]
+
+const newPalette = (): BrandPalette => ({
+  id: `brand-${Date.now()}`,
+  name: 'My brand',
+  base: 'dark',
+  primary: '#2563eb',
+  secondary: '#f59e0b',
+  accent: '#94a3b8',
+  background: '#0b1120',
+  text: '#f8fafc',
+})
+
+export default function ThemePicker() {
+  const { theme, themes, palettes, setTheme, saveBrandPalette, deleteBrandPalette } = useTheme()
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<BrandPalette | null>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handlePointer = (e: PointerEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointer)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('pointerdown', handlePointer)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [open])
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return
+    saveBrandPalette({ ...draft, name: draft.name.trim() })
+    setTheme(draft.id)
+    setDraft(null)
+  }
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(value => !value)}
+        className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        title="Change theme"
+      >
+        <Palette className="w-4 h-4" />
+        Theme
+      </button>
+
+      {open && (
+        <div role="dialog" aria-label="Theme" className="absolute right-0 z-30 mt-2 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3">
+          <ul className="space-y-1">
+            {themes.map(option => (
+              <li key={option.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => setTheme(option.id)}
+                  className={cn(
+                    "flex-1 flex items-center gap-2 rounded px-2 py-1.5 text-sm text-left hover:bg-slate-700/50",
+                    option.id === theme.id ? "text-slate-100" : "text-slate-300"
+                  )}
+                  aria-pressed={option.id === theme.id}
+                >
+                  <span className="flex shrink-0 rounded overflow-hidden border border-slate-600">
+                    {[option.background, option.accents.purple, option.accents.blue, option.accents.pink].map((color, i) => (
+                      <span key={i} className="w-3 h-4" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                  <span className="flex-1 truncate">{option.label}</span>
+                  {option.id === theme.id && <Check className="w-4 h-4 text-cyber-green" />}
+                </button>
+                {option.custom && (
+                  <>
+                    <button
+                      onClick={() => setDraft(palettes.find(p => p.id === option.id) ?? null)}
+                      className="p-1 text-slate-500 hover:text-slate-200"
+                      title={`Edit ${option.label}`}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => deleteBrandPalette(option.id)}
+                      className="p-1 text-slate-500 hover:text-red-400"
+                      title={`Delete ${option.label}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {draft ? (
+            <div className="border-t border-slate-700/50 pt-3 space-y-2 text-xs text-slate-400">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Theme name"
+                aria-label="Theme name"
+                className="cyber-auth-input w-full"
+              />
+              <div className="flex gap-3">
+                {(['dark', 'light'] as const).map(base => (
+                  <label key={base} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      name="brand-base"
+                      checked={draft.base === base}
+                      onChange={() => setDraft({ ...draft, base })}
+                    />
+                    {base === 'dark' ? 'Dark UI' : 'Light UI'}
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-5 gap-2">
+                {COLOR_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="flex flex-col items-center gap-1">
+                    <input
+                      type="color"
+                      value={draft[key]}
+                      onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                      className="w-8 h-8 bg-transparent cursor-pointer"
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-2 py-1 text-slate-400 hover:text-slate-200">
+                  Cancel
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.name.trim()}
+                  className="cyber-button text-xs px-3 py-1 disabled:opacity-50"
+                >
+                  Save theme
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setDraft(newPalette())}
+              className="w-full flex items-center justify-center gap-2 border-t border-slate-700/50 pt-3 text-xs text-slate-400 hover:text-slate-200"
+            >
+              <Plus className="w-3 h-3" />
+              New brand theme
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
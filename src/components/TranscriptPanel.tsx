@@ -0,0 +1,164 @@
+import { useRef, useState } from 'react'
+import { FileText, Send, Upload, X } from 'lucide-react'
+import {
+  MAX_TRANSCRIPT_CHARS,
+  TRANSCRIPT_EXTENSIONS,
+  TRANSCRIPT_FORMAT_LABELS,
+  parseTranscript,
+  readTranscriptFile,
+  type Transcript,
+} from '../lib/transcript'
+import { formatTimestamp } from '../lib/youtube'
+import { cn } from '../lib/utils'
+
+interface TranscriptPanelProps {
+  transcript: Transcript | null
+  onChange: (transcript: Transcript | null) => void
+  onSubmit: (transcript: Transcript) => void
+  isLoading: boolean
+}
+
+const PASTED_NAME = 'Pasted text'
+
+// Transcript input: drop or pick a .vtt/.srt/.txt file, or paste text. Files
+// are parsed in the browser and the cleaned text is previewed before sending.
+export default function TranscriptPanel({ transcript, onChange, onSubmit, isLoading }: TranscriptPanelProps) {
+  const [pasted, setPasted] = useState('')
+  const [parseError, setParseError] = useState('')
+  const [isDragging, setIsDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      onChange(await readTranscriptFile(file))
+      setPasted('')
+      setParseError('')
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handlePaste = (text: string) => {
+    setPasted(text)
+    if (!text.trim()) {
+      onChange(null)
+      setParseError('')
+      return
+    }
+    try {
+      onChange(parseTranscript(text, PASTED_NAME))
+      setParseError('')
+    } catch (error) {
+      onChange(null)
+      setParseError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const clear = () => {
+    onChange(null)
+    setPasted('')
+    setParseError('')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (transcript && !isLoading) onSubmit(transcript)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          handleFile(e.dataTransfer.files[0])
+        }}
+        className={cn(
+          "flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-6 text-sm text-slate-400 transition-colors",
+          isDragging ? "border-cyber-purple bg-cyber-purple/10" : "border-slate-600/50"
+        )}
+      >
+        <Upload className="w-6 h-6" />
+        <div>
+          Drop a transcript or subtitle file here, or{' '}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-cyber-blue hover:underline"
+          >
+            choose one
+          </button>
+        </div>
+        <div className="text-xs text-slate-500">{TRANSCRIPT_EXTENSIONS.join(', ')} · Zoom, Teams and YouTube captions work as exported</div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={TRANSCRIPT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      <textarea
+        value={pasted}
+        onChange={(e) => handlePaste(e.target.value)}
+        disabled={isLoading}
+        rows={4}
+        placeholder="...or paste meeting notes, a transcript or subtitle text"
+        aria-label="Transcript text"
+        className="cyber-input w-full resize-y font-mono text-sm"
+      />
+
+      {parseError && <p className="text-sm text-red-400">{parseError}</p>}
+
+      {transcript && (
+        <div className="border border-slate-700/50 rounded-lg overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 bg-slate-800/40 text-xs text-slate-400">
+            <FileText className="w-4 h-4 text-cyber-blue shrink-0" />
+            <span className="truncate text-slate-200">{transcript.name}</span>
+            <span>· {TRANSCRIPT_FORMAT_LABELS[transcript.format]}</span>
+            {transcript.durationSeconds !== undefined && <span>· {formatTimestamp(transcript.durationSeconds)}</span>}
+            <span>· {transcript.text.length.toLocaleString()}/{MAX_TRANSCRIPT_CHARS.toLocaleString()} characters</span>
+            <button type="button" onClick={clear} disabled={isLoading} className="ml-auto hover:text-slate-100" title="Remove transcript">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap px-3 py-2 text-xs text-slate-300 font-mono">
+            {transcript.text}
+          </pre>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={!transcript || isLoading}
+        className={cn(
+          "cyber-button flex items-center gap-2",
+          (!transcript || isLoading) && "opacity-50 cursor-not-allowed"
+        )}
+      >
+        {isLoading ? (
+          <>
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            Processing...
+          </>
+        ) : (
+          <>
+            <Send className="w-4 h-4" />
+            Generate Diagram
+          </>
+        )}
+      </button>
+    </form>
+  )
+}
\ No newline at end of file
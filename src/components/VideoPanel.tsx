@@ -0,0 +1,144 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import { PlayCircle } from 'lucide-react'
+import { loadYouTubeIframeApi, type YouTubePlayer } from '../lib/youtubeIframeApi'
+import { formatTimestamp } from '../lib/youtube'
+import type { TimedSegment } from '../lib/nodeTimestamps'
+import { cn } from '../lib/utils'
+
+interface VideoPanelProps {
+  videoId: string
+  startSeconds?: number
+  // Timestamped diagram nodes in playback order
+  segments: TimedSegment[]
+  labels: Record<string, string>
+  activeNode: string | null
+  onTimeUpdate: (seconds: number) => void
+}
+
+export interface VideoPanelRef {
+  seekTo: (seconds: number) => void
+}
+
+// The IFrame API has no time events; the position is sampled while playing
+const TIME_POLL_MS = 500
+
+// Embedded source video plus the list of timestamped steps. Seeking also
+// starts playback so the highlighted node follows along.
+const VideoPanel = forwardRef<VideoPanelRef, VideoPanelProps>(
+  ({ videoId, startSeconds, segments, labels, activeNode, onTimeUpdate }, ref) => {
+    const hostRef = useRef<HTMLDivElement>(null)
+    const playerRef = useRef<YouTubePlayer | null>(null)
+    const pendingSeek = useRef<number | null>(null)
+    const onTimeUpdateRef = useRef(onTimeUpdate)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+      onTimeUpdateRef.current = onTimeUpdate
+    })
+
+    useEffect(() => {
+      const host = hostRef.current
+      if (!host) return
+      let active = true
+      let timer: number | undefined
+      let player: YouTubePlayer | null = null
+      // The API swaps this element for an iframe, so React must not own it
+      const mount = document.createElement('div')
+      host.appendChild(mount)
+      setError('')
+
+      loadYouTubeIframeApi().then(YT => {
+        if (!active) return
+        const created: YouTubePlayer = new YT.Player(mount, {
+          videoId,
+          host: 'https://www.youtube-nocookie.com',
+          width: '100%',
+          height: '100%',
+          playerVars: { start: Math.floor(startSeconds ?? 0), rel: 0, playsinline: 1 },
+          events: {
+            onReady: () => {
+              playerRef.current = created
+              if (pendingSeek.current !== null) {
+                created.seekTo(pendingSeek.current, true)
+                created.playVideo()
+                pendingSeek.current = null
+              }
+            },
+            onStateChange: ({ data }) => {
+              window.clearInterval(timer)
+              onTimeUpdateRef.current(created.getCurrentTime())
+              if (data === YT.PlayerState.PLAYING) {
+                timer = window.setInterval(() => onTimeUpdateRef.current(created.getCurrentTime()), TIME_POLL_MS)
+              }
+            },
+          },
+        })
+        player = created
+      }).catch(err => active && setError(err instanceof Error ? err.message : String(err)))
+
+      return () => {
+        active = false
+        window.clearInterval(timer)
+        player?.destroy()
+        playerRef.current = null
+        pendingSeek.current = null
+        host.replaceChildren()
+      }
+    }, [videoId, startSeconds])
+
+    const seekTo = (seconds: number) => {
+      onTimeUpdateRef.current(seconds)
+      if (!playerRef.current) {
+        pendingSeek.current = seconds
+        return
+      }
+      playerRef.current.seekTo(seconds, true)
+      playerRef.current.playVideo()
+    }
+
+    useImperativeHandle(ref, () => ({ seekTo }))
+
+    return (
+      <div className="space-y-3">
+        <div className="relative aspect-video rounded-lg overflow-hidden bg-slate-900 border border-slate-700/40">
+          <div ref={hostRef} className="absolute inset-0 [&>iframe]:w-full [&>iframe]:h-full" />
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-red-300">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {segments.length > 0 ? (
+          <ol className="max-h-80 overflow-y-auto space-y-1 text-sm" aria-label="Diagram steps in the video">
+            {segments.map(segment => (
+              <li key={segment.nodeId}>
+                <button
+                  type="button"
+                  onClick={() => seekTo(segment.start)}
+                  aria-current={segment.nodeId === activeNode ? 'step' : undefined}
+                  className={cn(
+                    "w-full flex items-start gap-2 rounded px-2 py-1 text-left",
+                    segment.nodeId === activeNode
+                      ? "bg-cyber-blue/20 text-slate-100"
+                      : "text-slate-300 hover:bg-slate-700/40"
+                  )}
+                >
+                  <PlayCircle className="w-4 h-4 mt-0.5 shrink-0 text-cyber-blue" />
+                  <span className="font-mono text-xs text-slate-400 mt-0.5 tabular-nums">{formatTimestamp(segment.start)}</span>
+                  <span className="min-w-0">{labels[segment.nodeId] ?? segment.nodeId}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-xs text-slate-500">This diagram has no timestamps, so its nodes are not linked to the video.</p>
+        )}
+      </div>
+    )
+  },
+)
+
+VideoPanel.displayName = 'VideoPanel'
+
+export default VideoPanel
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import type { AgentProvider } from '../services/agentProvider'
+import { DEFAULT_PROFILE_ID, type AgentProfile } from '../services/agentProfiles'
+import { profileStore } from '../services/profileStore'
+import { createAgentProvider } from '../services/providers'
+import { buildTimeMockSettings, buildTimeProfile } from '../services/providers/buildTimeConfig'
+import { AgentContext, AgentProfilesContext, type AgentProfilesContextValue } from './agentContext'
+
+interface AgentContextProviderProps {
+  // Fixed provider, e.g. for tests; profiles are then listed but not applied
+  provider?: AgentProvider
+  children: ReactNode
+}
+
+export default function AgentContextProvider({ provider, children }: AgentContextProviderProps) {
+  const [activeId, setActiveId] = useState(() => profileStore.getActiveProfileId())
+  const [stored, setStored] = useState(() => profileStore.getProfiles())
+  const [builtIn] = useState(buildTimeProfile)
+
+  const profiles = useMemo(
+    () => [builtIn, ...stored.filter(profile => profile.id !== DEFAULT_PROFILE_ID)],
+    [builtIn, stored]
+  )
+  const activeProfile = profiles.find(profile => profile.id === activeId) ?? profiles[0]
+
+  // A new provider per profile; runs already in flight keep polling through
+  // the one they started with
+  const value = useMemo(() => provider ?? createAgentProvider(activeProfile, buildTimeMockSettings), [provider, activeProfile])
+
+  const profilesValue = useMemo<AgentProfilesContextValue>(() => {
+    const updateStored = (next: AgentProfile[]) => {
+      setStored(next)
+      profileStore.setProfiles(next)
+    }
+
+    return {
+      activeProfile,
+      profiles,
+      setActiveProfile: (id) => {
+        setActiveId(id)
+        profileStore.setActiveProfileId(id)
+      },
+      saveProfile: (profile) => {
+        const exists = stored.some(p => p.id === profile.id)
+        updateStored(exists ? stored.map(p => (p.id === profile.id ? profile : p)) : [...stored, profile])
+      },
+      deleteProfile: (id) => updateStored(stored.filter(p => p.id !== id)),
+      importProfiles: (imported) => {
+        const ids = new Set(imported.map(p => p.id))
+        updateStored([...stored.filter(p => !ids.has(p.id)), ...imported.filter(p => p.id !== DEFAULT_PROFILE_ID)])
+      },
+    }
+  }, [activeProfile, profiles, stored])
+
+  return (
+    <AgentProfilesContext.Provider value={profilesValue}>
+      <AgentContext.Provider value={value}>{children}</AgentContext.Provider>
+    </AgentProfilesContext.Provider>
+  )
+}
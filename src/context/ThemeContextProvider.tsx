@@ -0,0 +1,42 @@
+import { useLayoutEffect, useMemo, useState, type ReactNode } from 'react'
+import { BUILTIN_THEMES, brandTheme, findTheme, type BrandPalette } from '../lib/themes'
+import { applyChromeTheme } from '../lib/chromeTheme'
+import { themeStore } from '../services/themeStore'
+import { ThemeContext, type ThemeContextValue } from './themeContext'
+
+export default function ThemeContextProvider({ children }: { children: ReactNode }) {
+  const [activeId, setActiveId] = useState(() => themeStore.getActiveThemeId())
+  const [palettes, setPalettes] = useState(() => themeStore.getBrandPalettes())
+
+  const themes = useMemo(() => [...BUILTIN_THEMES, ...palettes.map(brandTheme)], [palettes])
+  const theme = findTheme(themes, activeId)
+
+  // Before paint, so the first frame already uses the stored theme
+  useLayoutEffect(() => {
+    applyChromeTheme(theme)
+  }, [theme])
+
+  const value = useMemo<ThemeContextValue>(() => {
+    const updatePalettes = (next: BrandPalette[]) => {
+      setPalettes(next)
+      themeStore.setBrandPalettes(next)
+    }
+
+    return {
+      theme,
+      themes,
+      palettes,
+      setTheme: (id) => {
+        setActiveId(id)
+        themeStore.setActiveThemeId(id)
+      },
+      saveBrandPalette: (palette) => {
+        const exists = palettes.some(p => p.id === palette.id)
+        updatePalettes(exists ? palettes.map(p => (p.id === palette.id ? palette : p)) : [...palettes, palette])
+      },
+      deleteBrandPalette: (id) => updatePalettes(palettes.filter(p => p.id !== id)),
+    }
+  }, [theme, themes, palettes])
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+}
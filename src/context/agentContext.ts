@@ -0,0 +1,34 @@
+import { createContext, useContext } from 'react'
+import type { AgentProvider } from '../services/agentProvider'
+import type { AgentProfile } from '../services/agentProfiles'
+
+export const AgentContext = createContext<AgentProvider | null>(null)
+
+export function useAgentProvider(): AgentProvider {
+  const provider = useContext(AgentContext)
+  if (!provider) {
+    throw new Error('useAgentProvider must be used inside <AgentContextProvider>')
+  }
+  return provider
+}
+
+export interface AgentProfilesContextValue {
+  activeProfile: AgentProfile
+  // Built-in default followed by the user's profiles
+  profiles: AgentProfile[]
+  setActiveProfile: (id: string) => void
+  saveProfile: (profile: AgentProfile) => void
+  deleteProfile: (id: string) => void
+  // Adds the profiles, replacing stored ones with the same ID
+  importProfiles: (profiles: AgentProfile[]) => void
+}
+
+export const AgentProfilesContext = createContext<AgentProfilesContextValue | null>(null)
+
+export function useAgentProfiles(): AgentProfilesContextValue {
+  const value = useContext(AgentProfilesContext)
+  if (!value) {
+    throw new Error('useAgentProfiles must be used inside <AgentContextProvider>')
+  }
+  return value
+}
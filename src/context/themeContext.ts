@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react'
+import type { BrandPalette, DiagramTheme } from '../lib/themes'
+
+export interface ThemeContextValue {
+  theme: DiagramTheme
+  // Built-in presets followed by the user's brand themes
+  themes: DiagramTheme[]
+  palettes: BrandPalette[]
+  setTheme: (id: string) => void
+  saveBrandPalette: (palette: BrandPalette) => void
+  deleteBrandPalette: (id: string) => void
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null)
+
+export function useTheme(): ThemeContextValue {
+  const value = useContext(ThemeContext)
+  if (!value) {
+    throw new Error('useTheme must be used inside <ThemeContextProvider>')
+  }
+  return value
+}
@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import type { AgentProvider } from '../services/agentProvider'
+import { BatchQueue } from '../services/batchQueue'
+
+export function useBatchQueue(agent: AgentProvider) {
+  // One queue for the component's lifetime: a profile switch brings a new
+  // provider, which must not drop the jobs still waiting
+  const [queue] = useState(() => new BatchQueue(agent))
+  useEffect(() => queue.setAgent(agent), [queue, agent])
+  const subscribe = useMemo(() => queue.subscribe.bind(queue), [queue])
+  const jobs = useSyncExternalStore(subscribe, () => queue.getJobs())
+  const concurrency = useSyncExternalStore(subscribe, () => queue.getConcurrency())
+
+  // Running jobs are detached, not cancelled, when the view goes away
+  useEffect(() => {
+    queue.attach()
+    return () => queue.detach()
+  }, [queue])
+
+  return { queue, jobs, concurrency }
+}
@@ -0,0 +1,68 @@
+import { useCallback, useRef, useState } from 'react'
+import type { ProcessResult } from '../services/agentProvider'
+import type { DiagramVersion } from '../services/historyStore'
+
+// Picker label, e.g. "v3 · Merge the approval steps"
+export const versionLabel = (version: DiagramVersion, index: number) =>
+  version.revertedFrom !== undefined
+    ? `v${index + 1} · reverted to v${version.revertedFrom + 1}`
+    : `v${index + 1}${version.instruction ? ` · ${version.instruction}` : ' · original'}`
+
+// Linear version list for one diagram. Reverting never drops versions; it
+// appends a copy of the chosen one so the whole thread stays replayable.
+export function useDiagramVersions() {
+  const [versions, setVersions] = useState<DiagramVersion[]>([])
+  const [currentIndex, setCurrentIndex] = useState(0)
+  // Refinements resolve long after they were submitted; reading through the
+  // ref keeps a revert or selection made meanwhile instead of the list the
+  // request started from
+  const latest = useRef({ versions, currentIndex })
+
+  const show = useCallback((next: DiagramVersion[], index: number) => {
+    latest.current = { versions: next, currentIndex: index }
+    setVersions(next)
+    setCurrentIndex(index)
+  }, [])
+
+  const reset = useCallback((initial: DiagramVersion[]) => {
+    show(initial, Math.max(0, initial.length - 1))
+  }, [show])
+
+  const select = useCallback((index: number) => {
+    show(latest.current.versions, index)
+  }, [show])
+
+  // Node IDs usually survive a refinement, so timestamps carry over when the
+  // agent does not send new ones
+  const addVersion = (result: ProcessResult, instruction: string): DiagramVersion[] => {
+    const { versions, currentIndex } = latest.current
+    const nodeTimestamps = result.nodeTimestamps ?? versions[currentIndex]?.nodeTimestamps
+    const next = [...versions, { ...result, nodeTimestamps, instruction, createdAt: Date.now() }]
+    show(next, next.length - 1)
+    return next
+  }
+
+  const revertTo = (index: number): DiagramVersion[] => {
+    const { versions } = latest.current
+    const source = versions[index]
+    const next = [...versions, {
+      mermaid: source.mermaid,
+      description: source.description,
+      nodeTimestamps: source.nodeTimestamps,
+      createdAt: Date.now(),
+      revertedFrom: index,
+    }]
+    show(next, next.length - 1)
+    return next
+  }
+
+  return {
+    versions,
+    currentIndex,
+    current: versions[currentIndex] ?? null,
+    select,
+    reset,
+    addVersion,
+    revertTo,
+  }
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react'
+import { historyStore, type HistoryRecord } from '../services/historyStore'
+
+export function useHistoryRecords() {
+  const [records, setRecords] = useState<HistoryRecord[]>([])
+
+  useEffect(() => {
+    let active = true
+    const load = () => {
+      historyStore.list()
+        .then(list => active && setRecords(list))
+        .catch(err => console.error('Failed to load history:', err))
+    }
+
+    load()
+    const unsubscribe = historyStore.subscribe(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return records
+}
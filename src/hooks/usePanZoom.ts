@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react'
+
+export interface ViewTransform {
+  x: number
+  y: number
+  scale: number
+}
+
+export interface ContentBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const MIN_SCALE = 0.05
+const MAX_SCALE = 8
+const FIT_PADDING = 16
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+// Pan and zoom for a viewport element whose single child is transformed with
+// `translate(x, y) scale(s)`. Coordinates passed in and out are in unscaled
+// content pixels unless they are named client*.
+export function usePanZoom(viewportRef: RefObject<HTMLElement | null>) {
+  const [transform, setTransform] = useState<ViewTransform>({ x: 0, y: 0, scale: 1 })
+  // Set once the user moves the view, so content updates (e.g. live editing)
+  // stop re-fitting it
+  const interacted = useRef(false)
+
+  // Zooms keeping the given client point (default: viewport centre) in place
+  const zoomAround = useCallback((nextScale: (scale: number) => number, clientX?: number, clientY?: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const px = clientX === undefined ? rect.width / 2 : clientX - rect.left
+    const py = clientY === undefined ? rect.height / 2 : clientY - rect.top
+    setTransform(t => {
+      const scale = clampScale(nextScale(t.scale))
+      const k = scale / t.scale
+      return { scale, x: px - (px - t.x) * k, y: py - (py - t.y) * k }
+    })
+  }, [viewportRef])
+
+  const zoomBy = useCallback((factor: number) => {
+    interacted.current = true
+    zoomAround(scale => scale * factor)
+  }, [zoomAround])
+
+  const setScale = useCallback((scale: number) => {
+    interacted.current = true
+    zoomAround(() => scale)
+  }, [zoomAround])
+
+  const fit = useCallback((size: { width: number; height: number }, mode: 'width' | 'page', maxScale = MAX_SCALE) => {
+    const rect = viewportRef.current?.getBoundingClientRect()
+    if (!rect || !size.width || !size.height) return
+    interacted.current = false
+    const byWidth = (rect.width - FIT_PADDING * 2) / size.width
+    const byHeight = (rect.height - FIT_PADDING * 2) / size.height
+    const scale = clampScale(Math.min(maxScale, mode === 'width' ? byWidth : Math.min(byWidth, byHeight)))
+    setTransform({
+      scale,
+      x: (rect.width - size.width * scale) / 2,
+      y: mode === 'width' ? FIT_PADDING : (rect.height - size.height * scale) / 2,
+    })
+  }, [viewportRef])
+
+  // Moves the view so the box is centred, zooming in if it would be unreadably small
+  const centerOn = useCallback((box: ContentBox, minScale = 0) => {
+    const rect = viewportRef.current?.getBoundingClientRect()
+    if (!rect) return
+    interacted.current = true
+    setTransform(t => {
+      const scale = Math.max(t.scale, clampScale(minScale))
+      return {
+        scale,
+        x: rect.width / 2 - (box.x + box.width / 2) * scale,
+        y: rect.height / 2 - (box.y + box.height / 2) * scale,
+      }
+    })
+  }, [viewportRef])
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    // Wheel listeners must be non-passive to stop the page from scrolling.
+    // Trackpad pinches arrive as wheel events with ctrlKey set and small deltas.
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      interacted.current = true
+      const intensity = e.ctrlKey ? 0.01 : 0.002
+      zoomAround(scale => scale * Math.exp(-e.deltaY * intensity), e.clientX, e.clientY)
+    }
+
+    // One pointer drags, two pointers (touch) pinch
+    const pointers = new Map<number, { x: number; y: number }>()
+    let dragged = false
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      dragged = false
+    }
+    const handlePointerMove = (e: PointerEvent) => {
+      const previous = pointers.get(e.pointerId)
+      if (!previous) return
+      if (!viewport.hasPointerCapture(e.pointerId)) {
+        // Small movements stay clicks, so diagram elements remain clickable
+        if (Math.hypot(e.clientX - previous.x, e.clientY - previous.y) < 4) return
+        viewport.setPointerCapture(e.pointerId)
+      }
+      interacted.current = true
+
+      if (pointers.size === 2) {
+        const [a, b] = [...pointers.entries()].map(([id, p]) => (id === e.pointerId ? { x: e.clientX, y: e.clientY } : p))
+        const [oldA, oldB] = [...pointers.values()]
+        const ratio = Math.hypot(a.x - b.x, a.y - b.y) / (Math.hypot(oldA.x - oldB.x, oldA.y - oldB.y) || 1)
+        zoomAround(scale => scale * ratio, (a.x + b.x) / 2, (a.y + b.y) / 2)
+      } else {
+        const dx = e.clientX - previous.x
+        const dy = e.clientY - previous.y
+        setTransform(t => ({ ...t, x: t.x + dx, y: t.y + dy }))
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    }
+    const handlePointerUp = (e: PointerEvent) => {
+      if (viewport.hasPointerCapture(e.pointerId)) dragged = true
+      pointers.delete(e.pointerId)
+    }
+    // The click that ends a drag is not meant for whatever is under the pointer
+    const handleClick = (e: MouseEvent) => {
+      if (!dragged) return
+      dragged = false
+      e.stopPropagation()
+      e.preventDefault()
+    }
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false })
+    viewport.addEventListener('pointerdown', handlePointerDown)
+    viewport.addEventListener('pointermove', handlePointerMove)
+    viewport.addEventListener('pointerup', handlePointerUp)
+    viewport.addEventListener('pointercancel', handlePointerUp)
+    viewport.addEventListener('click', handleClick, true)
+    return () => {
+      viewport.removeEventListener('wheel', handleWheel)
+      viewport.removeEventListener('pointerdown', handlePointerDown)
+      viewport.removeEventListener('pointermove', handlePointerMove)
+      viewport.removeEventListener('pointerup', handlePointerUp)
+      viewport.removeEventListener('pointercancel', handlePointerUp)
+      viewport.removeEventListener('click', handleClick, true)
+    }
+  }, [viewportRef, zoomAround])
+
+  return { transform, setTransform, interacted, zoomBy, setScale, fit, centerOn }
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+
+interface UndoHistory {
+  past: string[]
+  present: string
+  future: string[]
+  lastEditAt: number
+}
+
+// Edits within this window are merged into one undo step, so undo reverts a
+// burst of typing rather than a single keystroke
+const COALESCE_MS = 800
+const MAX_HISTORY = 200
+
+const fresh = (value: string): UndoHistory => ({ past: [], present: value, future: [], lastEditAt: 0 })
+
+// Undoable text state that starts over whenever `initial` changes (e.g. a new
+// diagram version is selected).
+export function useUndoableState(initial: string) {
+  const [history, setHistory] = useState(() => fresh(initial))
+  const [source, setSource] = useState(initial)
+
+  if (source !== initial) {
+    setSource(initial)
+    setHistory(fresh(initial))
+  }
+
+  const set = (value: string) => {
+    setHistory(h => {
+      if (value === h.present) return h
+      const now = Date.now()
+      const coalesce = now - h.lastEditAt < COALESCE_MS && h.past.length > 0
+      return {
+        past: coalesce ? h.past : [...h.past, h.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+        lastEditAt: now,
+      }
+    })
+  }
+
+  // Discrete actions (reset, paste of a whole document) always get their own step
+  const commit = (value: string) => {
+    setHistory(h => value === h.present ? h : {
+      past: [...h.past, h.present].slice(-MAX_HISTORY),
+      present: value,
+      future: [],
+      lastEditAt: 0,
+    })
+  }
+
+  const undo = () => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      lastEditAt: 0,
+    })
+  }
+
+  const redo = () => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      lastEditAt: 0,
+    })
+  }
+
+  return {
+    value: history.present,
+    set,
+    commit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
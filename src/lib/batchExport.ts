@@ -0,0 +1,31 @@
+import { strToU8, zipSync, type Zippable } from 'fflate'
+import type { BatchJob } from '../services/batchQueue'
+import { extractVideoId } from './youtube'
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+
+// One folder per finished job with the mermaid source and the description,
+// plus an index of every job in the batch (including failed ones)
+export function buildBatchZip(jobs: BatchJob[]): Blob {
+  const files: Zippable = {}
+  const index = ['# Batch export', '', '| # | Video | Status | Folder |', '| --- | --- | --- | --- |']
+
+  jobs.forEach((job, i) => {
+    const number = String(i + 1).padStart(2, '0')
+    const name = job.title || extractVideoId(job.ytUrl) || job.ytUrl
+    const folder = `${number}-${slugify(name) || 'video'}`
+
+    if (job.status === 'finished' && job.result) {
+      files[folder] = {
+        'diagram.mmd': strToU8(job.result.mermaid),
+        'description.md': strToU8(job.result.description),
+      }
+    }
+    const linked = job.status === 'finished' && job.result ? `${folder}/` : ''
+    index.push(`| ${number} | [${name.replace(/\|/g, '\\|')}](${job.ytUrl}) | ${job.status}${job.error ? `: ${job.error.replace(/\|/g, '\\|')}` : ''} | ${linked} |`)
+  })
+
+  files['README.md'] = strToU8(index.join('\n') + '\n')
+  return new Blob([zipSync(files)], { type: 'application/zip' })
+}
@@ -0,0 +1,41 @@
+import type { ChromeMode, DiagramTheme } from './themes'
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const
+
+// Tailwind's default slate and red scales, lightest first
+const SLATE = ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617']
+const RED = ['#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a']
+
+// Components are written against the dark UI (slate-900 surfaces, slate-200
+// text), so the light chrome mirrors each scale and every class keeps its
+// contrast. High contrast pins surfaces to black and text and borders to white.
+const SCALES: Record<ChromeMode, { slate: string[]; red: string[] }> = {
+  dark: { slate: SLATE, red: RED },
+  light: { slate: [...SLATE].reverse(), red: [...RED].reverse() },
+  contrast: {
+    slate: ['#ffffff', '#ffffff', '#ffffff', '#ffffff', '#f1f5f9', '#e2e8f0', '#ffffff', '#ffffff', '#000000', '#000000', '#000000'],
+    red: ['#ffffff', '#fee2e2', '#fecaca', '#fecaca', '#fca5a5', '#f87171', '#f87171', '#f87171', '#000000', '#000000', '#000000'],
+  },
+}
+
+// "r g b" so Tailwind can apply opacity modifiers (bg-slate-900/40)
+const toRgbChannels = (hex: string) => {
+  const value = hex.replace('#', '')
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value
+  const int = parseInt(full, 16)
+  return `${(int >> 16) & 255} ${(int >> 8) & 255} ${int & 255}`
+}
+
+// Sets the CSS variables the Tailwind colour config reads (see tailwind.config.js)
+export function applyChromeTheme(theme: DiagramTheme, root: HTMLElement = document.documentElement) {
+  const scales = SCALES[theme.chrome]
+  SHADES.forEach((shade, i) => {
+    root.style.setProperty(`--slate-${shade}`, toRgbChannels(scales.slate[i]))
+    root.style.setProperty(`--red-${shade}`, toRgbChannels(scales.red[i]))
+  })
+  Object.entries(theme.accents).forEach(([name, color]) => {
+    root.style.setProperty(`--cyber-${name}`, toRgbChannels(color))
+  })
+  root.style.colorScheme = theme.chrome === 'light' ? 'light' : 'dark'
+  root.dataset.theme = theme.id
+}
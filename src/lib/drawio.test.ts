@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { compressDrawioXml, drawioEditUrl, mermaidToDrawio } from './drawio'
+import type { NodeShape } from './flowchart/types'
+
+const lines = (...parts: string[]) => parts.join('\n')
+
+type Attributes = Record<string, string>
+
+const attributes = (tag: string): Attributes =>
+  Object.fromEntries([...tag.matchAll(/(\w+)="([^"]*)"/g)].map(([, name, value]) => [name, value]))
+
+// Each cell is written on a line of its own
+const cell = (xml: string, id: string): { cell: Attributes; geometry: Attributes } => {
+  const line = xml.split('\n').find(candidate => candidate.startsWith(`<mxCell id="${id}" `))
+  if (!line) throw new Error(`No cell ${id}`)
+  return {
+    cell: attributes(line.slice(0, line.indexOf('>'))),
+    geometry: attributes(line.match(/<mxGeometry [^>]*>/)?.[0] ?? ''),
+  }
+}
+
+const cellsWhere = (xml: string, attribute: string) =>
+  xml.split('\n').filter(line => line.startsWith('<mxCell ') && line.includes(` ${attribute}="1"`))
+
+const decodeHtml = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+
+describe('mermaidToDrawio', () => {
+  it('writes an mxfile with one vertex per node and one edge per link', () => {
+    const xml = mermaidToDrawio(lines('flowchart LR', '  A[Start] --> B{Check} -->|Yes| C[Done]', '  B -.->|No| A'), 'Checkout')
+
+    expect(xml.startsWith('<mxfile host="cnm-demo">\n<diagram id="cnm-diagram" name="Checkout">')).toBe(true)
+    expect(xml.endsWith('</mxfile>')).toBe(true)
+    expect(cellsWhere(xml, 'vertex')).toHaveLength(3)
+    expect(cellsWhere(xml, 'edge')).toHaveLength(3)
+    expect(cell(xml, 'e-1').cell).toMatchObject({ value: 'Yes', source: 'n-1', target: 'n-2', parent: '1' })
+    expect(cell(xml, 'e-2').cell.style).toContain('dashed=1;')
+  })
+
+  it('escapes labels once for the XML and once for the HTML they are rendered as', () => {
+    const xml = mermaidToDrawio(lines('flowchart TD', '  A["Tom & Jerry <b>say</b> #quot;hi#quot;<br>twice"] --> B'), 'R&D <draft>')
+    const { value } = cell(xml, 'n-0').cell
+
+    expect(xml).toContain('name="R&amp;D &lt;draft&gt;"')
+    expect(value).toBe('Tom &amp;amp; Jerry &amp;lt;b&amp;gt;say&amp;lt;/b&amp;gt; &amp;quot;hi&amp;quot;&lt;br&gt;twice')
+    // What draw.io renders: the markup shows as text, the line break is kept
+    expect(decodeHtml(value)).toBe('Tom &amp; Jerry &lt;b&gt;say&lt;/b&gt; &quot;hi&quot;<br>twice')
+  })
+
+  it.each<[string, NodeShape, string]>([
+    ['A[Step]', 'rect', 'rounded=0;'],
+    ['A(Step)', 'rounded', 'rounded=1;'],
+    ['A([Step])', 'stadium', 'rounded=1;arcSize=50;'],
+    ['A[[Step]]', 'subroutine', 'shape=process;'],
+    ['A[(Step)]', 'cylinder', 'shape=cylinder3;'],
+    ['A((Step))', 'circle', 'ellipse;aspect=fixed;'],
+    ['A(((Step)))', 'doublecircle', 'shape=doubleEllipse;'],
+    ['A>Step]', 'asymmetric', 'shape=step;'],
+    ['A{Step}', 'diamond', 'rhombus;'],
+    ['A{{Step}}', 'hexagon', 'shape=hexagon;'],
+    ['A[/Step/]', 'parallelogram', 'shape=parallelogram;'],
+    ['A[\\Step\\]', 'parallelogram-alt', 'flipH=1;'],
+    ['A[/Step\\]', 'trapezoid', 'flipV=1;'],
+    ['A[\\Step/]', 'trapezoid-alt', 'shape=trapezoid;'],
+  ])('maps %s (%s) to a draw.io shape', (node, _, style) => {
+    const xml = mermaidToDrawio(lines('flowchart TD', `  ${node}`))
+    const { cell: attrs } = cell(xml, 'n-0')
+    expect(attrs.value).toBe('Step')
+    expect(attrs.style).toContain(style)
+    expect(attrs.style).toContain('html=1;')
+  })
+
+  it('nests subgraphs as containers with child geometry relative to them', () => {
+    const xml = mermaidToDrawio(lines(
+      'flowchart TD',
+      '  subgraph outer [Billing]',
+      '    A[Invoice] --> B[Pay]',
+      '    subgraph inner [Review]',
+      '      C[Approve]',
+      '    end',
+      '  end',
+      '  B --> D[Archive]',
+    ))
+    const outer = cell(xml, 'sg-0')
+    const inner = cell(xml, 'sg-1')
+
+    expect(outer.cell).toMatchObject({ value: 'Billing', parent: '1', vertex: '1' })
+    expect(outer.cell.style).toContain('container=1;')
+    expect(inner.cell).toMatchObject({ value: 'Review', parent: 'sg-0' })
+    expect(cell(xml, 'n-0').cell.parent).toBe('sg-0')
+    expect(cell(xml, 'n-2').cell.parent).toBe('sg-1')
+    expect(cell(xml, 'n-3').cell.parent).toBe('1')
+
+    // Children sit inside their container's box in its own coordinates
+    for (const [child, parent] of [[inner, outer], [cell(xml, 'n-0'), outer], [cell(xml, 'n-2'), inner]]) {
+      const box = Object.fromEntries(Object.entries(child.geometry).map(([key, value]) => [key, Number(value)]))
+      expect(box.x).toBeGreaterThanOrEqual(0)
+      expect(box.y).toBeGreaterThanOrEqual(0)
+      expect(box.x + box.width).toBeLessThanOrEqual(Number(parent.geometry.width))
+      expect(box.y + box.height).toBeLessThanOrEqual(Number(parent.geometry.height))
+    }
+  })
+
+  it('connects an edge that targets a subgraph to its container', () => {
+    const xml = mermaidToDrawio(lines('flowchart TD', '  subgraph S [Stage]', '    A', '  end', '  B --> S'))
+    expect(cell(xml, 'e-0').cell).toMatchObject({ source: 'n-1', target: 'sg-0' })
+  })
+})
+
+const inflate = async (payload: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(payload), char => char.charCodeAt(0))
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return decodeURIComponent(await new Response(stream).text())
+}
+
+describe('drawioEditUrl', () => {
+  const xml = mermaidToDrawio(lines('flowchart TD', '  A["Größe: 10 € & mehr"] --> B((Fertig ✓))'))
+
+  it('compresses the way draw.io expects to decompress', async () => {
+    expect(await inflate(await compressDrawioXml(xml))).toBe(xml)
+  })
+
+  it('carries the compressed XML in the #R fragment', async () => {
+    const url = await drawioEditUrl(xml)
+    expect(url.startsWith('https://app.diagrams.net/#R')).toBe(true)
+    expect(await inflate(decodeURIComponent(url.slice(url.indexOf('#R') + 2)))).toBe(xml)
+  })
+})
@@ -0,0 +1,139 @@
+import { parseFlowchart } from './flowchart/parseFlowchart'
+import { layoutFlowchart } from './flowchart/layout'
+import type { EdgeEnd, FlowchartModel, NodeShape } from './flowchart/types'
+
+const DRAWIO_APP_URL = 'https://app.diagrams.net/'
+// Browsers start truncating query strings around 2k characters
+const MAX_QUERY_URL_LENGTH = 2000
+
+const SHAPE_STYLES: Record<NodeShape, string> = {
+  rect: 'rounded=0;',
+  rounded: 'rounded=1;',
+  stadium: 'rounded=1;arcSize=50;',
+  subroutine: 'shape=process;backgroundOutline=1;',
+  cylinder: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=10;',
+  circle: 'ellipse;aspect=fixed;',
+  doublecircle: 'ellipse;shape=doubleEllipse;aspect=fixed;',
+  asymmetric: 'shape=step;perimeter=stepPerimeter;size=0.15;',
+  diamond: 'rhombus;',
+  hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2;size=0.15;',
+  parallelogram: 'shape=parallelogram;perimeter=parallelogramPerimeter;size=0.15;',
+  'parallelogram-alt': 'shape=parallelogram;perimeter=parallelogramPerimeter;size=0.15;flipH=1;',
+  trapezoid: 'shape=trapezoid;perimeter=trapezoidPerimeter;size=0.15;flipV=1;',
+  'trapezoid-alt': 'shape=trapezoid;perimeter=trapezoidPerimeter;size=0.15;',
+}
+
+const ARROWS: Record<EdgeEnd, string> = {
+  none: 'none',
+  arrow: 'block',
+  circle: 'oval',
+  cross: 'cross',
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Cell values are rendered as HTML (html=1), so line breaks become <br>
+const htmlLabel = (label: string) => escapeXml(escapeXml(label).replace(/\n/g, '<br>'))
+
+// Emits an uncompressed .drawio (mxfile) document. Subgraphs become container
+// cells, and child geometry is relative to the enclosing container.
+export function flowchartToDrawio(model: FlowchartModel, title: string = 'Diagram'): string {
+  const layout = layoutFlowchart(model)
+  const cellIds = new Map<string, string>()
+  model.subgraphs.forEach((s, i) => cellIds.set(s.id, `sg-${i}`))
+  model.nodes.forEach((n, i) => cellIds.set(n.id, `n-${i}`))
+
+  const parentOf = (subgraph?: string) => (subgraph ? cellIds.get(subgraph)! : '1')
+  const origin = (subgraph?: string) => (subgraph ? layout.subgraphs.get(subgraph)! : { x: 0, y: 0 })
+
+  const cells: string[] = ['<mxCell id="0" />', '<mxCell id="1" parent="0" />']
+
+  for (const subgraph of model.subgraphs) {
+    const box = layout.subgraphs.get(subgraph.id)!
+    const parentBox = origin(subgraph.parent)
+    cells.push(
+      `<mxCell id="${cellIds.get(subgraph.id)}" value="${htmlLabel(subgraph.title)}" ` +
+      `style="swimlane;container=1;collapsible=0;startSize=28;rounded=1;html=1;whiteSpace=wrap;fillColor=none;dashed=1;" ` +
+      `vertex="1" parent="${parentOf(subgraph.parent)}">` +
+      `<mxGeometry x="${box.x - parentBox.x}" y="${box.y - parentBox.y}" width="${box.width}" height="${box.height}" as="geometry" />` +
+      `</mxCell>`
+    )
+  }
+
+  for (const node of model.nodes) {
+    const box = layout.nodes.get(node.id)!
+    const parentBox = origin(node.subgraph)
+    cells.push(
+      `<mxCell id="${cellIds.get(node.id)}" value="${htmlLabel(node.label)}" ` +
+      `style="${SHAPE_STYLES[node.shape]}whiteSpace=wrap;html=1;" vertex="1" parent="${parentOf(node.subgraph)}">` +
+      `<mxGeometry x="${box.x - parentBox.x}" y="${box.y - parentBox.y}" width="${box.width}" height="${box.height}" as="geometry" />` +
+      `</mxCell>`
+    )
+  }
+
+  model.edges.forEach((edge, i) => {
+    const source = cellIds.get(edge.from)
+    const target = cellIds.get(edge.to)
+    if (!source || !target) return
+
+    const style = [
+      'edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;',
+      `endArrow=${ARROWS[edge.end]};startArrow=${ARROWS[edge.start]};`,
+      edge.stroke === 'dotted' ? 'dashed=1;' : '',
+      edge.stroke === 'thick' ? 'strokeWidth=3;' : '',
+      edge.stroke === 'invisible' ? 'strokeColor=none;' : '',
+    ].join('')
+
+    cells.push(
+      `<mxCell id="e-${i}" value="${htmlLabel(edge.label ?? '')}" style="${style}" edge="1" parent="1" source="${source}" target="${target}">` +
+      `<mxGeometry relative="1" as="geometry" />` +
+      `</mxCell>`
+    )
+  })
+
+  return [
+    '<mxfile host="cnm-demo">',
+    `<diagram id="cnm-diagram" name="${escapeXml(title)}">`,
+    `<mxGraphModel dx="${layout.width}" dy="${layout.height}" grid="1" gridSize="10" guides="1" page="0">`,
+    '<root>',
+    ...cells,
+    '</root>',
+    '</mxGraphModel>',
+    '</diagram>',
+    '</mxfile>',
+  ].join('\n')
+}
+
+export function mermaidToDrawio(source: string, title?: string): string {
+  return flowchartToDrawio(parseFlowchart(source), title)
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)))
+  return btoa(binary)
+}
+
+// Same encoding as draw.io's Graph.compress: raw deflate over the
+// URI-encoded XML, then base64
+export async function compressDrawioXml(xml: string): Promise<string> {
+  const stream = new Blob([encodeURIComponent(xml)]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  const buffer = await new Response(stream).arrayBuffer()
+  return toBase64(new Uint8Array(buffer))
+}
+
+// The #R fragment never reaches a server, so it is not bound by query-string limits
+export async function drawioEditUrl(xml: string): Promise<string> {
+  return `${DRAWIO_APP_URL}#R${encodeURIComponent(await compressDrawioXml(xml))}`
+}
+
+// Fallback for non-flowchart diagrams: let draw.io's own mermaid import handle them
+export function mermaidImportUrl(mermaidContent: string): string {
+  const payload = { type: 'mermaid', data: mermaidContent.trim() }
+  const url = `${DRAWIO_APP_URL}?create=${encodeURIComponent(JSON.stringify(payload))}`
+  if (url.length > MAX_QUERY_URL_LENGTH) {
+    throw new Error('Diagram too large for URL parameter')
+  }
+  return url
+}
@@ -0,0 +1,28 @@
+import { outlineFromSource, outlineText } from '../flowchart/outline'
+
+// The text outline of a flowchart, or null for other diagram types
+export function diagramAltText(source: string): string | null {
+  const outline = outlineFromSource(source)
+  return outline && outlineText(outline)
+}
+
+// Adds mermaid's accTitle and accDescr, which it renders as the SVG's <title>
+// and <desc>, so the outline travels with the diagram as its alt text. Sources
+// that already carry their own accessibility text are left alone.
+export function withAltText(source: string, title: string, altText: string | null): string {
+  if (!altText || /^\s*acc(Title|Descr)\b/m.test(source)) return source
+  // Not a `flowchart:` key in YAML frontmatter
+  const header = source.match(/^[ \t]*(flowchart|graph)\b(?!\s*:).*$/m)
+  if (header?.index === undefined) return source
+
+  // A closing brace would end the accDescr block early
+  const block = altText.replace(/[{}]/g, brace => (brace === '{' ? '(' : ')'))
+  const end = header.index + header[0].length
+  const lines = [
+    `accTitle: ${title.replace(/\s+/g, ' ')}`,
+    'accDescr {',
+    ...block.split('\n').map(line => `  ${line}`),
+    '}',
+  ]
+  return `${source.slice(0, end)}\n${lines.join('\n')}${source.slice(end)}`
+}
@@ -0,0 +1,19 @@
+import type { DiagramTheme } from '../themes'
+
+// Themes are applied per render through an init directive rather than
+// mermaid.initialize, so renders with different themes never leak into each
+// other. Exports use SVG text labels (instead of HTML inside foreignObject),
+// which keeps the output portable and lets it be drawn onto a canvas.
+export function withThemeDirective(source: string, theme: DiagramTheme, svgLabels = true): string {
+  const config = {
+    ...theme.mermaid,
+    ...(svgLabels && { htmlLabels: false, flowchart: { htmlLabels: false } }),
+  }
+  const directive = `%%{init: ${JSON.stringify(config)}}%%\n`
+
+  // Directives must come after YAML frontmatter, which has to stay first
+  const frontmatter = source.match(/^\s*---\r?\n[\s\S]*?\r?\n---\s*\r?\n/)
+  return frontmatter
+    ? frontmatter[0] + directive + source.slice(frontmatter[0].length)
+    : directive + source
+}
@@ -0,0 +1,50 @@
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { resolveBackground, type RenderedSvg } from './svg'
+import type { ExportContent, ExportOptions } from './types'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// One file, no external assets: the diagram is inline SVG and the styles are
+// embedded, so the report can be mailed around or attached to a wiki page.
+export function buildHtmlReport(rendered: RenderedSvg, options: ExportOptions, title: string, { source, description, origin }: ExportContent): string {
+  const { theme } = options
+  const page = resolveBackground(options) ?? theme.background
+  const body = description?.trim()
+    ? renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, description))
+    : ''
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0 auto; max-width: 960px; padding: 2rem 1.5rem; background: ${page}; color: ${theme.foreground}; font: 16px/1.6 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; }
+  h1, h2, h3 { line-height: 1.25; }
+  a { color: inherit; }
+  figure { margin: 2rem 0; overflow-x: auto; text-align: center; }
+  figure svg { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid currentColor; padding: 0.25rem 0.5rem; }
+  pre { overflow-x: auto; padding: 1rem; border: 1px solid currentColor; border-radius: 6px; opacity: 0.85; }
+  details { margin-top: 2rem; }
+  .origin { opacity: 0.7; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${origin ? `<p class="origin">Generated from ${escapeHtml(origin)}</p>\n` : ''}<figure>${rendered.markup}</figure>
+<article>${body}</article>
+<details>
+<summary>Mermaid source</summary>
+<pre><code>${escapeHtml(source)}</code></pre>
+</details>
+</body>
+</html>
+`
+}
@@ -0,0 +1,39 @@
+import { diagramAltText, withAltText } from './altText'
+import { buildHtmlReport } from './documents'
+import { buildMarkdown, exportTitle } from './markdown'
+import { buildPdf } from './pdf'
+import { canvasToBlob, rasterizeSvg, renderExportSvg } from './svg'
+import { DEFAULT_EXPORT_OPTIONS, type ExportContent, type ExportFormat, type ExportOptions } from './types'
+
+export * from './types'
+export { renderExportSvg } from './svg'
+export { withThemeDirective } from './directive'
+export { exportTitle } from './markdown'
+
+export function exportFilename(title: string, format: ExportFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'mermaid-diagram'
+  return `${slug}.${format}`
+}
+
+export async function exportDiagram(format: ExportFormat, content: ExportContent, overrides: Partial<ExportOptions> = {}): Promise<Blob> {
+  const options = { ...DEFAULT_EXPORT_OPTIONS, ...overrides }
+  const title = exportTitle(content)
+
+  if (format === 'md') {
+    return new Blob([buildMarkdown(options, title, content)], { type: 'text/markdown' })
+  }
+
+  // PNG has nowhere to keep alt text; the other formats carry the outline
+  const altText = diagramAltText(content.source)
+  const rendered = await renderExportSvg(withAltText(content.source, title, altText), options)
+  switch (format) {
+    case 'svg':
+      return new Blob([rendered.markup], { type: 'image/svg+xml' })
+    case 'png':
+      return canvasToBlob(await rasterizeSvg(rendered, options.scale))
+    case 'pdf':
+      return buildPdf(rendered, options.scale, title, content, altText)
+    case 'html':
+      return new Blob([buildHtmlReport(rendered, options, title, content)], { type: 'text/html' })
+  }
+}
@@ -0,0 +1,28 @@
+import { diagramAltText, withAltText } from './altText'
+import { withThemeDirective } from './directive'
+import type { ExportContent, ExportOptions } from './types'
+
+const DEFAULT_TITLE = 'Process Diagram'
+
+// Prefer the description's first heading, which the agent uses as the process name
+export function exportTitle(content: ExportContent): string {
+  if (content.title?.trim()) return content.title.trim()
+  const heading = content.description?.match(/^#{1,3}\s+(.+)$/m)
+  return heading ? heading[1].replace(/[*_`]/g, '').trim() : DEFAULT_TITLE
+}
+
+// Renders wherever fenced mermaid blocks are supported (GitHub, GitLab,
+// Confluence and Notion plugins). The theme travels as an init directive and
+// the alt text as accTitle/accDescr; scale and background only apply to
+// rendered formats.
+export function buildMarkdown(options: ExportOptions, title: string, { source, description, origin }: ExportContent): string {
+  const fence = source.includes('```') ? '~~~' : '```'
+  const diagram = withAltText(source.trim(), title, diagramAltText(source))
+  const parts = [
+    `# ${title}`,
+    ...(origin ? [`_Generated from ${origin}_`] : []),
+    `${fence}mermaid\n${withThemeDirective(diagram, options.theme, false)}\n${fence}`,
+  ]
+  if (description?.trim()) parts.push(description.trim())
+  return parts.join('\n\n') + '\n'
+}
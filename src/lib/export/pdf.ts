@@ -0,0 +1,156 @@
+import type { jsPDF } from 'jspdf'
+import { rasterizeSvg, type RenderedSvg } from './svg'
+import type { ExportContent } from './types'
+
+const MARGIN = 40
+const BODY_SIZE = 11
+const HEADING_SIZES = [20, 16, 13, 12, 11, 11]
+
+interface TextBlock {
+  kind: 'heading' | 'paragraph' | 'bullet' | 'code'
+  text: string
+  level?: number
+}
+
+// jsPDF has no markdown support, so inline markup is flattened to plain text
+const plainInline = (text: string) =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+
+const toBlocks = (markdown: string): TextBlock[] => {
+  const blocks: TextBlock[] = []
+  let paragraph: string[] = []
+  let code: string[] | null = null
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', text: plainInline(paragraph.join(' ')) })
+    paragraph = []
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.trim().startsWith('```')) {
+      flush()
+      if (code) {
+        blocks.push({ kind: 'code', text: code.join('\n') })
+        code = null
+      } else {
+        code = []
+      }
+      continue
+    }
+    if (code) {
+      code.push(line)
+      continue
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/)
+    const bullet = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/)
+    if (heading) {
+      flush()
+      blocks.push({ kind: 'heading', level: heading[1].length, text: plainInline(heading[2]) })
+    } else if (bullet) {
+      flush()
+      blocks.push({ kind: 'bullet', text: plainInline(bullet[1]) })
+    } else if (!line.trim() || /^\s*([-*_])\s*\1\s*\1[\s\-*_]*$/.test(line)) {
+      flush()
+    } else {
+      paragraph.push(line.trim())
+    }
+  }
+  flush()
+  if (code) blocks.push({ kind: 'code', text: code.join('\n') })
+  return blocks
+}
+
+const writeDescription = (pdf: jsPDF, markdown: string) => {
+  pdf.addPage('a4', 'portrait')
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const textWidth = pdf.internal.pageSize.getWidth() - MARGIN * 2
+  let y = MARGIN
+
+  const writeLines = (lines: string[], size: number, indent = 0, marker?: string) => {
+    const lineHeight = size * 1.4
+    lines.forEach((line, i) => {
+      if (y + lineHeight > pageHeight - MARGIN) {
+        pdf.addPage('a4', 'portrait')
+        y = MARGIN
+      }
+      if (i === 0 && marker) pdf.text(marker, MARGIN, y, { baseline: 'top' })
+      pdf.text(line, MARGIN + indent, y, { baseline: 'top' })
+      y += lineHeight
+    })
+  }
+
+  for (const block of toBlocks(markdown)) {
+    switch (block.kind) {
+      case 'heading': {
+        const size = HEADING_SIZES[(block.level ?? 1) - 1]
+        y += size * 0.5
+        pdf.setFont('helvetica', 'bold').setFontSize(size)
+        writeLines(pdf.splitTextToSize(block.text, textWidth), size)
+        break
+      }
+      case 'bullet':
+        pdf.setFont('helvetica', 'normal').setFontSize(BODY_SIZE)
+        writeLines(pdf.splitTextToSize(block.text, textWidth - 14), BODY_SIZE, 14, '\u2022')
+        break
+      case 'code':
+        pdf.setFont('courier', 'normal').setFontSize(BODY_SIZE - 1)
+        writeLines(pdf.splitTextToSize(block.text, textWidth), BODY_SIZE - 1)
+        y += BODY_SIZE * 0.5
+        break
+      default:
+        pdf.setFont('helvetica', 'normal').setFontSize(BODY_SIZE)
+        writeLines(pdf.splitTextToSize(block.text, textWidth), BODY_SIZE)
+        y += BODY_SIZE * 0.5
+    }
+  }
+}
+
+// First page holds the title and the diagram, fitted to an A4 page in the
+// diagram's orientation; the description and the text outline (the image's
+// alt text, which jsPDF cannot attach to it) flow over the following pages.
+export async function buildPdf(rendered: RenderedSvg, scale: number, title: string, { description, origin }: ExportContent, altText?: string | null): Promise<Blob> {
+  const { jsPDF } = await import('jspdf')
+  const canvas = await rasterizeSvg(rendered, scale)
+
+  const pdf = new jsPDF({
+    orientation: rendered.width > rendered.height ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: 'a4',
+  })
+  pdf.setProperties({ title })
+
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  pdf.setFont('helvetica', 'bold').setFontSize(HEADING_SIZES[0])
+  pdf.text(title, MARGIN, MARGIN, { baseline: 'top', maxWidth: pageWidth - MARGIN * 2 })
+
+  let top = MARGIN + HEADING_SIZES[0] * 2
+  if (origin) {
+    const size = BODY_SIZE - 2
+    pdf.setFont('helvetica', 'normal').setFontSize(size)
+    const lines: string[] = pdf.splitTextToSize(`Generated from ${origin}`, pageWidth - MARGIN * 2)
+    pdf.text(lines, MARGIN, MARGIN + HEADING_SIZES[0] * 1.4, { baseline: 'top' })
+    top += lines.length * size * 1.4
+  }
+  const fit = Math.min(
+    (pageWidth - MARGIN * 2) / rendered.width,
+    (pageHeight - top - MARGIN) / rendered.height,
+    1,
+  )
+  const width = rendered.width * fit
+  const height = rendered.height * fit
+  pdf.addImage(canvas, 'PNG', (pageWidth - width) / 2, top, width, height)
+
+  const outline = altText ? `## Text outline\n\n${altText.split('\n').map(line => line.trim()).join('\n\n')}` : ''
+  const text = [description?.trim(), outline].filter(Boolean).join('\n\n')
+  if (text) {
+    writeDescription(pdf, text)
+  }
+  return pdf.output('blob')
+}
@@ -0,0 +1,138 @@
+import { mermaid, sanitizeSvg } from '../safeMermaid'
+import { withThemeDirective } from './directive'
+import type { ExportOptions } from './types'
+
+export interface RenderedSvg {
+  markup: string
+  width: number
+  height: number
+}
+
+const PADDING = 24
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+let exportCounter = 0
+
+export function resolveBackground(options: ExportOptions): string | null {
+  if (options.background === 'transparent') return null
+  if (options.background === 'theme') return options.theme.background
+  return options.background
+}
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+
+const inlineFontUrls = async (cssText: string, baseUrl: string): Promise<string> => {
+  let result = cssText
+  for (const [match, url] of cssText.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+    if (url.startsWith('data:')) continue
+    const response = await fetch(new URL(url, baseUrl))
+    if (!response.ok) throw new Error(`Font request failed with ${response.status}`)
+    result = result.replace(match, `url("${await readAsDataUrl(await response.blob())}")`)
+  }
+  return result
+}
+
+// Copies the page's @font-face rules for the families the diagram uses into
+// the SVG, with font files inlined as data URLs. Cross-origin stylesheets
+// cannot be read and are skipped; viewers then fall back to system fonts.
+const collectFontFaces = async (markup: string): Promise<string> => {
+  const rules: string[] = []
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList
+    try {
+      cssRules = sheet.cssRules
+    } catch {
+      continue
+    }
+
+    for (const rule of Array.from(cssRules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue
+      const family = rule.style.getPropertyValue('font-family').replace(/["']/g, '').trim()
+      if (!family || !markup.toLowerCase().includes(family.toLowerCase())) continue
+      try {
+        rules.push(await inlineFontUrls(rule.cssText, sheet.href ?? document.baseURI))
+      } catch (error) {
+        console.warn(`Unable to embed font "${family}":`, error)
+      }
+    }
+  }
+  return rules.join('\n')
+}
+
+// Renders a standalone SVG: themed, padded, with explicit pixel dimensions,
+// the chosen background painted in and page fonts embedded.
+export async function renderExportSvg(source: string, options: ExportOptions): Promise<RenderedSvg> {
+  const { svg: raw } = await mermaid.render(`export-${++exportCounter}`, withThemeDirective(source, options.theme))
+  const svg = sanitizeSvg(raw)
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+  const root = doc.documentElement
+
+  const [x, y, width, height] = (root.getAttribute('viewBox') ?? '0 0 0 0').split(/[\s,]+/).map(Number)
+  const box = {
+    x: x - PADDING,
+    y: y - PADDING,
+    width: Math.ceil(width + PADDING * 2),
+    height: Math.ceil(height + PADDING * 2),
+  }
+
+  root.setAttribute('viewBox', `${box.x} ${box.y} ${box.width} ${box.height}`)
+  root.setAttribute('width', String(box.width))
+  root.setAttribute('height', String(box.height))
+  root.removeAttribute('style')
+
+  const background = resolveBackground(options)
+  if (background) {
+    const rect = doc.createElementNS(SVG_NS, 'rect')
+    rect.setAttribute('x', String(box.x))
+    rect.setAttribute('y', String(box.y))
+    rect.setAttribute('width', String(box.width))
+    rect.setAttribute('height', String(box.height))
+    rect.setAttribute('fill', background)
+    root.insertBefore(rect, root.firstChild)
+  }
+
+  const fontFaces = await collectFontFaces(svg)
+  if (fontFaces) {
+    const style = doc.createElementNS(SVG_NS, 'style')
+    style.textContent = fontFaces
+    root.insertBefore(style, root.firstChild)
+  }
+
+  return {
+    markup: new XMLSerializer().serializeToString(root),
+    width: box.width,
+    height: box.height,
+  }
+}
+
+// Draws the SVG onto a canvas at the requested pixel density
+export async function rasterizeSvg(rendered: RenderedSvg, scale: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([rendered.markup], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(rendered.width * scale)
+    canvas.height = Math.round(rendered.height * scale)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas 2D context is not available')
+    ctx.scale(scale, scale)
+    ctx.drawImage(image, 0, 0, rendered.width, rendered.height)
+    return canvas
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Unable to encode PNG'))), 'image/png')
+  })
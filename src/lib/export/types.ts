@@ -0,0 +1,27 @@
+import { DEFAULT_THEME, type DiagramTheme } from '../themes'
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'html' | 'md'
+
+// 'theme' paints the theme's page colour; any other string is used as a CSS colour
+export type ExportBackground = 'theme' | 'transparent' | (string & {})
+
+export interface ExportOptions {
+  theme: DiagramTheme
+  // Pixel density for raster output (PNG and the image embedded in PDFs)
+  scale: number
+  background: ExportBackground
+}
+
+export interface ExportContent {
+  source: string
+  description?: string
+  title?: string
+  // What the diagram was generated from, e.g. a video URL or transcript name
+  origin?: string
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  theme: DEFAULT_THEME,
+  scale: 2,
+  background: 'theme',
+}
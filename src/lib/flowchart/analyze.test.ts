@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeFlowchart, buildFlowGraph, type FlowStats, type LintRule } from './analyze'
+import { parseFlowchart } from './parseFlowchart'
+
+const flowchart = (...statements: string[]) => parseFlowchart(['flowchart TD', ...statements].join('\n'))
+
+const findings = (rule: LintRule, ...statements: string[]) =>
+  analyzeFlowchart(flowchart(...statements)).findings.filter(finding => finding.rule === rule).map(finding => finding.nodes)
+
+describe('buildFlowGraph', () => {
+  it('starts at the first node without incoming edges', () => {
+    expect(buildFlowGraph(flowchart('B --> C', 'A --> B')).start).toBe('A')
+  })
+
+  it('falls back to the first node when every node has incoming edges', () => {
+    expect(buildFlowGraph(flowchart('A --> B', 'B --> A')).start).toBe('A')
+  })
+
+  it('counts bidirectional links both ways and parallel edges once', () => {
+    const graph = buildFlowGraph(flowchart('A <--> B', 'B --> C', 'B -->|again| C'))
+    expect(graph.successors.get('B')).toEqual(['A', 'C'])
+    expect(graph.predecessors.get('A')).toEqual(['B'])
+    expect(graph.predecessors.get('C')).toEqual(['B'])
+  })
+
+  it.each<[string, string, boolean]>([
+    ['a stadium', 'B([Ship it])', true],
+    ['a circle', 'B((X))', true],
+    ['a double circle', 'B(((X)))', true],
+    ['an end label', 'B[Order completed]', true],
+    ['a failure label', 'B[Payment failed]', true],
+    ['a plain step', 'B[Send invoice]', false],
+    ['a label containing an end word', 'B[Vendor onboarding]', false],
+  ])('treats %s without next steps as terminal: %s', (_, node, terminal) => {
+    expect(buildFlowGraph(flowchart(`A --> ${node}`)).terminals).toEqual(terminal ? ['B'] : [])
+  })
+
+  it('does not treat an end-looking step with next steps as terminal', () => {
+    expect(buildFlowGraph(flowchart('A([Start]) --> B([Done]) --> C')).terminals).toEqual([])
+  })
+})
+
+describe('analyzeFlowchart findings', () => {
+  it.each<[string, LintRule, string[], string[][]]>([
+    ['a second entry point', 'unreachable', ['A --> B([Done])', 'C --> B'], [['C']]],
+    ['an island loop', 'unreachable', ['A --> B([Done])', 'C --> D', 'D --> C'], [['C', 'D']]],
+    ['a connected flow', 'unreachable', ['A --> B{Ok?}', 'B --> C([Done])', 'B --> A'], []],
+    ['a plain last step', 'dead-end', ['A --> B[Send invoice]'], [['B']]],
+    ['a terminal last step', 'dead-end', ['A --> B([Send invoice])'], []],
+    ['an end label', 'dead-end', ['A --> B[Request rejected]'], []],
+    ['a single node', 'dead-end', ['A[Send invoice]'], []],
+    ['a decision with one outcome', 'decision-branches', ['A{Valid?} --> B([Done])'], [['A']]],
+    ['a decision with no outcome', 'decision-branches', ['S --> A{Valid?}'], [['A']]],
+    ['a decision with two outcomes', 'decision-branches', ['A{Valid?} -->|Yes| B([Done])', 'A -->|No| C([Rejected])'], []],
+    ['a decision with parallel edges to one step', 'decision-branches', ['A{Valid?} -->|Yes| B([Done])', 'A -->|No| B'], [['A']]],
+    ['a loop without exit', 'closed-cycle', ['A --> B', 'B --> C', 'C --> B'], [['B', 'C']]],
+    ['a loop with an exit', 'closed-cycle', ['A --> B', 'B --> C', 'C --> B', 'C --> D([Done])'], []],
+    ['a self loop', 'closed-cycle', ['A --> B', 'B --> B'], [['B']]],
+    ['a bidirectional pair', 'closed-cycle', ['A <--> B'], [['A', 'B']]],
+    ['labels differing in case and spacing', 'duplicate-label', ['A[Check  form] --> B[check form] --> C[Submit]'], [['A', 'B']]],
+    ['distinct labels', 'duplicate-label', ['A[Check form] --> B[Check forms]'], []],
+  ])('%s: %s', (_, rule, statements, expected) => {
+    expect(findings(rule, ...statements)).toEqual(expected)
+  })
+
+  it('names the steps in its messages', () => {
+    const { findings } = analyzeFlowchart(flowchart('A[Start] --> B{Valid?} --> C[Send]', 'D[Orphan] --> C'))
+    expect(findings.map(({ rule, severity, message }) => [rule, severity, message])).toEqual([
+      ['unreachable', 'warning', 'This step is not reachable from the start "Start".'],
+      ['dead-end', 'warning', '"Send" has no next step and does not look like an end step.'],
+      ['decision-branches', 'warning', 'Decision "Valid?" has only one outcome.'],
+    ])
+  })
+
+  it('reports nothing for a well-formed flow', () => {
+    const { findings } = analyzeFlowchart(flowchart(
+      'A([Start]) --> B[Fill in form] --> C{Valid?}',
+      'C -->|No| B',
+      'C -->|Yes| D([Submitted])',
+    ))
+    expect(findings).toEqual([])
+  })
+})
+
+describe('analyzeFlowchart stats', () => {
+  it.each<[string, string[], FlowStats]>([
+    ['an empty flowchart', [], { steps: 0, decisions: 0, branches: 0, longestPath: 0 }],
+    ['a straight line', ['A --> B --> C'], { steps: 3, decisions: 0, branches: 0, longestPath: 3 }],
+    ['a shortcut', ['A --> B --> C --> D', 'A --> D'], { steps: 4, decisions: 0, branches: 1, longestPath: 4 }],
+    [
+      'a retry loop',
+      ['A --> B{Ok?}', 'B -->|No| A', 'B -->|Yes| C([Done])'],
+      { steps: 3, decisions: 1, branches: 1, longestPath: 3 },
+    ],
+    [
+      'a loop back to the start of a long branch',
+      ['A --> B --> C --> D{Again?}', 'D -->|Yes| B', 'D -->|No| E([Done])'],
+      { steps: 5, decisions: 1, branches: 1, longestPath: 5 },
+    ],
+    ['parallel edges', ['A --> B', 'A -->|again| B'], { steps: 2, decisions: 0, branches: 0, longestPath: 2 }],
+    ['an unreachable island', ['A --> B', 'C --> D --> E --> F'], { steps: 6, decisions: 0, branches: 0, longestPath: 2 }],
+  ])('counts %s', (_, statements, stats) => {
+    expect(analyzeFlowchart(flowchart(...statements)).stats).toEqual(stats)
+  })
+})
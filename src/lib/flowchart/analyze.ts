@@ -0,0 +1,249 @@
+import type { FlowNode, FlowchartModel, NodeShape } from './types'
+
+// Directed view of a parsed flowchart. Bidirectional links (<-->) count in
+// both directions; parallel edges between the same nodes count once.
+export interface FlowGraph {
+  nodes: Map<string, FlowNode>
+  successors: Map<string, string[]>
+  predecessors: Map<string, string[]>
+  // The first declared node without incoming edges (or the first node)
+  start: string | null
+  decisions: string[]
+  terminals: string[]
+}
+
+export type LintRule = 'unreachable' | 'dead-end' | 'decision-branches' | 'closed-cycle' | 'duplicate-label'
+
+export interface LintFinding {
+  rule: LintRule
+  severity: 'warning' | 'info'
+  message: string
+  // Offending node IDs, in declaration order
+  nodes: string[]
+}
+
+export interface FlowStats {
+  steps: number
+  decisions: number
+  // Nodes where the flow splits into two or more paths
+  branches: number
+  // Nodes on the longest path from the start, ignoring loop-back edges
+  longestPath: number
+}
+
+export interface FlowAnalysis {
+  graph: FlowGraph
+  findings: LintFinding[]
+  stats: FlowStats
+}
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  unreachable: 'Unreachable step',
+  'dead-end': 'Dead end',
+  'decision-branches': 'One-way decision',
+  'closed-cycle': 'Loop without exit',
+  'duplicate-label': 'Duplicate label',
+}
+
+// Stable across re-analysis of an unchanged finding, e.g. to keep it selected
+export const findingKey = (finding: LintFinding) => `${finding.rule}:${finding.nodes.join(',')}`
+
+const DECISION_SHAPES: NodeShape[] = ['diamond']
+// Mermaid's conventional start/end shapes
+const TERMINAL_SHAPES: NodeShape[] = ['stadium', 'circle', 'doublecircle']
+const TERMINAL_LABEL = /\b(end|ends|done|finish(ed)?|stop(ped)?|complete[d]?|close[d]?|exit|success(ful)?|fail(ed|ure)?|cancel(l?ed)?|reject(ed)?|approved)\b/i
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const quoted = (graph: FlowGraph, id: string) => `"${graph.nodes.get(id)?.label ?? id}"`
+
+export function buildFlowGraph(model: FlowchartModel): FlowGraph {
+  const nodes = new Map(model.nodes.map(node => [node.id, node]))
+  const successors = new Map<string, Set<string>>(model.nodes.map(node => [node.id, new Set()]))
+  const predecessors = new Map<string, Set<string>>(model.nodes.map(node => [node.id, new Set()]))
+
+  const link = (from: string, to: string) => {
+    if (!nodes.has(from) || !nodes.has(to)) return
+    successors.get(from)!.add(to)
+    predecessors.get(to)!.add(from)
+  }
+  for (const edge of model.edges) {
+    link(edge.from, edge.to)
+    if (edge.start !== 'none' && edge.end !== 'none') link(edge.to, edge.from)
+  }
+
+  const toLists = (map: Map<string, Set<string>>) => new Map([...map].map(([id, set]) => [id, [...set]]))
+  const start = model.nodes.find(node => !predecessors.get(node.id)!.size)?.id ?? model.nodes[0]?.id ?? null
+
+  return {
+    nodes,
+    successors: toLists(successors),
+    predecessors: toLists(predecessors),
+    start,
+    decisions: model.nodes.filter(node => DECISION_SHAPES.includes(node.shape)).map(node => node.id),
+    terminals: model.nodes
+      .filter(node => !successors.get(node.id)!.size && (TERMINAL_SHAPES.includes(node.shape) || TERMINAL_LABEL.test(node.label)))
+      .map(node => node.id),
+  }
+}
+
+const reachableFrom = (graph: FlowGraph, start: string): Set<string> => {
+  const seen = new Set([start])
+  const queue = [start]
+  while (queue.length) {
+    for (const next of graph.successors.get(queue.shift()!)!) {
+      if (!seen.has(next)) {
+        seen.add(next)
+        queue.push(next)
+      }
+    }
+  }
+  return seen
+}
+
+// Tarjan's algorithm; returns components in reverse topological order
+const stronglyConnected = (graph: FlowGraph): string[][] => {
+  const index = new Map<string, number>()
+  const low = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const components: string[][] = []
+
+  const visit = (id: string) => {
+    index.set(id, index.size)
+    low.set(id, index.get(id)!)
+    stack.push(id)
+    onStack.add(id)
+    for (const next of graph.successors.get(id)!) {
+      if (!index.has(next)) {
+        visit(next)
+        low.set(id, Math.min(low.get(id)!, low.get(next)!))
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!))
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+      components.push(component)
+    }
+  }
+
+  for (const id of graph.nodes.keys()) {
+    if (!index.has(id)) visit(id)
+  }
+  return components
+}
+
+// Longest path in nodes, with edges back into the current DFS path (loops)
+// dropped so the graph becomes acyclic
+const longestPath = (graph: FlowGraph, start: string | null): number => {
+  if (!start) return 0
+  const state = new Map<string, 'visiting' | 'done'>()
+  const depth = new Map<string, number>()
+
+  const visit = (id: string): number => {
+    state.set(id, 'visiting')
+    let best = 0
+    for (const next of graph.successors.get(id)!) {
+      const s = state.get(next)
+      if (s === 'visiting') continue
+      best = Math.max(best, s === 'done' ? depth.get(next)! : visit(next))
+    }
+    state.set(id, 'done')
+    depth.set(id, best + 1)
+    return best + 1
+  }
+  return visit(start)
+}
+
+type Rule = (graph: FlowGraph, order: string[]) => LintFinding[]
+
+const RULES: Rule[] = [
+  (graph, order) => {
+    if (!graph.start) return []
+    const reachable = reachableFrom(graph, graph.start)
+    const unreachable = order.filter(id => !reachable.has(id))
+    return unreachable.length
+      ? [{
+          rule: 'unreachable',
+          severity: 'warning',
+          message: `${unreachable.length === 1 ? 'This step is' : `${unreachable.length} steps are`} not reachable from the start ${quoted(graph, graph.start)}.`,
+          nodes: unreachable,
+        }]
+      : []
+  },
+
+  (graph, order) =>
+    order
+      .filter(id => !graph.successors.get(id)!.length && !graph.terminals.includes(id) && graph.nodes.size > 1)
+      .map(id => ({
+        rule: 'dead-end',
+        severity: 'warning',
+        message: `${quoted(graph, id)} has no next step and does not look like an end step.`,
+        nodes: [id],
+      })),
+
+  (graph) =>
+    graph.decisions
+      .filter(id => graph.successors.get(id)!.length < 2)
+      .map(id => ({
+        rule: 'decision-branches',
+        severity: 'warning',
+        message: `Decision ${quoted(graph, id)} has ${graph.successors.get(id)!.length === 1 ? 'only one outcome' : 'no outcomes'}.`,
+        nodes: [id],
+      })),
+
+  (graph, order) =>
+    stronglyConnected(graph)
+      .filter(component => component.length > 1 || graph.successors.get(component[0])!.includes(component[0]))
+      .filter(component => component.every(id => graph.successors.get(id)!.every(next => component.includes(next))))
+      .map(component => {
+        const nodes = order.filter(id => component.includes(id))
+        return {
+          rule: 'closed-cycle',
+          severity: 'warning',
+          message: `The loop through ${nodes.map(id => quoted(graph, id)).join(', ')} has no way out.`,
+          nodes,
+        }
+      }),
+
+  (graph, order) => {
+    const byLabel = new Map<string, string[]>()
+    for (const id of order) {
+      const label = normalizeLabel(graph.nodes.get(id)!.label)
+      byLabel.set(label, [...(byLabel.get(label) ?? []), id])
+    }
+    return [...byLabel.values()]
+      .filter(ids => ids.length > 1)
+      .map(ids => ({
+        rule: 'duplicate-label',
+        severity: 'info',
+        message: `${ids.length} steps share the label ${quoted(graph, ids[0])}; if they are the same step, merge them.`,
+        nodes: ids,
+      }))
+  },
+]
+
+// Structural checks for generated process diagrams. The findings are hints
+// about the diagram, not syntax errors; an empty list means nothing stood out.
+export function analyzeFlowchart(model: FlowchartModel): FlowAnalysis {
+  const graph = buildFlowGraph(model)
+  const order = model.nodes.map(node => node.id)
+
+  return {
+    graph,
+    findings: RULES.flatMap(rule => rule(graph, order)),
+    stats: {
+      steps: graph.nodes.size,
+      decisions: graph.decisions.length,
+      branches: order.filter(id => graph.successors.get(id)!.length > 1).length,
+      longestPath: longestPath(graph, graph.start),
+    },
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { diffFlowcharts, type FlowChange } from './diff'
+import { parseFlowchart } from './parseFlowchart'
+
+const flowchart = (...statements: string[]) => parseFlowchart(['flowchart TD', ...statements].join('\n'))
+
+const diff = (before: string[], after: string[]) => diffFlowcharts(flowchart(...before), flowchart(...after))
+
+describe('diffFlowcharts', () => {
+  it.each<[string, string[], string[]]>([
+    ['identical diagrams', ['A[Open ticket] --> B{Valid?}', 'B -->|Yes| C[Resolve]'], ['A[Open ticket] --> B{Valid?}', 'B -->|Yes| C[Resolve]']],
+    ['renumbered IDs', ['A[Open ticket] --> B[Assign]', 'B --> C[Resolve]'], ['n3[Open ticket] --> n1[Assign]', 'n1 --> n2[Resolve]']],
+    ['labels differing in case and spacing', ['A[Open ticket] --> B[Assign]'], ['x[open  Ticket] --> y[assign]']],
+    ['repeated labels', ['A[Check] --> B[Check] --> C[Done]'], ['x[Check] --> y[Check] --> z[Done]']],
+    ['reordered statements', ['A --> B', 'B --> C'], ['B --> C', 'A --> B']],
+  ])('finds no changes between %s', (_, before, after) => {
+    expect(diff(before, after)).toEqual({
+      changes: [],
+      before: { nodes: {}, edges: [] },
+      after: { nodes: {}, edges: [] },
+    })
+  })
+
+  it('matches by ID before label, so a kept ID with a new label is relabeled', () => {
+    const { changes, before, after } = diff(['A[Start] --> B[Check]'], ['A[Begin] --> B[Check]'])
+    expect(changes).toEqual<FlowChange[]>([{ kind: 'node', mark: 'relabeled', id: 'A', label: 'Begin', previousLabel: 'Start' }])
+    expect(before.nodes).toEqual({ A: 'relabeled' })
+    expect(after.nodes).toEqual({ A: 'relabeled' })
+  })
+
+  it('prefers an ID match over a label match elsewhere', () => {
+    const { changes } = diff(['A[Pay] --> B[Ship]'], ['A[Ship] --> B[Pay]'])
+    expect(changes.map(change => change.kind === 'node' && [change.mark, change.id])).toEqual([
+      ['relabeled', 'A'],
+      ['relabeled', 'B'],
+    ])
+  })
+
+  it('reports replaced steps and rewires their neighbours', () => {
+    const { changes, before, after } = diff(['A[Order] --> B[Pack] --> C[Ship]'], ['A[Order] --> B[Pack] --> D[Archive]'])
+    expect(changes).toEqual<FlowChange[]>([
+      { kind: 'node', mark: 'removed', id: 'C', label: 'Ship' },
+      { kind: 'node', mark: 'added', id: 'D', label: 'Archive' },
+      { kind: 'node', mark: 'rewired', id: 'B', label: 'Pack' },
+      { kind: 'edge', mark: 'removed', from: 'Pack', to: 'Ship', label: undefined },
+      { kind: 'edge', mark: 'added', from: 'Pack', to: 'Archive', label: undefined },
+    ])
+    expect(before).toEqual({ nodes: { C: 'removed', B: 'rewired' }, edges: [{ from: 'B', to: 'C', mark: 'removed' }] })
+    expect(after).toEqual({ nodes: { D: 'added', B: 'rewired' }, edges: [{ from: 'B', to: 'D', mark: 'added' }] })
+  })
+
+  it('marks each side with its own IDs when the IDs were renumbered', () => {
+    const { before, after } = diff(['A[Order] --> B[Pack] --> C[Ship]'], ['n1[Order] --> n2[Pack]', 'n1 --> n3[Ship]'])
+    expect(before).toEqual({
+      nodes: { A: 'rewired', B: 'rewired', C: 'rewired' },
+      edges: [{ from: 'B', to: 'C', mark: 'removed' }],
+    })
+    expect(after).toEqual({
+      nodes: { n1: 'rewired', n2: 'rewired', n3: 'rewired' },
+      edges: [{ from: 'n1', to: 'n3', mark: 'added' }],
+    })
+  })
+
+  it('keeps a relabeled node that was also rewired marked as relabeled', () => {
+    const { changes, after } = diff(['A --> B[Pack]', 'A --> C'], ['A --> B[Pack order]', 'B --> C'])
+    expect(changes.filter(change => change.kind === 'node').map(change => [change.mark, change.id])).toEqual([
+      ['rewired', 'A'],
+      ['relabeled', 'B'],
+      ['rewired', 'B'],
+      ['rewired', 'C'],
+    ])
+    expect(after.nodes).toEqual({ A: 'rewired', B: 'relabeled', C: 'rewired' })
+  })
+
+  it('reports a changed edge label without touching the nodes', () => {
+    const { changes, before, after } = diff(['A{Valid?} -->|Yes| B', 'A -->|No| C'], ['A{Valid?} -->|Approved| B', 'A -->|No| C'])
+    expect(changes).toEqual<FlowChange[]>([{ kind: 'edge', mark: 'relabeled', from: 'Valid?', to: 'B', label: 'Approved', previousLabel: 'Yes' }])
+    expect(before.edges).toEqual([{ from: 'A', to: 'B', mark: 'relabeled' }])
+    expect(after.edges).toEqual([{ from: 'A', to: 'B', mark: 'relabeled' }])
+  })
+
+  it.each<[string, string[], string[], FlowChange[]]>([
+    [
+      'a second parallel edge',
+      ['A --> B'],
+      ['A --> B', 'A -->|again| B'],
+      [{ kind: 'edge', mark: 'added', from: 'A', to: 'B', label: 'again' }],
+    ],
+    [
+      'a dropped parallel edge',
+      ['A --> B', 'A --> B'],
+      ['A --> B'],
+      [{ kind: 'edge', mark: 'removed', from: 'A', to: 'B', label: undefined }],
+    ],
+  ])('counts parallel edges: %s', (_, before, after, edgeChanges) => {
+    expect(diff(before, after).changes.filter(change => change.kind === 'edge')).toEqual(edgeChanges)
+  })
+
+  it('keeps parallel edges that are all still there', () => {
+    expect(diff(['A --> B', 'A --> B', 'B --> C'], ['B --> C', 'A --> B', 'A --> B']).changes).toEqual([])
+  })
+
+  it('does not match an edge to a removed node with a new edge of the same shape', () => {
+    const { changes } = diff(['A --> B[Old]'], ['A --> C[New]'])
+    expect(changes.filter(change => change.kind === 'edge')).toEqual([
+      { kind: 'edge', mark: 'removed', from: 'A', to: 'Old', label: undefined },
+      { kind: 'edge', mark: 'added', from: 'A', to: 'New', label: undefined },
+    ])
+  })
+})
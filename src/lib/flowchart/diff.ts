@@ -0,0 +1,127 @@
+import type { FlowEdge, FlowNode, FlowchartModel } from './types'
+
+export type DiffMark = 'added' | 'removed' | 'relabeled' | 'rewired'
+
+export type FlowChange =
+  | { kind: 'node'; mark: DiffMark; id: string; label: string; previousLabel?: string }
+  | { kind: 'edge'; mark: Exclude<DiffMark, 'rewired'>; from: string; to: string; label?: string; previousLabel?: string }
+
+// What to color on one side of the comparison, by node ID and edge ends
+export interface DiffMarks {
+  nodes: Record<string, DiffMark>
+  edges: { from: string; to: string; mark: DiffMark }[]
+}
+
+export interface FlowDiff {
+  changes: FlowChange[]
+  before: DiffMarks
+  after: DiffMarks
+}
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// Nodes pair up by ID first. Regenerated diagrams often renumber their IDs,
+// so the leftovers then pair up by identical label. Returns before → after IDs.
+const matchNodes = (before: FlowNode[], after: FlowNode[]): Map<string, string> => {
+  const afterIds = new Set(after.map(node => node.id))
+  const matches = new Map<string, string>()
+  before.filter(node => afterIds.has(node.id)).forEach(node => matches.set(node.id, node.id))
+
+  const matched = new Set(matches.values())
+  const byLabel = new Map<string, string[]>()
+  for (const node of after) {
+    if (matched.has(node.id)) continue
+    const label = normalizeLabel(node.label)
+    byLabel.set(label, [...(byLabel.get(label) ?? []), node.id])
+  }
+  for (const node of before) {
+    if (matches.has(node.id)) continue
+    const candidate = byLabel.get(normalizeLabel(node.label))?.shift()
+    if (candidate) matches.set(node.id, candidate)
+  }
+  return matches
+}
+
+const edgeKey = (from: string, to: string) => `${from}\u0000${to}`
+
+const neighbours = (edges: { from: string; to: string }[], id: string): string =>
+  [
+    ...edges.filter(edge => edge.from === id).map(edge => `>${edge.to}`),
+    ...edges.filter(edge => edge.to === id).map(edge => `<${edge.from}`),
+  ]
+    .sort()
+    .join(',')
+
+// Node and edge level differences between two flowcharts. Edges are compared
+// after mapping the old node IDs onto the new ones, so a renamed node does not
+// show up as every one of its edges being replaced.
+export function diffFlowcharts(before: FlowchartModel, after: FlowchartModel): FlowDiff {
+  const matches = matchNodes(before.nodes, after.nodes)
+  const reverse = new Map([...matches].map(([from, to]) => [to, from]))
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]))
+  const beforeLabel = (id: string) => before.nodes.find(node => node.id === id)?.label ?? id
+  const afterLabel = (id: string) => afterNodes.get(id)?.label ?? id
+
+  const changes: FlowChange[] = []
+  const marks: { before: DiffMarks; after: DiffMarks } = {
+    before: { nodes: {}, edges: [] },
+    after: { nodes: {}, edges: [] },
+  }
+
+  for (const node of before.nodes) {
+    if (matches.has(node.id)) continue
+    changes.push({ kind: 'node', mark: 'removed', id: node.id, label: node.label })
+    marks.before.nodes[node.id] = 'removed'
+  }
+  for (const node of after.nodes) {
+    if (reverse.has(node.id)) continue
+    changes.push({ kind: 'node', mark: 'added', id: node.id, label: node.label })
+    marks.after.nodes[node.id] = 'added'
+  }
+
+  // Old edges expressed in new IDs; edges touching removed nodes keep a
+  // placeholder end so they never match a new edge
+  const mapped = before.edges.map(edge => ({
+    edge,
+    from: matches.get(edge.from) ?? `\u0001${edge.from}`,
+    to: matches.get(edge.to) ?? `\u0001${edge.to}`,
+  }))
+
+  for (const [oldId, newId] of matches) {
+    const oldNode = before.nodes.find(node => node.id === oldId)!
+    const newNode = afterNodes.get(newId)!
+    if (normalizeLabel(oldNode.label) !== normalizeLabel(newNode.label)) {
+      changes.push({ kind: 'node', mark: 'relabeled', id: newId, label: newNode.label, previousLabel: oldNode.label })
+      marks.before.nodes[oldId] = marks.after.nodes[newId] = 'relabeled'
+    }
+    if (neighbours(mapped, newId) !== neighbours(after.edges, newId)) {
+      changes.push({ kind: 'node', mark: 'rewired', id: newId, label: newNode.label })
+      marks.before.nodes[oldId] ??= 'rewired'
+      marks.after.nodes[newId] ??= 'rewired'
+    }
+  }
+
+  // Parallel edges are compared as a multiset per (from, to) pair
+  const remaining = new Map<string, FlowEdge[]>()
+  for (const edge of after.edges) {
+    const key = edgeKey(edge.from, edge.to)
+    remaining.set(key, [...(remaining.get(key) ?? []), edge])
+  }
+  for (const { edge, from, to } of mapped) {
+    const counterpart = remaining.get(edgeKey(from, to))?.shift()
+    if (!counterpart) {
+      changes.push({ kind: 'edge', mark: 'removed', from: beforeLabel(edge.from), to: beforeLabel(edge.to), label: edge.label })
+      marks.before.edges.push({ from: edge.from, to: edge.to, mark: 'removed' })
+    } else if ((edge.label ?? '') !== (counterpart.label ?? '')) {
+      changes.push({ kind: 'edge', mark: 'relabeled', from: afterLabel(from), to: afterLabel(to), label: counterpart.label, previousLabel: edge.label })
+      marks.before.edges.push({ from: edge.from, to: edge.to, mark: 'relabeled' })
+      marks.after.edges.push({ from, to, mark: 'relabeled' })
+    }
+  }
+  for (const edge of [...remaining.values()].flat()) {
+    changes.push({ kind: 'edge', mark: 'added', from: afterLabel(edge.from), to: afterLabel(edge.to), label: edge.label })
+    marks.after.edges.push({ from: edge.from, to: edge.to, mark: 'added' })
+  }
+
+  return { changes, ...marks }
+}
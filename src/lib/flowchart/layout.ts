@@ -0,0 +1,224 @@
+import type { FlowNode, FlowchartModel } from './types'
+
+export interface LayoutBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface FlowLayout {
+  nodes: Map<string, LayoutBox>
+  subgraphs: Map<string, LayoutBox>
+  width: number
+  height: number
+}
+
+const CHAR_WIDTH = 7
+const LINE_HEIGHT = 16
+const NODE_GAP = 40
+const GROUP_GAP = 30
+const RANK_GAP = 70
+const SUBGRAPH_PADDING = 20
+const SUBGRAPH_TITLE = 28
+const MARGIN = 20
+
+const nodeSize = (node: FlowNode): { width: number; height: number } => {
+  const lines = node.label.split('\n')
+  const longest = Math.max(...lines.map(line => line.length))
+  const width = Math.min(260, Math.max(100, longest * CHAR_WIDTH + 40))
+  const charsPerLine = Math.max(1, Math.floor((width - 20) / CHAR_WIDTH))
+  const wrappedLines = lines.reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / charsPerLine)), 0)
+  const height = 40 + (wrappedLines - 1) * LINE_HEIGHT
+
+  switch (node.shape) {
+    case 'diamond':
+    case 'hexagon':
+      return { width: Math.round(width * 1.3), height: Math.round(Math.max(height, 60) * 1.4) }
+    case 'circle':
+    case 'doublecircle': {
+      const size = Math.max(width * 0.8, height, 80)
+      return { width: size, height: size }
+    }
+    default:
+      return { width, height }
+  }
+}
+
+// Longest-path ranking over the graph with back edges (found by DFS) ignored,
+// so cycles such as retry loops do not break the layering.
+const assignRanks = (ids: string[], successors: Map<string, string[]>): Map<string, number> => {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const forward = new Map<string, string[]>(ids.map(id => [id, []]))
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    for (const next of successors.get(id) ?? []) {
+      const s = state.get(next)
+      if (s === 'visiting') continue
+      forward.get(id)!.push(next)
+      if (!s) visit(next)
+    }
+    state.set(id, 'done')
+  }
+  for (const id of ids) {
+    if (!state.has(id)) visit(id)
+  }
+
+  const indegree = new Map<string, number>(ids.map(id => [id, 0]))
+  forward.forEach(targets => targets.forEach(t => indegree.set(t, indegree.get(t)! + 1)))
+
+  const rank = new Map<string, number>(ids.map(id => [id, 0]))
+  const queue = ids.filter(id => indegree.get(id) === 0)
+  while (queue.length) {
+    const id = queue.shift()!
+    for (const next of forward.get(id)!) {
+      rank.set(next, Math.max(rank.get(next)!, rank.get(id)! + 1))
+      indegree.set(next, indegree.get(next)! - 1)
+      if (indegree.get(next) === 0) queue.push(next)
+    }
+  }
+  return rank
+}
+
+const subgraphPath = (model: FlowchartModel, id: string | undefined): string[] => {
+  const path: string[] = []
+  const parents = new Map(model.subgraphs.map(s => [s.id, s.parent]))
+  let current = id
+  while (current) {
+    path.unshift(current)
+    current = parents.get(current)
+  }
+  return path
+}
+
+// Small layered (Sugiyama-style) layout: rank, order by barycenter while
+// keeping subgraph members next to each other, then assign coordinates.
+export function layoutFlowchart(model: FlowchartModel): FlowLayout {
+  const ids = model.nodes.map(n => n.id)
+  const nodeIds = new Set(ids)
+  const successors = new Map<string, string[]>(ids.map(id => [id, []]))
+  const neighbours = new Map<string, string[]>(ids.map(id => [id, []]))
+  for (const edge of model.edges) {
+    if (!nodeIds.has(edge.from) || !nodeIds.has(edge.to) || edge.from === edge.to) continue
+    successors.get(edge.from)!.push(edge.to)
+    neighbours.get(edge.from)!.push(edge.to)
+    neighbours.get(edge.to)!.push(edge.from)
+  }
+
+  const rank = assignRanks(ids, successors)
+  const sizes = new Map(model.nodes.map(n => [n.id, nodeSize(n)]))
+  const groupKey = new Map(model.nodes.map(n => [n.id, subgraphPath(model, n.subgraph).join('/')]))
+
+  const rankCount = Math.max(0, ...rank.values()) + 1
+  const layers: string[][] = Array.from({ length: rankCount }, () => [])
+  ids.forEach(id => layers[rank.get(id)!].push(id))
+
+  const position = new Map<string, number>()
+  layers.forEach(layer => layer.forEach((id, i) => position.set(id, i)))
+
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const order = sweep % 2 === 0 ? layers : [...layers].reverse()
+    for (const layer of order) {
+      const bary = new Map(layer.map(id => {
+        const adjacent = neighbours.get(id)!.filter(n => rank.get(n) !== rank.get(id))
+        const value = adjacent.length
+          ? adjacent.reduce((sum, n) => sum + position.get(n)!, 0) / adjacent.length
+          : position.get(id)!
+        return [id, value]
+      }))
+
+      const groupScore = new Map<string, number>()
+      for (const key of new Set(layer.map(id => groupKey.get(id)!))) {
+        const members = layer.filter(id => groupKey.get(id) === key)
+        groupScore.set(key, members.reduce((sum, id) => sum + bary.get(id)!, 0) / members.length)
+      }
+
+      layer.sort((a, b) =>
+        groupScore.get(groupKey.get(a)!)! - groupScore.get(groupKey.get(b)!)! ||
+        groupKey.get(a)!.localeCompare(groupKey.get(b)!) ||
+        bary.get(a)! - bary.get(b)!
+      )
+      layer.forEach((id, i) => position.set(id, i))
+    }
+  }
+
+  const horizontal = model.direction === 'LR' || model.direction === 'RL'
+  // "main" runs along the ranks, "cross" across a single rank
+  const mainSize = (id: string) => horizontal ? sizes.get(id)!.width : sizes.get(id)!.height
+  const crossSize = (id: string) => horizontal ? sizes.get(id)!.height : sizes.get(id)!.width
+  const depth = Math.max(0, ...model.subgraphs.map(s => subgraphPath(model, s.id).length))
+
+  const crossOffsets = new Map<string, number>()
+  const layerExtent = layers.map(layer => {
+    let cursor = 0
+    layer.forEach((id, i) => {
+      if (i > 0) cursor += NODE_GAP + (groupKey.get(id) !== groupKey.get(layer[i - 1]) ? GROUP_GAP * depth : 0)
+      crossOffsets.set(id, cursor)
+      cursor += crossSize(id)
+    })
+    return cursor
+  })
+  const widest = Math.max(0, ...layerExtent)
+
+  const boxes = new Map<string, LayoutBox>()
+  let main = 0
+  layers.forEach((layer, r) => {
+    const thickness = Math.max(0, ...layer.map(mainSize))
+    const shift = (widest - layerExtent[r]) / 2
+    for (const id of layer) {
+      const { width, height } = sizes.get(id)!
+      const along = main + (thickness - mainSize(id)) / 2
+      const across = shift + crossOffsets.get(id)!
+      boxes.set(id, horizontal
+        ? { x: along, y: across, width, height }
+        : { x: across, y: along, width, height })
+    }
+    main += thickness + RANK_GAP + (depth ? SUBGRAPH_TITLE : 0)
+  })
+
+  // Reverse directions are mirrored versions of TB/LR
+  const totalMain = Math.max(0, main - RANK_GAP)
+  if (model.direction === 'BT' || model.direction === 'RL') {
+    boxes.forEach(box => {
+      if (horizontal) box.x = totalMain - box.x - box.width
+      else box.y = totalMain - box.y - box.height
+    })
+  }
+
+  // Containers wrap their members, deepest subgraphs first
+  const subgraphBoxes = new Map<string, LayoutBox>()
+  const byDepth = [...model.subgraphs].sort((a, b) => subgraphPath(model, b.id).length - subgraphPath(model, a.id).length)
+  for (const subgraph of byDepth) {
+    const members = [
+      ...model.nodes.filter(n => n.subgraph === subgraph.id).map(n => boxes.get(n.id)!),
+      ...model.subgraphs.filter(s => s.parent === subgraph.id).map(s => subgraphBoxes.get(s.id)!),
+    ].filter(Boolean)
+
+    if (members.length === 0) {
+      subgraphBoxes.set(subgraph.id, { x: 0, y: totalMain + RANK_GAP, width: 160, height: 80 })
+      continue
+    }
+
+    const minX = Math.min(...members.map(b => b.x)) - SUBGRAPH_PADDING
+    const minY = Math.min(...members.map(b => b.y)) - SUBGRAPH_PADDING - SUBGRAPH_TITLE
+    const maxX = Math.max(...members.map(b => b.x + b.width)) + SUBGRAPH_PADDING
+    const maxY = Math.max(...members.map(b => b.y + b.height)) + SUBGRAPH_PADDING
+    subgraphBoxes.set(subgraph.id, { x: minX, y: minY, width: maxX - minX, height: maxY - minY })
+  }
+
+  const all = [...boxes.values(), ...subgraphBoxes.values()]
+  const offsetX = MARGIN - Math.min(0, ...all.map(b => b.x))
+  const offsetY = MARGIN - Math.min(0, ...all.map(b => b.y))
+  all.forEach(box => {
+    box.x = Math.round(box.x + offsetX)
+    box.y = Math.round(box.y + offsetY)
+  })
+
+  return {
+    nodes: boxes,
+    subgraphs: subgraphBoxes,
+    width: Math.max(0, ...all.map(b => b.x + b.width)) + MARGIN,
+    height: Math.max(0, ...all.map(b => b.y + b.height)) + MARGIN,
+  }
+}
@@ -0,0 +1,138 @@
+import { buildFlowGraph } from './analyze'
+import { parseFlowchart } from './parseFlowchart'
+import type { FlowchartModel } from './types'
+
+export type OutlineStepKind = 'start' | 'step' | 'decision' | 'end'
+
+export interface OutlineBranch {
+  to: string
+  // Edge label, e.g. the answer that leads out of a decision
+  condition?: string
+}
+
+export interface OutlineStep {
+  id: string
+  // 1-based position in reading order
+  number: number
+  label: string
+  kind: OutlineStepKind
+  // Title of the innermost subgraph
+  group?: string
+  next: OutlineBranch[]
+}
+
+// Text alternative for a flowchart: every step once, in reading order, with
+// where the flow goes next
+export interface FlowOutline {
+  steps: OutlineStep[]
+  byId: Map<string, OutlineStep>
+}
+
+const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Reading order follows the flow depth-first from the start, so each branch
+// of a decision reads through before the next one begins. Steps the start
+// does not reach follow in declaration order, each with its own branch.
+export function buildOutline(model: FlowchartModel): FlowOutline {
+  const graph = buildFlowGraph(model)
+  const titles = new Map(model.subgraphs.map(subgraph => [subgraph.id, subgraph.title]))
+
+  // Invisible links only steer the layout
+  const branches = new Map<string, OutlineBranch[]>(model.nodes.map(node => [node.id, []]))
+  const addBranch = (from: string, to: string, label?: string) => {
+    const list = branches.get(from)
+    if (!list || !graph.nodes.has(to)) return
+    const condition = label ? singleLine(label) : undefined
+    if (!list.some(branch => branch.to === to && branch.condition === condition)) list.push({ to, condition })
+  }
+  for (const edge of model.edges) {
+    if (edge.stroke === 'invisible') continue
+    addBranch(edge.from, edge.to, edge.label)
+    if (edge.start !== 'none' && edge.end !== 'none') addBranch(edge.to, edge.from, edge.label)
+  }
+
+  const incoming = new Set([...branches.values()].flatMap(list => list.map(branch => branch.to)))
+  const start = model.nodes.find(node => !incoming.has(node.id))?.id ?? model.nodes[0]?.id
+
+  const order: string[] = []
+  const seen = new Set<string>()
+  const visit = (id: string) => {
+    const stack = [id]
+    while (stack.length) {
+      const current = stack.pop()!
+      if (seen.has(current)) continue
+      seen.add(current)
+      order.push(current)
+      stack.push(...branches.get(current)!.map(branch => branch.to).reverse())
+    }
+  }
+  if (start) visit(start)
+  model.nodes.forEach(node => visit(node.id))
+
+  const steps = order.map((id, i): OutlineStep => {
+    const node = graph.nodes.get(id)!
+    const next = branches.get(id)!
+    const kind: OutlineStepKind = graph.decisions.includes(id)
+      ? 'decision'
+      : !next.length && incoming.has(id)
+        ? 'end'
+        : next.length && (!incoming.has(id) || id === start)
+          ? 'start'
+          : 'step'
+    return {
+      id,
+      number: i + 1,
+      label: singleLine(node.label),
+      kind,
+      group: node.subgraph ? titles.get(node.subgraph) : undefined,
+      next,
+    }
+  })
+  return { steps, byId: new Map(steps.map(step => [step.id, step])) }
+}
+
+// Null for diagrams that are not flowcharts, or have no nodes yet
+export function outlineFromSource(source: string): FlowOutline | null {
+  try {
+    const model = parseFlowchart(source)
+    return model.nodes.length ? buildOutline(model) : null
+  } catch {
+    return null
+  }
+}
+
+const sentence = (text: string) => (/[.?!:]$/.test(text) ? text : `${text}.`)
+
+const describeBranch = (outline: FlowOutline, branch: OutlineBranch): string => {
+  const target = outline.byId.get(branch.to)!
+  return `step ${target.number}, ${target.label}`
+}
+
+const describeStep = (step: OutlineStep, total?: number) =>
+  sentence(`Step ${step.number}${total ? ` of ${total}` : ''}, ${step.kind}: ${step.label}${step.group ? ` (in ${singleLine(step.group)})` : ''}`)
+
+// What a screen reader announces for a focused diagram node
+export function describeOutlineStep(outline: FlowOutline, id: string): string | null {
+  const step = outline.byId.get(id)
+  if (!step) return null
+  const next = step.next.length
+    ? `Leads to ${step.next.map(branch => `${branch.condition ? `if ${branch.condition}, ` : ''}${describeBranch(outline, branch)}`).join('; ')}`
+    : 'No further steps'
+  return `${describeStep(step, outline.steps.length)} ${sentence(next)}`
+}
+
+// Plain text, one step per line with its branches indented below; used as
+// the exported diagrams' alt text
+export function outlineText(outline: FlowOutline): string {
+  return outline.steps
+    .flatMap(step => {
+      if (step.next.length === 1 && !step.next[0].condition) {
+        return [`${describeStep(step)} Next: step ${outline.byId.get(step.next[0].to)!.number}.`]
+      }
+      return [
+        describeStep(step),
+        ...step.next.map(branch => `  ${branch.condition ? `If ${branch.condition},` : 'Then'} ${sentence(describeBranch(outline, branch))}`),
+      ]
+    })
+    .join('\n')
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import { cleanLabel, FlowchartParseError, parseFlowchart } from './parseFlowchart'
+import type { EdgeEnd, EdgeStroke, FlowDirection, FlowEdge } from './types'
+
+const lines = (...parts: string[]) => parts.join('\n')
+
+const flowchart = (...statements: string[]) => parseFlowchart(lines('flowchart TD', ...statements))
+
+const links = (...statements: string[]) => flowchart(...statements).edges.map(({ from, to }) => `${from}->${to}`)
+
+describe('parseFlowchart header', () => {
+  it.each<[string, FlowDirection]>([
+    ['flowchart TD', 'TB'],
+    ['flowchart TB', 'TB'],
+    ['flowchart BT', 'BT'],
+    ['graph LR', 'LR'],
+    ['flowchart rl', 'RL'],
+    ['flowchart', 'TB'],
+  ])('reads "%s" as %s', (header, direction) => {
+    expect(parseFlowchart(lines(header, '  A --> B')).direction).toBe(direction)
+  })
+
+  it.each<[string, string, string, number | undefined]>([
+    ['an empty source', '  \n', 'Diagram source is empty', undefined],
+    ['another diagram type', lines('sequenceDiagram', '  Alice->>Bob: Hi'), 'Only flowchart diagrams are supported (found "sequenceDiagram")', 1],
+    ['an unknown direction', lines('%% comment', 'flowchart XY', '  A --> B'), 'Unknown flowchart direction "XY"', 2],
+  ])('rejects %s', (_, source, message, line) => {
+    expect(() => parseFlowchart(source)).toThrow(expect.objectContaining({ name: FlowchartParseError.name, message, line }))
+  })
+
+  it('skips frontmatter but keeps line numbers', () => {
+    const model = parseFlowchart(lines('---', 'title: Demo', '---', 'flowchart LR', '  A --> B'))
+    expect(model.direction).toBe('LR')
+    expect(model.nodes[0].line).toBe(5)
+  })
+})
+
+describe('parseFlowchart nodes', () => {
+  it('reads IDs with dashes, dollar signs and letters outside ASCII', () => {
+    expect(flowchart('step-1 --> $total --> Größe').nodes.map(node => node.id)).toEqual(['step-1', '$total', 'Größe'])
+  })
+
+  it('labels a bare node with its ID', () => {
+    expect(flowchart('A --> B').nodes).toEqual([
+      { id: 'A', label: 'A', shape: 'rect', line: 2, subgraph: undefined },
+      { id: 'B', label: 'B', shape: 'rect', line: 2, subgraph: undefined },
+    ])
+  })
+
+  it('lets a later declaration override the label and shape', () => {
+    const [node] = flowchart('A --> B', 'A{Decide}').nodes
+    expect(node).toMatchObject({ id: 'A', label: 'Decide', shape: 'diamond', line: 2 })
+  })
+
+  it('keeps brackets and semicolons inside quoted labels', () => {
+    const [node] = flowchart('A["Pay (by card); then [ship]"] --> B').nodes
+    expect(node.label).toBe('Pay (by card); then [ship]')
+  })
+
+  it('drops class shorthand after a node', () => {
+    expect(flowchart('A[Start]:::hot --> B:::cold').edges).toMatchObject([{ from: 'A', to: 'B' }])
+  })
+})
+
+describe('parseFlowchart edges', () => {
+  it.each<[string, EdgeStroke, EdgeEnd, EdgeEnd, string | undefined]>([
+    ['A --> B', 'normal', 'none', 'arrow', undefined],
+    ['A --- B', 'normal', 'none', 'none', undefined],
+    ['A ---> B', 'normal', 'none', 'arrow', undefined],
+    ['A -.-> B', 'dotted', 'none', 'arrow', undefined],
+    ['A -.- B', 'dotted', 'none', 'none', undefined],
+    ['A ==> B', 'thick', 'none', 'arrow', undefined],
+    ['A === B', 'thick', 'none', 'none', undefined],
+    ['A ~~~ B', 'invisible', 'none', 'none', undefined],
+    ['A --o B', 'normal', 'none', 'circle', undefined],
+    ['A --x B', 'normal', 'none', 'cross', undefined],
+    ['A <--> B', 'normal', 'arrow', 'arrow', undefined],
+    ['A -->|Yes| B', 'normal', 'none', 'arrow', 'Yes'],
+    ['A -- Yes --> B', 'normal', 'none', 'arrow', 'Yes'],
+    ['A -. maybe .-> B', 'dotted', 'none', 'arrow', 'maybe'],
+    ['A == "for sure" ==> B', 'thick', 'none', 'arrow', 'for sure'],
+    ['A -->|| B', 'normal', 'none', 'arrow', undefined],
+  ])('reads %s', (statement, stroke, start, end, label) => {
+    expect(flowchart(statement).edges).toEqual<FlowEdge[]>([{ id: 'e0', from: 'A', to: 'B', label, stroke, start, end, line: 2 }])
+  })
+
+  it('does not take a node starting with o or x for an edge end', () => {
+    expect(flowchart('A --- oB', 'A --> xC').edges.map(({ to, end }) => `${to}:${end}`)).toEqual(['oB:none', 'xC:arrow'])
+  })
+
+  it('expands chains and & groups into one edge per pair', () => {
+    expect(links('A & B --> C --> D & E')).toEqual(['A->C', 'B->C', 'C->D', 'C->E'])
+  })
+
+  it('splits statements on top-level semicolons', () => {
+    expect(flowchart('A --> B; B --> C;').edges.map(({ from, to, line }) => `${from}->${to}@${line}`)).toEqual(['A->B@2', 'B->C@2'])
+  })
+})
+
+describe('parseFlowchart statements', () => {
+  it('skips comments and styling', () => {
+    const model = flowchart(
+      '%% A --> Z',
+      'classDef hot fill:#f00',
+      'class A hot',
+      'style B stroke:#333',
+      'linkStyle 0 stroke:#f00',
+      'click A "https://example.com"',
+      'accDescr {',
+      '  A --> Y',
+      '}',
+      'A --> B',
+    )
+    expect(model.nodes.map(node => node.id)).toEqual(['A', 'B'])
+    expect(model.warnings).toEqual([])
+  })
+
+  it('nests subgraphs and records where each node was first mentioned', () => {
+    const model = flowchart(
+      'subgraph billing [Billing]',
+      '  A --> B',
+      '  subgraph Manual review',
+      '    C',
+      '  end',
+      'end',
+      'B --> C --> D',
+    )
+    expect(model.subgraphs).toEqual([
+      { id: 'billing', title: 'Billing', parent: undefined, line: 2 },
+      { id: 'Manual review', title: 'Manual review', parent: 'billing', line: 4 },
+    ])
+    expect(model.nodes.map(({ id, subgraph }) => [id, subgraph])).toEqual([
+      ['A', 'billing'],
+      ['B', 'billing'],
+      ['C', 'Manual review'],
+      ['D', undefined],
+    ])
+  })
+
+  it('does not turn edges to a subgraph into nodes', () => {
+    const model = flowchart('subgraph S [Stage]', '  A', 'end', 'B --> S')
+    expect(model.nodes.map(node => node.id)).toEqual(['A', 'B'])
+    expect(links('subgraph S [Stage]', '  A', 'end', 'B --> S')).toEqual(['B->S'])
+  })
+
+  it('drops a broken statement with the nodes it introduced and keeps the rest', () => {
+    const model = flowchart('A --> B', 'B --> C --> ', 'B --> D[Unclosed', 'B --> E')
+    expect(model.nodes.map(node => node.id)).toEqual(['A', 'B', 'E'])
+    expect(links('A --> B', 'B --> C --> ', 'B --> D[Unclosed', 'B --> E')).toEqual(['A->B', 'B->E'])
+    expect(model.warnings).toEqual([
+      { line: 3, message: 'Edge is missing its target node' },
+      { line: 4, message: 'Missing "]" after node "D"' },
+    ])
+  })
+
+  it.each<[string, string[], { line: number; message: string }]>([
+    ['an unmatched end', ['A --> B', 'end'], { line: 3, message: '"end" without a matching subgraph' }],
+    ['a missing end', ['subgraph S', '  A --> B'], { line: 3, message: 'Subgraph "S" is missing "end"' }],
+    ['an unterminated quote', ['A["Open --> B'], { line: 2, message: 'Unterminated quoted label for node "A"' }],
+    ['a stray token', ['A --> B ??'], { line: 2, message: 'Unexpected "??"' }],
+  ])('warns about %s', (_, statements, warning) => {
+    expect(flowchart(...statements).warnings).toEqual([warning])
+  })
+})
+
+describe('cleanLabel', () => {
+  it.each<[string, string]>([
+    ['  Plain  ', 'Plain'],
+    ['"Quoted (label)"', 'Quoted (label)'],
+    ['`**Markdown**`', '**Markdown**'],
+    ['First<br>Second<br/>Third<BR />', 'First\nSecond\nThird'],
+    ['Say #quot;hi#quot; #35;1', 'Say "hi" #1'],
+    ['&lt;b&gt; &quot;x&quot; &amp;amp;', '<b> "x" &amp;'],
+  ])('cleans %s', (raw, label) => {
+    expect(cleanLabel(raw)).toBe(label)
+  })
+})
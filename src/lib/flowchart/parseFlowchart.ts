@@ -0,0 +1,276 @@
+import type { EdgeEnd, EdgeStroke, FlowDirection, FlowEdge, FlowNode, FlowSubgraph, FlowchartModel, NodeShape } from './types'
+
+export class FlowchartParseError extends Error {
+  constructor(message: string, readonly line?: number) {
+    super(message)
+    this.name = 'FlowchartParseError'
+  }
+}
+
+interface Statement {
+  text: string
+  line: number
+}
+
+// Ordered so longer openers win ("((" before "(")
+const SHAPES: { open: string; close: string[]; shapes: NodeShape[] }[] = [
+  { open: '(((', close: [')))'], shapes: ['doublecircle'] },
+  { open: '((', close: ['))'], shapes: ['circle'] },
+  { open: '([', close: ['])'], shapes: ['stadium'] },
+  { open: '[[', close: [']]'], shapes: ['subroutine'] },
+  { open: '[(', close: [')]'], shapes: ['cylinder'] },
+  { open: '{{', close: ['}}'], shapes: ['hexagon'] },
+  { open: '[/', close: ['/]', '\\]'], shapes: ['parallelogram', 'trapezoid'] },
+  { open: '[\\', close: ['\\]', '/]'], shapes: ['parallelogram-alt', 'trapezoid-alt'] },
+  { open: '>', close: [']'], shapes: ['asymmetric'] },
+  { open: '[', close: [']'], shapes: ['rect'] },
+  { open: '(', close: [')'], shapes: ['rounded'] },
+  { open: '{', close: ['}'], shapes: ['diamond'] },
+]
+
+const NODE_ID = /^[\p{L}\p{N}_$]+(?:-[\p{L}\p{N}_$]+)*/u
+const PLAIN_EDGE = /^(<?)(-{2,}>|={2,}>|-\.+->|-{2,}[ox](?![\p{L}\p{N}_])|={2,}[ox](?![\p{L}\p{N}_])|-\.+-|-{3,}|={3,}|~{3,})/u
+const TEXT_EDGE = /^(<?)(--|==|-\.)(?![->=.])\s*(.*?)\s*(-{2,}>|={2,}>|\.-+>|-{3,}|={3,}|\.-+|-{2,}[ox]|={2,}[ox])/
+const EDGE_LABEL = /^\|([^|]*)\|/
+const IGNORED = /^(classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/
+
+const DIRECTIONS: Record<string, FlowDirection> = { TD: 'TB', TB: 'TB', BT: 'BT', LR: 'LR', RL: 'RL' }
+
+export const cleanLabel = (raw: string): string =>
+  raw
+    .trim()
+    .replace(/^"(.*)"$/s, '$1')
+    .replace(/^`(.*)`$/s, '$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim()
+
+// Splits the source into statements on newlines and top-level semicolons,
+// leaving semicolons inside quotes or node brackets alone.
+const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = []
+  // Multi-line accDescr { ... } blocks hold free text, not statements
+  let inDescription = false
+  source.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1
+    if (inDescription) {
+      inDescription = !rawLine.includes('}')
+      return
+    }
+    if (/^\s*accDescr\s*\{/.test(rawLine)) {
+      inDescription = !rawLine.includes('}')
+      return
+    }
+    if (rawLine.trim().startsWith('%%')) return
+
+    let current = ''
+    let depth = 0
+    let inQuotes = false
+    for (const char of rawLine) {
+      if (char === '"') inQuotes = !inQuotes
+      else if (!inQuotes && '[({'.includes(char)) depth++
+      else if (!inQuotes && '])}'.includes(char)) depth = Math.max(0, depth - 1)
+
+      if (char === ';' && !inQuotes && depth === 0) {
+        if (current.trim()) statements.push({ text: current.trim(), line })
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    if (current.trim()) statements.push({ text: current.trim(), line })
+  })
+  return statements
+}
+
+const stripFrontmatter = (source: string): string => {
+  const match = source.match(/^\s*---\r?\n[\s\S]*?\r?\n---\s*\r?\n/)
+  // Keep the line count intact so reported line numbers match the editor
+  return match ? match[0].replace(/[^\n]/g, '') + source.slice(match[0].length) : source
+}
+
+const edgeStyle = (token: string): { stroke: EdgeStroke; end: EdgeEnd } => {
+  const stroke: EdgeStroke = token.includes('~') ? 'invisible' : token.includes('=') ? 'thick' : token.includes('.') ? 'dotted' : 'normal'
+  const last = token[token.length - 1]
+  const end: EdgeEnd = last === '>' ? 'arrow' : last === 'o' ? 'circle' : last === 'x' ? 'cross' : 'none'
+  return { stroke, end }
+}
+
+export function parseFlowchart(source: string): FlowchartModel {
+  const statements = splitStatements(stripFrontmatter(source))
+  const header = statements.shift()
+  const headerMatch = header?.text.match(/^(flowchart|graph)(?:\s+(\w+))?$/i)
+
+  if (!header || !headerMatch) {
+    const found = header?.text.split(/\s+/)[0]
+    throw new FlowchartParseError(
+      found ? `Only flowchart diagrams are supported (found "${found}")` : 'Diagram source is empty',
+      header?.line,
+    )
+  }
+
+  const direction = DIRECTIONS[(headerMatch[2] ?? 'TB').toUpperCase()]
+  if (!direction) {
+    throw new FlowchartParseError(`Unknown flowchart direction "${headerMatch[2]}"`, header.line)
+  }
+
+  const nodes = new Map<string, FlowNode>()
+  const explicitNodes = new Set<string>()
+  const edges: FlowEdge[] = []
+  const subgraphs: FlowSubgraph[] = []
+  const subgraphStack: string[] = []
+  const warnings: FlowchartModel['warnings'] = []
+  // Nodes first seen in the current statement, dropped again if it fails to parse
+  let createdInStatement: string[] = []
+
+  const touchNode = (id: string, line: number, shape?: { label: string; shape: NodeShape }) => {
+    let node = nodes.get(id)
+    if (!node) {
+      node = { id, label: id, shape: 'rect', line, subgraph: subgraphStack[subgraphStack.length - 1] }
+      nodes.set(id, node)
+      createdInStatement.push(id)
+    }
+    if (shape) {
+      // Mermaid lets a later declaration override the label and shape
+      node.label = shape.label
+      node.shape = shape.shape
+      explicitNodes.add(id)
+    }
+    return id
+  }
+
+  const parseChain = (text: string, line: number) => {
+    let rest = text
+
+    const readNode = (): string | null => {
+      const idMatch = rest.match(NODE_ID)
+      if (!idMatch) return null
+      const id = idMatch[0]
+      rest = rest.slice(id.length)
+
+      let shape: { label: string; shape: NodeShape } | undefined
+      const spec = SHAPES.find(s => rest.startsWith(s.open))
+      if (spec) {
+        let body = rest.slice(spec.open.length)
+        let label = ''
+        if (body.trimStart().startsWith('"')) {
+          const start = body.indexOf('"')
+          const end = body.indexOf('"', start + 1)
+          if (end === -1) throw new FlowchartParseError(`Unterminated quoted label for node "${id}"`, line)
+          label = body.slice(start, end + 1)
+          body = body.slice(end + 1).trimStart()
+        }
+
+        const closers = spec.close
+          .map((close, index) => ({ close, index, at: body.indexOf(close) }))
+          .filter(c => c.at !== -1)
+          .sort((a, b) => a.at - b.at)
+        const closer = closers[0]
+        if (!closer) throw new FlowchartParseError(`Missing "${spec.close[0]}" after node "${id}"`, line)
+
+        label += body.slice(0, closer.at)
+        shape = { label: cleanLabel(label), shape: spec.shapes[closer.index] }
+        rest = body.slice(closer.at + closer.close.length)
+      }
+
+      rest = rest.replace(/^:::[\w-]+/, '')
+      return touchNode(id, line, shape)
+    }
+
+    const readGroup = (): string[] | null => {
+      const group: string[] = []
+      while (true) {
+        rest = rest.trimStart()
+        const id = readNode()
+        if (!id) return group.length ? group : null
+        group.push(id)
+        rest = rest.trimStart()
+        if (!rest.startsWith('&')) return group
+        rest = rest.slice(1)
+      }
+    }
+
+    let previous = readGroup()
+    if (!previous) throw new FlowchartParseError(`Expected a node at "${text}"`, line)
+
+    while (rest.trim()) {
+      rest = rest.trimStart()
+      let token: string
+      let start: EdgeEnd = 'none'
+      let label: string | undefined
+
+      const plain = rest.match(PLAIN_EDGE)
+      const withText = plain ? null : rest.match(TEXT_EDGE)
+      if (plain) {
+        start = plain[1] ? 'arrow' : 'none'
+        token = plain[2]
+        rest = rest.slice(plain[0].length).trimStart()
+        const pipe = rest.match(EDGE_LABEL)
+        if (pipe) {
+          label = cleanLabel(pipe[1])
+          rest = rest.slice(pipe[0].length)
+        }
+      } else if (withText) {
+        start = withText[1] ? 'arrow' : 'none'
+        token = withText[2] + withText[4]
+        label = cleanLabel(withText[3])
+        rest = rest.slice(withText[0].length)
+      } else {
+        throw new FlowchartParseError(`Unexpected "${rest}"`, line)
+      }
+
+      const targets = readGroup()
+      if (!targets) throw new FlowchartParseError(`Edge is missing its target node`, line)
+
+      const { stroke, end } = edgeStyle(token)
+      for (const from of previous) {
+        for (const to of targets) {
+          edges.push({ id: `e${edges.length}`, from, to, label: label || undefined, stroke, start, end, line })
+        }
+      }
+      previous = targets
+    }
+  }
+
+  for (const { text, line } of statements) {
+    if (/^subgraph\b/.test(text)) {
+      const rest = text.slice('subgraph'.length).trim()
+      const bracketed = rest.match(/^([^\s[]+)\s*\[\s*(.*?)\s*\]$/)
+      const id = bracketed ? bracketed[1] : cleanLabel(rest) || `subgraph${subgraphs.length}`
+      const title = bracketed ? cleanLabel(bracketed[2]) : cleanLabel(rest) || id
+      subgraphs.push({ id, title, parent: subgraphStack[subgraphStack.length - 1], line })
+      subgraphStack.push(id)
+    } else if (text === 'end') {
+      if (!subgraphStack.pop()) warnings.push({ line, message: '"end" without a matching subgraph' })
+    } else if (IGNORED.test(text)) {
+      continue
+    } else {
+      const edgeCount = edges.length
+      createdInStatement = []
+      try {
+        parseChain(text, line)
+      } catch (error) {
+        if (!(error instanceof FlowchartParseError)) throw error
+        warnings.push({ line, message: error.message })
+        edges.length = edgeCount
+        createdInStatement.forEach(id => nodes.delete(id))
+      }
+    }
+  }
+
+  const lastLine = statements[statements.length - 1]?.line ?? header.line
+  subgraphStack.forEach(id => warnings.push({ line: lastLine, message: `Subgraph "${id}" is missing "end"` }))
+
+  // Edges may target a subgraph by ID; those references are not real nodes
+  const subgraphIds = new Set(subgraphs.map(s => s.id))
+  for (const id of subgraphIds) {
+    if (!explicitNodes.has(id)) nodes.delete(id)
+  }
+
+  return { direction, nodes: [...nodes.values()], edges, subgraphs, warnings }
+}
@@ -0,0 +1,58 @@
+export type FlowDirection = 'TB' | 'BT' | 'LR' | 'RL'
+
+export type NodeShape =
+  | 'rect'
+  | 'rounded'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'doublecircle'
+  | 'asymmetric'
+  | 'diamond'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'parallelogram-alt'
+  | 'trapezoid'
+  | 'trapezoid-alt'
+
+export type EdgeStroke = 'normal' | 'dotted' | 'thick' | 'invisible'
+
+export type EdgeEnd = 'none' | 'arrow' | 'circle' | 'cross'
+
+export interface FlowNode {
+  id: string
+  label: string
+  shape: NodeShape
+  // Innermost subgraph the node was first mentioned in
+  subgraph?: string
+  // 1-based source line of the first mention
+  line: number
+}
+
+export interface FlowEdge {
+  id: string
+  from: string
+  to: string
+  label?: string
+  stroke: EdgeStroke
+  start: EdgeEnd
+  end: EdgeEnd
+  line: number
+}
+
+export interface FlowSubgraph {
+  id: string
+  title: string
+  parent?: string
+  line: number
+}
+
+export interface FlowchartModel {
+  direction: FlowDirection
+  nodes: FlowNode[]
+  edges: FlowEdge[]
+  subgraphs: FlowSubgraph[]
+  // Statements the parser skipped; the rest of the model is still usable
+  warnings: { line: number; message: string }[]
+}
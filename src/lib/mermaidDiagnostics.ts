@@ -0,0 +1,42 @@
+import { mermaid } from './safeMermaid'
+
+export interface MermaidDiagnostic {
+  message: string
+  // 1-based; absent when mermaid does not report a position
+  line?: number
+  column?: number
+}
+
+interface ParserErrorHash {
+  loc?: { first_line: number; first_column: number }
+  line?: number
+}
+
+// Jison-based grammars (flowchart, sequence, ...) attach a `hash` with the
+// location; newer langium grammars only mention it in the message text.
+const locate = (error: unknown): Pick<MermaidDiagnostic, 'line' | 'column'> => {
+  const hash = (error as { hash?: ParserErrorHash } | null)?.hash
+  if (hash?.loc) {
+    return { line: hash.loc.first_line, column: hash.loc.first_column + 1 }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const match = message.match(/line:?\s*(\d+)(?:[,:]?\s*column:?\s*(\d+))?/i)
+  if (!match) return {}
+  return { line: Number(match[1]), column: match[2] ? Number(match[2]) : undefined }
+}
+
+// Returns null when the source parses, otherwise the first syntax error
+export async function diagnoseMermaid(source: string): Promise<MermaidDiagnostic | null> {
+  if (!source.trim()) {
+    return { message: 'Diagram source is empty' }
+  }
+
+  try {
+    await mermaid.parse(source)
+    return null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { message, ...locate(error) }
+  }
+}
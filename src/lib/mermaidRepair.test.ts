@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+// mermaid's parser sanitizes labels with DOMPurify, which needs a DOM
+import { describe, expect, it } from 'vitest'
+import { MOCK_FIXTURES } from '../services/providers/mockFixtures'
+import { applyFixers, MERMAID_FIXERS, repairMermaid } from './mermaidRepair'
+
+const fixer = (name: string) => {
+  const found = MERMAID_FIXERS.find(candidate => candidate.name === name)
+  if (!found) throw new Error(`No fixer named ${name}`)
+  return found
+}
+
+const lines = (...parts: string[]) => parts.join('\n')
+
+const FENCE = '```'
+
+describe('strip-code-fence', () => {
+  const { apply } = fixer('strip-code-fence')
+
+  it.each([
+    ['a mermaid fence', lines(`${FENCE}mermaid`, 'flowchart TD', '  A --> B', FENCE)],
+    ['a fence with prose around it', lines('Here is the diagram:', '', `${FENCE}mermaid`, 'flowchart TD', '  A --> B', FENCE, '', 'Hope it helps!')],
+    ['a bare fence', lines(FENCE, 'flowchart TD', '  A --> B', FENCE)],
+    ['a tilde fence', lines('~~~mermaid', 'flowchart TD', '  A --> B', '~~~')],
+    ['an unclosed fence', lines(`${FENCE}mermaid`, 'flowchart TD', '  A --> B')],
+  ])('removes %s', (_, source) => {
+    expect(apply(source)).toBe(lines('flowchart TD', '  A --> B'))
+  })
+
+  it('leaves unfenced source alone', () => {
+    const source = lines('flowchart TD', '  A["Use `code` here"] --> B')
+    expect(apply(source)).toBe(source)
+  })
+})
+
+describe('smart-quotes', () => {
+  const { apply } = fixer('smart-quotes')
+
+  it('replaces typographic quotes', () => {
+    expect(apply('  A[“Approve” the ‘draft’] --> B[„Done‟]')).toBe(`  A["Approve" the 'draft'] --> B["Done"]`)
+  })
+
+  it('leaves plain quotes alone', () => {
+    const source = `  A["Approve" the 'draft'] --> B`
+    expect(apply(source)).toBe(source)
+  })
+})
+
+describe('stray-semicolons', () => {
+  const { apply } = fixer('stray-semicolons')
+
+  it.each([
+    ['after an edge label', lines('flowchart TD', '  B -->|Yes|; C'), lines('flowchart TD', '  B -->|Yes| C')],
+    ['after an arrow', lines('flowchart TD', '  A -->; B'), lines('flowchart TD', '  A --> B')],
+    ['before an arrow', lines('flowchart TD', '  A; --> B'), lines('flowchart TD', '  A --> B')],
+    ['around &', lines('flowchart TD', '  A; & B --> C'), lines('flowchart TD', '  A & B --> C')],
+  ])('removes a semicolon %s', (_, source, expected) => {
+    expect(apply(source)).toBe(expected)
+  })
+
+  it('keeps semicolons that end statements', () => {
+    const source = lines('flowchart TD;', '  A --> B;', '  B --> C;', '  style A fill:#f9f;')
+    expect(apply(source)).toBe(source)
+  })
+})
+
+describe('quote-labels', () => {
+  const { apply } = fixer('quote-labels')
+
+  it.each([
+    ['brackets', '  A[Receive invoice (PDF)] --> B', '  A["Receive invoice (PDF)"] --> B'],
+    ['a colon in a decision', '  A --> B{Amount: high?}', '  A --> B{"Amount: high?"}'],
+    ['a quote', '  A[Say "hi"] --> B', '  A["Say #quot;hi#quot;"] --> B'],
+    ['an edge label', '  A -->|Yes (fast)| B', '  A -->|"Yes (fast)"| B'],
+    ['nested brackets', '  A[Invoice (PDF) [draft]] --> B', '  A["Invoice (PDF) [draft]"] --> B'],
+  ])('quotes a label with %s', (_, line, expected) => {
+    expect(apply(lines('flowchart TD', line))).toBe(lines('flowchart TD', expected))
+  })
+
+  it.each([
+    ['plain and quoted labels', lines('flowchart TD', '  A[Plain label] --> B["Already (quoted)"]')],
+    ['other diagram types', lines('sequenceDiagram', '  Alice->>Bob: Hi (there)')],
+    ['styling lines', lines('flowchart TD', '  A --> B', '  classDef hot fill:#f00,stroke:#300')],
+  ])('leaves %s alone', (_, source) => {
+    expect(apply(source)).toBe(source)
+  })
+})
+
+describe('reserved-ids', () => {
+  const { apply } = fixer('reserved-ids')
+
+  it('renames keyword IDs, including in styling statements', () => {
+    expect(apply(lines('flowchart TD', '  A --> end[Done]', '  end --> B', '  style end fill:#f9f'))).toBe(
+      lines('flowchart TD', '  A --> endNode[Done]', '  endNode --> B', '  style endNode fill:#f9f'),
+    )
+  })
+
+  it('picks a name that is not taken', () => {
+    expect(apply(lines('flowchart TD', '  endNode --> end'))).toBe(lines('flowchart TD', '  endNode --> endNode2'))
+  })
+
+  it('leaves subgraph ends and other IDs alone', () => {
+    const source = lines('flowchart TD', '  subgraph S[Stage]', '    A --> ending[End]', '  end')
+    expect(apply(source)).toBe(source)
+  })
+})
+
+describe('applyFixers', () => {
+  it('reports only the fixers that changed the source', () => {
+    const { source, applied } = applyFixers(lines(`${FENCE}mermaid`, 'flowchart TD', '  A --> end', FENCE))
+    expect(source).toBe(lines('flowchart TD', '  A --> endNode'))
+    expect(applied.map(({ name }) => name)).toEqual(['strip-code-fence', 'reserved-ids'])
+  })
+})
+
+describe('repairMermaid', () => {
+  const { frames } = MOCK_FIXTURES['broken-syntax']
+  const brokenSyntax = frames[frames.length - 1]
+  const brokenSource = 'outputs' in brokenSyntax ? String(brokenSyntax.outputs?.mermaid) : ''
+
+  it('repairs the broken-syntax fixture with every fixer', async () => {
+    const result = await repairMermaid(brokenSource)
+    expect(result.diagnostic).toBeNull()
+    expect(result.applied.map(({ name }) => name)).toEqual(MERMAID_FIXERS.map(({ name }) => name))
+    expect(result.source).toBe(lines(
+      'flowchart TD',
+      '    A["Receive invoice (PDF)"] --> B{Amount > 10k?}',
+      '    B -->|Yes| C["CFO approval: #quot;required#quot;"]',
+      '    B -->|No| endNode[Pay invoice]',
+    ))
+  })
+
+  it('returns source that parses untouched', async () => {
+    const source = lines('flowchart TD', '  A[Start] --> B[Stop];')
+    expect(await repairMermaid(source)).toEqual({ source, applied: [], diagnostic: null })
+  })
+
+  it('falls back to the original source when the repairs are not enough', async () => {
+    const source = lines(`${FENCE}mermaid`, 'flowchart TD', '  A --> B -->', FENCE)
+    const result = await repairMermaid(source)
+    expect(result.source).toBe(source)
+    expect(result.applied).toEqual([])
+    expect(result.diagnostic?.message).toBeTruthy()
+  })
+})
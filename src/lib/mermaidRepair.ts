@@ -0,0 +1,227 @@
+import { diagnoseMermaid, type MermaidDiagnostic } from './mermaidDiagnostics'
+
+export interface MermaidFixer {
+  name: string
+  // Shown next to the diagram when the fixer changed the source
+  description: string
+  apply: (source: string) => string
+}
+
+export interface RepairResult {
+  // The repaired source, or the original when it parsed as-is or the repairs
+  // were not enough
+  source: string
+  // Fixers that changed the source, in the order they ran
+  applied: MermaidFixer[]
+  // Syntax error of the original source when it still does not parse
+  diagnostic: MermaidDiagnostic | null
+}
+
+interface Span {
+  start: number
+  end: number
+}
+
+// Flowchart keywords that break the parser when used as lowercase node IDs
+const RESERVED_IDS = new Set(['end', 'graph', 'subgraph', 'style', 'class', 'click'])
+
+const NODE_ID = /[\p{L}\p{N}_$]+(?:-[\p{L}\p{N}_$]+)*/uy
+const TEXT_EDGE = /(--|==|-\.)(?![->=.])\s*.*?\s*(-{2,}>|={2,}>|\.-+>|-{3,}|={3,}|\.-+|-{2,}[ox]|={2,}[ox])/y
+const CLASS_SUFFIX = /:::[\w-]+/y
+
+// Longest openers first; labels run until the matching bracket
+const SHAPE_OPENERS = ['(((', '((', '([', '[[', '[(', '{{', '[/', '[\\', '[', '(', '{', '>']
+const CLOSING: Record<string, string> = { '[': ']', '(': ')', '{': '}', '>': ']' }
+
+// Statement lines that hold no node definitions
+const NON_NODE_LINE = /^\s*(?:$|%%|(?:flowchart|graph)\b(?!\s*[-=.&])|(?:classDef|style|linkStyle|click|class|direction|accTitle|accDescr)\s+[^-=.&\s]|end\s*;?\s*$)/
+const SUBGRAPH_LINE = /^(\s*subgraph\s+[\p{L}\p{N}_$-]+\s*)/u
+const REFERENCE_LINE = /^(\s*(?:style|click|class)\s+)([^\s]+)/
+
+const FRONTMATTER = /^(\s*---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$))?([\s\S]*)$/
+const FLOWCHART_HEADER = /^(?:\s*%%[^\n]*\n)*\s*(?:flowchart|graph)\b/
+
+const skipQuoted = (line: string, i: number): number => {
+  const close = line.indexOf('"', i + 1)
+  return close === -1 ? line.length : close + 1
+}
+
+// Finds the label of a node shape starting at `i`, counting nested brackets
+// of the opener's kind so "A[Invoice (PDF) [draft]]" yields the whole text
+const scanShape = (line: string, i: number): (Span & { next: number }) | null => {
+  const opener = SHAPE_OPENERS.find(open => line.startsWith(open, i))
+  if (!opener) return null
+
+  const open = opener[0] === '>' ? '[' : opener[0]
+  const close = CLOSING[opener[0]]
+  let depth = opener === '>' ? 1 : [...opener].filter(char => char === open).length
+  let j = i + opener.length
+  while (j < line.length) {
+    if (line[j] === '"') {
+      j = skipQuoted(line, j)
+      continue
+    }
+    if (line[j] === open) depth++
+    if (line[j] === close && --depth === 0) {
+      return { start: i + opener.length, end: j - (opener.length - 1), next: j + 1 }
+    }
+    j++
+  }
+  return null
+}
+
+// Rough tokenizer for one flowchart line: node IDs plus node and edge label
+// text. Quoted strings and text on `-- text -->` edges are skipped. This only
+// needs to be good enough to repair a line; parseFlowchart does real parsing.
+const scanLine = (line: string): { ids: Span[]; labels: Span[] } => {
+  const ids: Span[] = []
+  const labels: Span[] = []
+  if (NON_NODE_LINE.test(line)) return { ids, labels }
+
+  let i = 0
+  const subgraph = line.match(SUBGRAPH_LINE)
+  if (subgraph) {
+    const shape = scanShape(line, subgraph[1].length)
+    if (shape) labels.push(shape)
+    return { ids, labels }
+  }
+
+  while (i < line.length) {
+    if (line.startsWith('%%', i)) break
+    if (line[i] === '"') {
+      i = skipQuoted(line, i)
+      continue
+    }
+    if (line[i] === '|') {
+      const close = line.indexOf('|', i + 1)
+      if (close === -1) break
+      labels.push({ start: i + 1, end: close })
+      i = close + 1
+      continue
+    }
+
+    for (const pattern of [TEXT_EDGE, CLASS_SUFFIX]) pattern.lastIndex = i
+    const skipped = TEXT_EDGE.exec(line) ?? CLASS_SUFFIX.exec(line)
+    if (skipped) {
+      i += skipped[0].length
+      continue
+    }
+
+    NODE_ID.lastIndex = i
+    const id = NODE_ID.exec(line)
+    if (!id) {
+      i++
+      continue
+    }
+    ids.push({ start: i, end: i + id[0].length })
+    i += id[0].length
+    const shape = scanShape(line, i)
+    if (shape) {
+      labels.push(shape)
+      i = shape.next
+    }
+  }
+  return { ids, labels }
+}
+
+// Replaces spans right to left so earlier offsets stay valid
+const replaceSpans = (line: string, spans: Span[], replace: (text: string) => string): string =>
+  [...spans]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, span) => result.slice(0, span.start) + replace(result.slice(span.start, span.end)) + result.slice(span.end), line)
+
+// Applies `fix` to each line of a flowchart body; other diagram types and
+// YAML frontmatter pass through untouched
+const mapFlowchartLines = (source: string, fix: (line: string) => string): string => {
+  const [, frontmatter = '', body] = source.match(FRONTMATTER)!
+  if (!FLOWCHART_HEADER.test(body)) return source
+  return frontmatter + body.split('\n').map(fix).join('\n')
+}
+
+const stripCodeFence = (source: string): string => {
+  const fenced =
+    source.match(/(`{3,}|~{3,})[ \t]*mermaid\b[^\n]*\n([\s\S]*?)(?:\n[ \t]*\1[ \t]*(?=\n|$)|$)/i) ??
+    source.match(/^\s*(`{3,}|~{3,})[ \t]*\n([\s\S]*?)(?:\n[ \t]*\1\s*$|$)/)
+  return fenced ? fenced[2] : source
+}
+
+const normalizeSmartQuotes = (source: string): string =>
+  source.replace(/[“”„‟″]/g, '"').replace(/[‘’‚‛′]/g, "'")
+
+// Quoted labels may contain anything except a double quote, which mermaid
+// spells #quot;
+const quoteLabel = (text: string): string => {
+  const trimmed = text.trim()
+  if (!trimmed || /^".*"$/s.test(trimmed) || !/[()[\]{}|":;]/.test(trimmed)) return text
+  return `"${trimmed.replace(/"/g, '#quot;')}"`
+}
+
+const quoteLabels = (source: string): string =>
+  mapFlowchartLines(source, line => replaceSpans(line, scanLine(line).labels, quoteLabel))
+
+const renameReservedIds = (source: string): string => {
+  const used = new Set(source.match(/[\p{L}\p{N}_$]+/gu))
+  const renames = new Map<string, string>()
+  const rename = (id: string) => {
+    if (!RESERVED_IDS.has(id)) return id
+    if (!renames.has(id)) {
+      let candidate = `${id}Node`
+      for (let n = 2; used.has(candidate); n++) candidate = `${id}Node${n}`
+      used.add(candidate)
+      renames.set(id, candidate)
+    }
+    return renames.get(id)!
+  }
+
+  const renamed = mapFlowchartLines(source, line => replaceSpans(line, scanLine(line).ids, rename))
+  if (!renames.size) return source
+  // Styling statements refer to nodes by ID too
+  return mapFlowchartLines(renamed, line =>
+    line.replace(REFERENCE_LINE, (_, keyword: string, refs: string) =>
+      keyword + refs.split(',').map(ref => renames.get(ref) ?? ref).join(',')))
+}
+
+// A `;` ends a statement, so one right before or after an edge operator or
+// `&` splits the statement in two
+const removeStraySemicolons = (source: string): string =>
+  mapFlowchartLines(source, line =>
+    NON_NODE_LINE.test(line)
+      ? line
+      : line
+          .replace(/\s*;+\s*(?=<?(?:-{2,}|={2,}|-\.|~{3,}|&))/g, ' ')
+          .replace(/((?:-{2,}>|={2,}>|\.-+>|-{3,}|={3,}|-{2,}[ox]|&)\s*(?:\|[^|]*\|\s*)?);+\s*/g, '$1 '))
+
+// Ordered: the fence and smart quotes are dealt with before labels are
+// scanned, so “quoted” labels end up properly quoted
+export const MERMAID_FIXERS: MermaidFixer[] = [
+  { name: 'strip-code-fence', description: 'Removed the Markdown code fence around the diagram', apply: stripCodeFence },
+  { name: 'smart-quotes', description: 'Replaced typographic quotes with plain quotes', apply: normalizeSmartQuotes },
+  { name: 'stray-semicolons', description: 'Removed semicolons that split an edge', apply: removeStraySemicolons },
+  { name: 'quote-labels', description: 'Quoted labels containing brackets, quotes, pipes, colons or semicolons', apply: quoteLabels },
+  { name: 'reserved-ids', description: 'Renamed node IDs that are mermaid keywords (such as "end")', apply: renameReservedIds },
+]
+
+// Runs every fixer in order and reports the ones that changed the source
+export function applyFixers(source: string, fixers: MermaidFixer[] = MERMAID_FIXERS): Pick<RepairResult, 'source' | 'applied'> {
+  return fixers.reduce<Pick<RepairResult, 'source' | 'applied'>>(
+    (result, fixer) => {
+      const fixed = fixer.apply(result.source)
+      return fixed === result.source ? result : { source: fixed, applied: [...result.applied, fixer] }
+    },
+    { source, applied: [] },
+  )
+}
+
+// Sources that parse are returned untouched. Otherwise the fixers run, and the
+// repaired source is used only if it parses; if not, the original source and
+// its error are returned so the user sees what the agent actually produced.
+export async function repairMermaid(source: string): Promise<RepairResult> {
+  const diagnostic = await diagnoseMermaid(source)
+  if (!diagnostic) return { source, applied: [], diagnostic: null }
+
+  const repaired = applyFixers(source)
+  if (repaired.applied.length && !(await diagnoseMermaid(repaired.source))) {
+    return { ...repaired, diagnostic: null }
+  }
+  return { source, applied: [], diagnostic }
+}
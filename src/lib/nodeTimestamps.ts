@@ -0,0 +1,93 @@
+import { parseTimestamp } from './youtube'
+
+// Where in the source video a diagram node is discussed, in seconds
+export interface NodeTimestamp {
+  start: number
+  end?: number
+}
+
+// Keyed by mermaid node ID (the `A` in `A[Label]`)
+export type NodeTimestamps = Record<string, NodeTimestamp>
+
+export interface TimedSegment extends NodeTimestamp {
+  nodeId: string
+  end: number
+}
+
+const toSeconds = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null
+  if (typeof value === 'string') return parseTimestamp(value)
+  return null
+}
+
+const toTimestamp = (value: unknown): NodeTimestamp | null => {
+  const direct = toSeconds(value)
+  if (direct !== null) return { start: direct }
+  if (!value || typeof value !== 'object') return null
+
+  const { start, end } = value as { start?: unknown; end?: unknown }
+  const startSeconds = toSeconds(start)
+  if (startSeconds === null) return null
+  const endSeconds = toSeconds(end)
+  return endSeconds !== null && endSeconds > startSeconds ? { start: startSeconds, end: endSeconds } : { start: startSeconds }
+}
+
+// Accepts what agents tend to emit: a map of node ID to seconds, "m:ss" or
+// {start, end}; or a list of {nodeId|id, start, end}; either possibly as a
+// JSON string. Malformed entries are skipped; returns undefined if none remain.
+export function parseNodeTimestamps(raw: unknown): NodeTimestamps | undefined {
+  let value = raw
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }
+  if (!value || typeof value !== 'object') return undefined
+
+  const entries = Array.isArray(value)
+    ? value.map(item => [(item as { nodeId?: unknown; id?: unknown })?.nodeId ?? (item as { id?: unknown })?.id, item] as const)
+    : Object.entries(value)
+
+  const timestamps: NodeTimestamps = {}
+  for (const [nodeId, entry] of entries) {
+    const timestamp = typeof nodeId === 'string' && nodeId ? toTimestamp(entry) : null
+    if (timestamp) timestamps[nodeId as string] = timestamp
+  }
+  return Object.keys(timestamps).length ? timestamps : undefined
+}
+
+// Segments in playback order. A node without an explicit end runs until the
+// next node starts.
+export function timedSegments(timestamps: NodeTimestamps): TimedSegment[] {
+  const sorted = Object.entries(timestamps)
+    .map(([nodeId, timestamp]) => ({ nodeId, ...timestamp }))
+    .sort((a, b) => a.start - b.start)
+  return sorted.map((segment, i) => ({
+    ...segment,
+    end: segment.end ?? sorted[i + 1]?.start ?? Infinity,
+  }))
+}
+
+// The latest-starting segment that covers the given time
+export function nodeAt(segments: TimedSegment[], seconds: number): string | null {
+  let active: string | null = null
+  for (const segment of segments) {
+    if (segment.start > seconds) break
+    if (seconds < segment.end) active = segment.nodeId
+  }
+  return active
+}
+
+// Flowchart nodes render as <g class="node" id="flowchart-<nodeId>-<n>">
+export function mermaidNodeId(element: Element): string | null {
+  return element.id.match(/(?:^|-)flowchart-(.+)-\d+$/)?.[1] ?? null
+}
+
+// Flowchart edges render as <path id="L_<from>_<to>_<n>">; IDs may contain
+// underscores themselves, so the ends are matched rather than parsed out
+export function isMermaidEdge(element: Element, from: string, to: string): boolean {
+  const prefix = `L_${from}_${to}_`
+  return element.id.startsWith(prefix) && /^\d+$/.test(element.id.slice(prefix.length))
+}
\ No newline at end of file
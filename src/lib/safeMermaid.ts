@@ -0,0 +1,39 @@
+import mermaid from 'mermaid'
+import DOMPurify from 'dompurify'
+
+// Diagram sources come from the agent (or from a shared link), so they are
+// treated as untrusted. Everything in the app renders through this module
+// instead of importing mermaid directly.
+
+mermaid.initialize({
+  startOnLoad: false,
+  // No click callbacks, no HTML tags in labels beyond mermaid's own sanitizing
+  securityLevel: 'strict',
+  // Keys an %%{init}%% directive in the source may not override. The first
+  // six are mermaid's defaults; themeCSS and dompurifyConfig would otherwise
+  // let a diagram inject arbitrary CSS or loosen label sanitizing.
+  secure: ['secure', 'securityLevel', 'startOnLoad', 'maxTextSize', 'suppressErrorRendering', 'maxEdges', 'themeCSS', 'dompurifyConfig'],
+})
+
+// Second line of defence on mermaid's output before it reaches the DOM:
+// drops scripts, event handlers, javascript: links and embedded frames.
+// HTML labels live inside <foreignObject>, so it is allowed as an HTML
+// integration point; its content is sanitized like any other HTML. The
+// result is serialized as XML so callers can keep parsing it as SVG; literal
+// xmlns attributes are dropped first because the serializer declares the
+// namespaces itself and would otherwise repeat them.
+export function sanitizeSvg(svg: string): string {
+  const fragment = DOMPurify.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true, html: true },
+    ADD_TAGS: ['foreignObject'],
+    HTML_INTEGRATION_POINTS: { foreignobject: true },
+    RETURN_DOM_FRAGMENT: true,
+  })
+  const root = fragment.querySelector('svg')
+  if (!root) throw new Error('Mermaid did not produce an SVG')
+  root.querySelectorAll('[xmlns]').forEach(el => el.removeAttribute('xmlns'))
+  root.removeAttribute('xmlns')
+  return new XMLSerializer().serializeToString(root)
+}
+
+export { mermaid }
\ No newline at end of file
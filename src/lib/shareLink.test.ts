@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { deflateSync, strToU8 } from 'fflate'
+import { decodeShareFragment, encodeShareFragment, SHARE_PATH, shareUrl, type SharedDiagram } from './shareLink'
+
+const DIAGRAM: SharedDiagram = {
+  mermaid: 'flowchart TD\n    A["Größe prüfen"] --> B{OK?}\n    B -->|Ja| C([Fertig ✓])',
+  description: '## Steps\n- Check the size\n- Ship it 🚚',
+  origin: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+}
+
+// Builds fragments the way older or newer app versions might have
+const fragmentOf = (payload: unknown) =>
+  btoa(String.fromCharCode(...deflateSync(strToU8(JSON.stringify(payload)))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+describe('share fragments', () => {
+  it.each<[string, SharedDiagram]>([
+    ['every field', DIAGRAM],
+    ['no origin', { mermaid: DIAGRAM.mermaid, description: DIAGRAM.description }],
+    ['no description', { mermaid: DIAGRAM.mermaid, description: '' }],
+  ])('round-trip a diagram with %s', (_, diagram) => {
+    const fragment = encodeShareFragment(diagram)
+    expect(fragment).toMatch(/^[\w-]+$/)
+    expect(decodeShareFragment(fragment)).toEqual(diagram)
+    expect(decodeShareFragment(`#${fragment}`)).toEqual(diagram)
+  })
+
+  it('drops malformed optional fields', () => {
+    expect(decodeShareFragment(fragmentOf({ v: 1, m: 'flowchart TD', d: 42, o: ['x'] }))).toEqual({
+      mermaid: 'flowchart TD',
+      description: '',
+    })
+  })
+
+  const fragment = encodeShareFragment(DIAGRAM)
+
+  it.each<[string, string]>([
+    ['a truncated fragment', fragment.slice(0, Math.floor(fragment.length / 2))],
+    ['a fragment missing its last character', fragment.slice(0, -1)],
+    ['a garbled fragment', `${fragment.slice(0, 10)}${fragment.slice(10, 30).split('').reverse().join('')}${fragment.slice(30)}`],
+    ['characters outside base64url', `${fragment.slice(0, 10)}!*${fragment.slice(10)}`],
+    ['JSON that is not a payload', fragmentOf(['flowchart TD'])],
+    ['a payload without a version', fragmentOf({ m: 'flowchart TD' })],
+    ['a payload without a diagram', fragmentOf({ v: 1, m: '  ' })],
+  ])('rejects %s as corrupt', (_, damaged) => {
+    expect(() => decodeShareFragment(damaged)).toThrow(expect.objectContaining({ name: 'ShareLinkError', reason: 'corrupt' }))
+  })
+
+  it.each(['', '#', '  '])('rejects the empty fragment "%s"', empty => {
+    expect(() => decodeShareFragment(empty)).toThrowError('This link does not contain a diagram.')
+  })
+
+  it('asks to reload for a link from a newer version', () => {
+    expect(() => decodeShareFragment(fragmentOf({ v: 2, diagram: { source: 'flowchart TD' } }))).toThrow(
+      expect.objectContaining({ name: 'ShareLinkError', reason: 'unsupported', message: expect.stringContaining('newer version') }),
+    )
+  })
+})
+
+describe('shareUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('points at the viewer with the diagram in the fragment', () => {
+    vi.stubGlobal('window', { location: { origin: 'https://diagrams.example.com' } })
+    const url = new URL(shareUrl(DIAGRAM))
+    expect(`${url.origin}${url.pathname}`).toBe(`https://diagrams.example.com${SHARE_PATH}`)
+    expect(decodeShareFragment(url.hash)).toEqual(DIAGRAM)
+  })
+})
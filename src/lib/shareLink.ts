@@ -0,0 +1,98 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate'
+
+// What a share link carries. Links are self-contained: the diagram lives in
+// the URL fragment, which browsers never send to a server, so sharing works
+// on the static deployment and nothing is uploaded anywhere.
+export interface SharedDiagram {
+  mermaid: string
+  description: string
+  // Human-readable source, e.g. the video URL or transcript file name
+  origin?: string
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, readonly reason: 'corrupt' | 'unsupported') {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+// Bump when the payload shape changes and teach decodePayload the old shape,
+// so links that are already out there keep opening
+const SHARE_VERSION = 1
+
+// Short keys keep URLs short
+interface PayloadV1 {
+  v: 1
+  m: string
+  d?: string
+  o?: string
+}
+
+export const SHARE_PATH = '/view'
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+const corrupt = () =>
+  new ShareLinkError('This share link is damaged or incomplete. Check that the whole link was copied, or ask for a new one.', 'corrupt')
+
+const decodePayload = (payload: unknown): SharedDiagram => {
+  const { v, m, d, o } = (payload ?? {}) as Partial<PayloadV1>
+  if (typeof v !== 'number') throw corrupt()
+  if (v > SHARE_VERSION) {
+    throw new ShareLinkError('This link was made with a newer version of the app. Reload the page to update, then open the link again.', 'unsupported')
+  }
+  if (typeof m !== 'string' || !m.trim()) throw corrupt()
+  // Optional fields are dropped rather than rejected when malformed
+  return {
+    mermaid: m,
+    description: typeof d === 'string' ? d : '',
+    ...(typeof o === 'string' && o && { origin: o }),
+  }
+}
+
+// URL-safe fragment: deflated JSON in base64url
+export function encodeShareFragment(diagram: SharedDiagram): string {
+  const payload: PayloadV1 = {
+    v: SHARE_VERSION,
+    m: diagram.mermaid,
+    ...(diagram.description && { d: diagram.description }),
+    ...(diagram.origin && { o: diagram.origin }),
+  }
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }))
+}
+
+// Accepts the fragment with or without its leading "#"
+export function decodeShareFragment(fragment: string): SharedDiagram {
+  const data = fragment.replace(/^#/, '').trim()
+  if (!data) throw new ShareLinkError('This link does not contain a diagram.', 'corrupt')
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(data))))
+  } catch {
+    throw corrupt()
+  }
+  return decodePayload(payload)
+}
+
+// Absolute link to the read-only viewer, honouring the deployment base path
+export function shareUrl(diagram: SharedDiagram): string {
+  const url = new URL(`${import.meta.env.BASE_URL.replace(/\/$/, '')}${SHARE_PATH}`, window.location.origin)
+  url.hash = encodeShareFragment(diagram)
+  return url.toString()
+}
+
+// Navigation state used by "Fork into editor" to hand the diagram to the main view
+export interface ForkLocationState {
+  fork: SharedDiagram
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, unifiedHunks, type DiffLine } from './textDiff'
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+// Replaces the given 1-based lines with upper-case copies
+const edited = (lines: string[], ...changed: number[]) =>
+  lines.map((line, i) => (changed.includes(i + 1) ? line.toUpperCase() : line))
+
+describe('diffLines', () => {
+  it.each<[string, string, string, DiffLine[]]>([
+    ['two empty texts', '', '', []],
+    ['identical texts', 'a\nb', 'a\nb', [
+      { type: 'same', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'same', text: 'b', oldLine: 2, newLine: 2 },
+    ]],
+    ['an empty old text', '', 'a\nb', [
+      { type: 'added', text: 'a', newLine: 1 },
+      { type: 'added', text: 'b', newLine: 2 },
+    ]],
+    ['an empty new text', 'a\nb', '', [
+      { type: 'removed', text: 'a', oldLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+    ]],
+    ['a replaced line', 'a\nb\nc', 'a\nx\nc', [
+      { type: 'same', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'added', text: 'x', newLine: 2 },
+      { type: 'same', text: 'c', oldLine: 3, newLine: 3 },
+    ]],
+    ['Windows line endings', 'a\r\nb', 'a\nb', [
+      { type: 'same', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'same', text: 'b', oldLine: 2, newLine: 2 },
+    ]],
+  ])('diffs %s', (_, before, after, expected) => {
+    expect(diffLines(before, after)).toEqual(expected)
+  })
+})
+
+describe('unifiedHunks', () => {
+  const hunks = (before: string[], after: string[], context?: number) =>
+    unifiedHunks(diffLines(before.join('\n'), after.join('\n')), context)
+
+  const headers = (before: string[], after: string[], context?: number) =>
+    hunks(before, after, context).map(hunk => hunk.header)
+
+  const twenty = numbered(20)
+
+  it('returns no hunks for identical texts', () => {
+    expect(hunks(twenty, twenty)).toEqual([])
+  })
+
+  it.each<[string, string[], string[], number | undefined, string[]]>([
+    ['a change with full context', twenty, edited(twenty, 5), undefined, ['@@ -2,7 +2,7 @@']],
+    ['a change near the start', twenty, edited(twenty, 1), undefined, ['@@ -1,4 +1,4 @@']],
+    ['a change near the end', twenty, edited(twenty, 20), undefined, ['@@ -17,4 +17,4 @@']],
+    ['an empty old side', [], ['a', 'b'], undefined, ['@@ -0,0 +1,2 @@']],
+    ['an empty new side', ['a', 'b'], [], undefined, ['@@ -1,2 +0,0 @@']],
+    ['a pure insertion without context', ['a', 'b'], ['a', 'x', 'b'], 0, ['@@ -1,0 +2,1 @@']],
+    ['a pure deletion without context', ['a', 'b', 'c'], ['a', 'c'], 0, ['@@ -2,1 +1,0 @@']],
+    ['changes whose context overlaps', twenty, edited(twenty, 5, 11), undefined, ['@@ -2,13 +2,13 @@']],
+    ['changes whose context touches', twenty, edited(twenty, 5, 12), undefined, ['@@ -2,14 +2,14 @@']],
+    ['changes far apart', twenty, edited(twenty, 5, 15), undefined, ['@@ -2,7 +2,7 @@', '@@ -12,7 +12,7 @@']],
+    ['an insertion shifting later lines', twenty, [...twenty.slice(0, 2), 'new', ...edited(twenty, 15).slice(2)], undefined, [
+      '@@ -1,5 +1,6 @@',
+      '@@ -12,7 +13,7 @@',
+    ]],
+  ])('numbers %s', (_, before, after, context, expected) => {
+    expect(headers(before, after, context)).toEqual(expected)
+  })
+
+  it('keeps the context lines in each hunk', () => {
+    const [hunk] = hunks(twenty, edited(twenty, 5), 1)
+    expect(hunk.lines.map(({ type, text }) => `${type} ${text}`)).toEqual([
+      'same line 4',
+      'removed line 5',
+      'added LINE 5',
+      'same line 6',
+    ])
+  })
+})
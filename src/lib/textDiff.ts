@@ -0,0 +1,85 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+  // 1-based line numbers on the side(s) the line exists on
+  oldLine?: number
+  newLine?: number
+}
+
+export interface DiffHunk {
+  header: string
+  lines: DiffLine[]
+}
+
+// Above this many line pairs the LCS table gets too large to build in the
+// browser; the texts are then shown as fully replaced
+const MAX_CELLS = 4_000_000
+
+// Line diff based on the longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split(/\r?\n/) : []
+  const b = after ? after.split(/\r?\n/) : []
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((text, i) => ({ type: 'removed' as const, text, oldLine: i + 1 })),
+      ...b.map((text, j) => ({ type: 'added' as const, text, newLine: j + 1 })),
+    ]
+  }
+
+  // lcs[i][j]: length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i], oldLine: i + 1 })
+      i++
+    } else {
+      lines.push({ type: 'added', text: b[j], newLine: j + 1 })
+      j++
+    }
+  }
+  return lines
+}
+
+// Groups changes into unified-diff hunks with `context` unchanged lines
+// around them. Identical texts yield no hunks.
+export function unifiedHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changed = lines.flatMap((line, index) => (line.type === 'same' ? [] : [index]))
+  const hunks: DiffHunk[] = []
+
+  let k = 0
+  while (k < changed.length) {
+    const start = Math.max(0, changed[k] - context)
+    let end = Math.min(lines.length, changed[k] + context + 1)
+    while (k + 1 < changed.length && changed[k + 1] - context <= end) {
+      k++
+      end = Math.min(lines.length, changed[k] + context + 1)
+    }
+    k++
+
+    const slice = lines.slice(start, end)
+    const oldLines = slice.filter(line => line.type !== 'added')
+    const newLines = slice.filter(line => line.type !== 'removed')
+    // Unified diff convention: an empty side starts at the line before
+    const oldStart = oldLines[0]?.oldLine ?? (lines.slice(0, start).filter(line => line.type !== 'added').length)
+    const newStart = newLines[0]?.newLine ?? (lines.slice(0, start).filter(line => line.type !== 'removed').length)
+    hunks.push({
+      header: `@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@`,
+      lines: slice,
+    })
+  }
+  return hunks
+}
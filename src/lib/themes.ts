@@ -0,0 +1,157 @@
+import type { MermaidConfig } from 'mermaid'
+
+// Which slate/red scale the app chrome uses; see chromeTheme.ts
+export type ChromeMode = 'dark' | 'light' | 'contrast'
+
+export interface DiagramTheme {
+  id: string
+  label: string
+  // User-defined brand themes, stored in local storage
+  custom?: boolean
+  chrome: ChromeMode
+  // Values for the cyber-* Tailwind colours
+  accents: { purple: string; blue: string; pink: string; green: string }
+  // Page colours exports paint behind and around the diagram
+  background: string
+  foreground: string
+  mermaid: Pick<MermaidConfig, 'theme' | 'themeVariables'>
+}
+
+// The handful of colours a user picks for a brand theme; everything else is derived
+export interface BrandPalette {
+  id: string
+  name: string
+  base: 'dark' | 'light'
+  primary: string
+  secondary: string
+  accent: string
+  background: string
+  text: string
+}
+
+export const BUILTIN_THEMES: DiagramTheme[] = [
+  {
+    id: 'dark',
+    label: 'Dark',
+    chrome: 'dark',
+    accents: { purple: '#8B5CF6', blue: '#0EA5E9', pink: '#EC4899', green: '#10B981' },
+    background: '#0f172a',
+    foreground: '#e2e8f0',
+    mermaid: {
+      theme: 'dark',
+      themeVariables: {
+        primaryColor: '#8B5CF6',
+        primaryTextColor: '#ffffff',
+        primaryBorderColor: '#0EA5E9',
+        lineColor: '#EC4899',
+        secondaryColor: '#10B981',
+        tertiaryColor: '#1e293b',
+        background: '#0f172a',
+        mainBkg: '#1e293b',
+        secondBkg: '#334155',
+        tertiaryBkg: '#475569',
+      },
+    },
+  },
+  {
+    id: 'light',
+    label: 'Light',
+    chrome: 'light',
+    accents: { purple: '#7c3aed', blue: '#0284c7', pink: '#db2777', green: '#059669' },
+    background: '#ffffff',
+    foreground: '#0f172a',
+    mermaid: {
+      theme: 'base',
+      themeVariables: {
+        primaryColor: '#ede9fe',
+        primaryTextColor: '#1e1b4b',
+        primaryBorderColor: '#7c3aed',
+        lineColor: '#475569',
+        secondaryColor: '#d1fae5',
+        tertiaryColor: '#f1f5f9',
+        background: '#ffffff',
+      },
+    },
+  },
+  {
+    id: 'high-contrast',
+    label: 'High contrast',
+    chrome: 'contrast',
+    accents: { purple: '#facc15', blue: '#22d3ee', pink: '#f472b6', green: '#4ade80' },
+    background: '#000000',
+    foreground: '#ffffff',
+    mermaid: {
+      theme: 'base',
+      themeVariables: {
+        darkMode: true,
+        primaryColor: '#000000',
+        primaryTextColor: '#ffffff',
+        primaryBorderColor: '#facc15',
+        lineColor: '#ffffff',
+        secondaryColor: '#000000',
+        tertiaryColor: '#000000',
+        background: '#000000',
+        edgeLabelBackground: '#000000',
+        clusterBkg: '#000000',
+        clusterBorder: '#22d3ee',
+        fontSize: '18px',
+      },
+    },
+  },
+  {
+    id: 'print',
+    label: 'Print',
+    chrome: 'light',
+    accents: { purple: '#4c1d95', blue: '#075985', pink: '#9d174d', green: '#065f46' },
+    background: '#ffffff',
+    foreground: '#000000',
+    mermaid: {
+      theme: 'neutral',
+      themeVariables: {
+        primaryColor: '#ffffff',
+        primaryTextColor: '#000000',
+        primaryBorderColor: '#000000',
+        lineColor: '#000000',
+        background: '#ffffff',
+      },
+    },
+  },
+]
+
+export const DEFAULT_THEME = BUILTIN_THEMES[0]
+
+export function brandTheme(palette: BrandPalette): DiagramTheme {
+  const dark = palette.base === 'dark'
+  return {
+    id: palette.id,
+    label: palette.name,
+    custom: true,
+    chrome: palette.base,
+    accents: {
+      purple: palette.primary,
+      blue: palette.secondary,
+      pink: palette.accent,
+      green: dark ? '#10B981' : '#059669',
+    },
+    background: palette.background,
+    foreground: palette.text,
+    mermaid: {
+      // "base" is the only mermaid theme that derives its palette from themeVariables
+      theme: 'base',
+      themeVariables: {
+        darkMode: dark,
+        primaryColor: palette.primary,
+        primaryTextColor: palette.text,
+        primaryBorderColor: palette.secondary,
+        lineColor: palette.accent,
+        secondaryColor: palette.secondary,
+        tertiaryColor: palette.background,
+        background: palette.background,
+      },
+    },
+  }
+}
+
+export function findTheme(themes: DiagramTheme[], id: string | null | undefined): DiagramTheme {
+  return themes.find(theme => theme.id === id) ?? DEFAULT_THEME
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { parseTranscript } from './transcript'
+
+describe('parseTranscript', () => {
+  it('drops the repeated line of rolling auto-captions', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      'open the ticket',
+      '',
+      '00:00:03.000 --> 00:00:05.000',
+      'open the ticket',
+      'and assign it',
+    ].join('\n')
+    expect(parseTranscript(vtt, 'Captions').text).toBe('[0:01] open the ticket and assign it')
+  })
+
+  it('keeps repeated consecutive lines in plain text', () => {
+    const notes = 'Check the form\nCheck the form\nSubmit it'
+    expect(parseTranscript(notes, 'Notes').text).toBe(notes)
+  })
+
+  it('keeps repeated lines after plain-text timestamps', () => {
+    const panel = '0:01\nRetry the upload\n0:05\nRetry the upload'
+    expect(parseTranscript(panel, 'Panel').text).toBe('[0:01] Retry the upload Retry the upload')
+  })
+})
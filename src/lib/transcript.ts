@@ -0,0 +1,188 @@
+import { formatTimestamp } from './youtube'
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'txt'
+
+// A transcript as it is sent to the agent: cleaned text with one
+// "[m:ss] ..." paragraph per speaker turn or time window
+export interface Transcript {
+  name: string
+  format: TranscriptFormat
+  text: string
+  // Covered time span, when the source carries timings
+  durationSeconds?: number
+}
+
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranscriptParseError'
+  }
+}
+
+interface Cue {
+  start: number | null
+  end: number | null
+  speaker?: string
+  text: string
+}
+
+export const TRANSCRIPT_EXTENSIONS = ['.vtt', '.srt', '.txt']
+// Keeps requests well under the proxy's body limit, with room for refinements
+export const MAX_TRANSCRIPT_CHARS = 200_000
+// Consecutive cues are merged into one paragraph up to this length
+const PARAGRAPH_SECONDS = 30
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  vtt: 'WebVTT subtitles',
+  srt: 'SubRip subtitles',
+  txt: 'Plain text',
+}
+
+const TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+// Sound cues such as [Music] or (applause) carry nothing to diagram
+const SOUND_CUE = /^[[(][^\])]*[\])]$/
+// Zoom and Teams prefix each caption with the speaker's name
+const NAME_PREFIX = /^([A-Z][\w'.-]*(?: [A-Z][\w'.-]*){0,3}):\s+(.+)$/
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" }
+
+const cueSeconds = (value: string): number => {
+  const parts = value.replace(',', '.').split(':').map(Number)
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+const cleanLine = (line: string) =>
+  line
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos|nbsp|#39);/g, (_, name: string) => ENTITIES[name])
+    .replace(/\s+/g, ' ')
+    .trim()
+
+export function detectTranscriptFormat(text: string, fileName?: string): TranscriptFormat {
+  const extension = fileName?.toLowerCase().match(/\.(vtt|srt|txt)$/)?.[1]
+  if (extension) return extension as TranscriptFormat
+  if (/^\uFEFF?WEBVTT/.test(text)) return 'vtt'
+  if (/^\uFEFF?\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(text)) return 'srt'
+  return 'txt'
+}
+
+// Shared by WebVTT and SubRip: blocks separated by blank lines, each with an
+// optional identifier, a timing line and the caption text
+const parseCueBlocks = (text: string): Cue[] => {
+  const cues: Cue[] = []
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => TIMING.test(line))
+    if (timingIndex === -1) continue // WEBVTT header, NOTE, STYLE and REGION blocks
+
+    const [, start, end] = lines[timingIndex].match(TIMING)!
+    const raw = lines.slice(timingIndex + 1).join('\n')
+    // WebVTT voice spans name the speaker: <v Jane Doe>Hello
+    let speaker = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1]?.trim()
+    const captionLines = raw.split('\n').map(cleanLine).filter(line => line && !SOUND_CUE.test(line))
+    const named = !speaker && captionLines[0]?.match(NAME_PREFIX)
+    if (named) {
+      speaker = named[1]
+      captionLines[0] = named[2]
+    }
+    if (captionLines.length) {
+      cues.push({ start: cueSeconds(start), end: cueSeconds(end), speaker, text: captionLines.join('\n') })
+    }
+  }
+  return cues
+}
+
+// Plain text may come from YouTube's "Show transcript" panel, where each
+// caption follows a line holding only its timestamp
+const parsePlainText = (text: string): Cue[] => {
+  const cues: Cue[] = []
+  let pendingStart: number | null = null
+  for (const line of text.split('\n').map(cleanLine)) {
+    if (!line) continue
+    if (/^\[?(?:\d+:)?\d{1,2}:\d{2}\]?$/.test(line)) {
+      pendingStart = cueSeconds(line.replace(/[[\]]/g, ''))
+      continue
+    }
+    cues.push({ start: pendingStart, end: null, text: line })
+    pendingStart = null
+  }
+  return cues
+}
+
+// Auto-generated captions roll: each cue repeats the previous cue's last line
+// before adding a new one. Only the new lines are kept.
+const dropRollover = (cues: Cue[]): Cue[] => {
+  let previous = new Set<string>()
+  return cues.flatMap(cue => {
+    const lines = cue.text.split('\n')
+    let skip = 0
+    while (skip < lines.length && previous.has(lines[skip])) skip++
+    previous = new Set(lines)
+    return skip < lines.length ? [{ ...cue, text: lines.slice(skip).join(' ') }] : []
+  })
+}
+
+const toParagraphs = (cues: Cue[]): string => {
+  const paragraphs: { start: number | null; speaker?: string; text: string[] }[] = []
+  for (const cue of cues) {
+    const last = paragraphs[paragraphs.length - 1]
+    const sameTurn = last
+      && cue.speaker === last.speaker
+      && (cue.start === null || last.start === null || cue.start - last.start < PARAGRAPH_SECONDS)
+    if (sameTurn) {
+      last.text.push(cue.text)
+    } else {
+      paragraphs.push({ start: cue.start, speaker: cue.speaker, text: [cue.text] })
+    }
+  }
+
+  return paragraphs
+    .map(({ start, speaker, text }) => [
+      start !== null && `[${formatTimestamp(start)}]`,
+      speaker && `${speaker}:`,
+      text.join(' '),
+    ].filter(Boolean).join(' '))
+    .join('\n\n')
+}
+
+// Parses a subtitle file or pasted text into a cleaned, timestamped
+// transcript. Throws TranscriptParseError when nothing usable is left.
+export function parseTranscript(input: string, name: string, fileName?: string): Transcript {
+  const text = input.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '')
+  const format = detectTranscriptFormat(text, fileName)
+  // Only caption files roll; repeated lines in pasted notes are meant
+  const cues = format === 'txt' ? parsePlainText(text) : dropRollover(parseCueBlocks(text))
+
+  if (!cues.length) {
+    throw new TranscriptParseError(format === 'txt'
+      ? 'The transcript is empty'
+      : `No captions found; is this really a ${TRANSCRIPT_FORMAT_LABELS[format]} file?`)
+  }
+
+  // Untimed notes keep their own paragraphs instead of being run together
+  const cleaned = cues.some(cue => cue.start !== null)
+    ? toParagraphs(cues)
+    : text.split(/\n\s*\n/).map(block => block.split('\n').map(cleanLine).filter(Boolean).join('\n')).filter(Boolean).join('\n\n')
+  if (cleaned.length > MAX_TRANSCRIPT_CHARS) {
+    throw new TranscriptParseError(
+      `The transcript is too long (${cleaned.length.toLocaleString()} characters, limit ${MAX_TRANSCRIPT_CHARS.toLocaleString()})`,
+    )
+  }
+
+  const timed = cues.filter(cue => cue.start !== null)
+  const lastTime = Math.max(0, ...timed.map(cue => cue.end ?? cue.start ?? 0))
+  return {
+    name,
+    format,
+    text: cleaned,
+    ...(timed.length ? { durationSeconds: Math.round(lastTime - (timed[0].start ?? 0)) } : {}),
+  }
+}
+
+export async function readTranscriptFile(file: File): Promise<Transcript> {
+  if (!TRANSCRIPT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+    throw new TranscriptParseError(`${file.name} is not a supported file; use ${TRANSCRIPT_EXTENSIONS.join(', ')}`)
+  }
+  return parseTranscript(await file.text(), file.name, file.name)
+}
\ No newline at end of file
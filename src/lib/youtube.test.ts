@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { parseTimestamp, parseYouTubeUrl, parseYouTubeVideoUrl, type YouTubeLink } from './youtube'
+
+const VIDEO = 'dQw4w9WgXcQ'
+const PLAYLIST = 'PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI'
+
+const video = (extra: Partial<YouTubeLink> = {}): YouTubeLink => ({ videoId: VIDEO, playlistId: null, ...extra })
+
+describe('parseYouTubeUrl', () => {
+  it.each<[string, string, YouTubeLink]>([
+    ['watch page', `https://www.youtube.com/watch?v=${VIDEO}`, video()],
+    ['watch page, v after other params', `https://www.youtube.com/watch?feature=share&si=abc&v=${VIDEO}`, video()],
+    ['watch page without scheme', `youtube.com/watch?v=${VIDEO}`, video()],
+    ['http watch page', `http://youtube.com/watch?v=${VIDEO}`, video()],
+    ['watch page with a playlist before v', `https://www.youtube.com/watch?list=${PLAYLIST}&index=2&v=${VIDEO}`, video({ playlistId: PLAYLIST })],
+    ['youtu.be', `https://youtu.be/${VIDEO}`, video()],
+    ['youtu.be with tracking', `https://youtu.be/${VIDEO}?si=Xyz123`, video()],
+    ['Shorts', `https://www.youtube.com/shorts/${VIDEO}`, video()],
+    ['live', `https://www.youtube.com/live/${VIDEO}?feature=share`, video()],
+    ['embed', `https://www.youtube.com/embed/${VIDEO}`, video()],
+    ['youtube-nocookie embed', `https://www.youtube-nocookie.com/embed/${VIDEO}`, video()],
+    ['mobile host', `https://m.youtube.com/watch?v=${VIDEO}`, video()],
+    ['music host', `https://music.youtube.com/watch?v=${VIDEO}&list=${PLAYLIST}`, video({ playlistId: PLAYLIST })],
+    [
+      'attribution link',
+      `https://www.youtube.com/attribution_link?a=abc&u=%2Fwatch%3Fv%3D${VIDEO}%26feature%3Dshare`,
+      video(),
+    ],
+    ['attribution link without leading slash', `https://www.youtube.com/attribution_link?u=watch%3Fv%3D${VIDEO}`, video()],
+    ['playlist page', `https://www.youtube.com/playlist?list=${PLAYLIST}`, { videoId: null, playlistId: PLAYLIST }],
+    ['embedded playlist', `https://www.youtube.com/embed/videoseries?list=${PLAYLIST}`, { videoId: null, playlistId: PLAYLIST }],
+    ['video in Watch Later', `https://www.youtube.com/watch?v=${VIDEO}&list=WL`, video()],
+    ['video in Liked videos', `https://www.youtube.com/watch?v=${VIDEO}&list=LL`, video()],
+    ['video with an invalid list', `https://www.youtube.com/watch?v=${VIDEO}&list=x`, video()],
+  ])('parses a %s', (_, url, expected) => {
+    expect(parseYouTubeUrl(url)).toEqual(expected)
+  })
+
+  it.each<[string, string, Pick<YouTubeLink, 'startSeconds' | 'endSeconds'>]>([
+    ['t in seconds', `https://youtu.be/${VIDEO}?t=42`, { startSeconds: 42 }],
+    ['t with an s suffix', `https://www.youtube.com/watch?v=${VIDEO}&t=90s`, { startSeconds: 90 }],
+    ['t in units', `https://www.youtube.com/watch?t=1h2m3s&v=${VIDEO}`, { startSeconds: 3723 }],
+    ['t in the fragment', `https://www.youtube.com/watch?v=${VIDEO}#t=1:30`, { startSeconds: 90 }],
+    ['start and end', `https://www.youtube-nocookie.com/embed/${VIDEO}?start=10&end=20`, { startSeconds: 10, endSeconds: 20 }],
+    ['time_continue', `https://www.youtube.com/watch?v=${VIDEO}&time_continue=15`, { startSeconds: 15 }],
+    ['end only', `https://www.youtube.com/embed/${VIDEO}?end=30`, { endSeconds: 30 }],
+    ['t=0', `https://youtu.be/${VIDEO}?t=0`, {}],
+    ['an unparseable t', `https://youtu.be/${VIDEO}?t=soon`, {}],
+  ])('reads %s', (_, url, times) => {
+    expect(parseYouTubeUrl(url)).toEqual(video(times))
+  })
+
+  it('ignores times on a playlist link', () => {
+    expect(parseYouTubeUrl(`https://www.youtube.com/playlist?list=${PLAYLIST}&t=42`)).toEqual({ videoId: null, playlistId: PLAYLIST })
+  })
+
+  it.each<[string, string, string]>([
+    ['empty input', '   ', 'Please enter a YouTube URL'],
+    ['not a URL', 'not a url', '"not a url" is not a valid URL'],
+    ['another scheme', `ftp://youtube.com/watch?v=${VIDEO}`, '"ftp:" links are not supported; paste an http(s) YouTube URL'],
+    ['another site', 'https://vimeo.com/123456', 'vimeo.com is not a YouTube address'],
+    ['a lookalike host', `https://youtube.com.evil.example/watch?v=${VIDEO}`, 'youtube.com.evil.example is not a YouTube address'],
+    ['youtu.be without an ID', 'https://youtu.be/', 'This youtu.be link is missing the video ID'],
+    [
+      'a short video ID',
+      'https://www.youtube.com/watch?v=abc',
+      '"abc" is not a valid YouTube video ID (expected 11 letters, digits, "-" or "_")',
+    ],
+    [
+      'a Shorts ID with bad characters',
+      'https://www.youtube.com/shorts/dQw4w9WgX!Q',
+      '"dQw4w9WgX!Q" is not a valid YouTube video ID (expected 11 letters, digits, "-" or "_")',
+    ],
+    ['a handle page', 'https://www.youtube.com/@somechannel', 'Channel pages are not supported; paste a link to a single video or a playlist'],
+    ['a channel page', 'https://www.youtube.com/channel/UC123', 'Channel pages are not supported; paste a link to a single video or a playlist'],
+    ['the home page', 'https://www.youtube.com/', 'This YouTube link does not point to a video or a playlist'],
+    ['Watch Later', 'https://www.youtube.com/playlist?list=WL', 'Your Watch Later list is private; share a public playlist instead'],
+    ['Liked videos', 'https://www.youtube.com/playlist?list=LL', 'Your Liked videos list is private; share a public playlist instead'],
+    ['an invalid playlist ID', 'https://www.youtube.com/playlist?list=x', '"x" is not a valid YouTube playlist ID'],
+    [
+      'an end before the start',
+      `https://www.youtube.com/embed/${VIDEO}?start=30&end=10`,
+      'The end time (10s) must be after the start time (30s)',
+    ],
+    [
+      'an end equal to the start',
+      `https://www.youtube.com/watch?v=${VIDEO}&t=1m&end=60`,
+      'The end time (60s) must be after the start time (60s)',
+    ],
+  ])('rejects %s', (_, url, message) => {
+    expect(() => parseYouTubeUrl(url)).toThrowError(message)
+  })
+})
+
+describe('parseYouTubeVideoUrl', () => {
+  it('returns the video of a link with a playlist', () => {
+    expect(parseYouTubeVideoUrl(`https://www.youtube.com/watch?v=${VIDEO}&list=${PLAYLIST}&t=5`)).toEqual(
+      video({ playlistId: PLAYLIST, startSeconds: 5 }),
+    )
+  })
+
+  it('rejects a playlist-only link', () => {
+    expect(() => parseYouTubeVideoUrl(`https://www.youtube.com/playlist?list=${PLAYLIST}`)).toThrowError(
+      'This is a playlist link; use Batch mode to queue its videos',
+    )
+  })
+})
+
+describe('parseTimestamp', () => {
+  it.each<[string, number | null]>([
+    ['90', 90],
+    ['90s', 90],
+    [' 45 ', 45],
+    ['1h', 3600],
+    ['2m', 120],
+    ['1h2m3s', 3723],
+    ['1M30S', 90],
+    ['1:05', 65],
+    ['01:02:03', 3723],
+    ['0:59', 59],
+    ['', null],
+    ['abc', null],
+    ['1:60', null],
+    ['1:60:00', null],
+    ['1:5', null],
+    ['-5', null],
+  ])('parses "%s" as %s', (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds)
+  })
+})
@@ -0,0 +1,191 @@
+// Parsing for every YouTube link shape we accept: watch pages (any parameter
+// order), youtu.be, Shorts, live, embed (including youtube-nocookie), mobile
+// and music hosts, playlists and attribution links.
+
+export interface YouTubeLink {
+  videoId: string | null
+  playlistId: string | null
+  // Seconds into the video, from t/start/end parameters
+  startSeconds?: number
+  endSeconds?: number
+}
+
+export class YouTubeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'YouTubeUrlError'
+  }
+}
+
+const VIDEO_ID = /^[\w-]{11}$/
+const PLAYLIST_ID = /^[\w-]{2,64}$/
+// Subdomains that serve the same pages as www.youtube.com
+const HOST_PREFIX = /^(?:www|m|music|gaming)\./
+// Path prefixes followed by the video ID
+const VIDEO_PATHS = ['embed', 'v', 'e', 'shorts', 'live']
+const CHANNEL_PATHS = ['channel', 'c', 'user']
+// Auto-generated lists that belong to a signed-in account
+const PRIVATE_PLAYLISTS: Record<string, string> = {
+  WL: 'Watch Later',
+  LL: 'Liked videos',
+}
+
+// Accepts plain seconds ("90", "90s"), unit form ("1h2m3s") and clock form ("1:02:03")
+export function parseTimestamp(value: string): number | null {
+  const text = value.trim().toLowerCase()
+  if (/^\d+s?$/.test(text)) return parseInt(text, 10)
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/)
+  if (units && text) {
+    const [, h = '0', m = '0', s = '0'] = units
+    return Number(h) * 3600 + Number(m) * 60 + Number(s)
+  }
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/)
+  if (clock) {
+    const [, h = '0', m, s] = clock
+    if (Number(s) >= 60 || (clock[1] !== undefined && Number(m) >= 60)) return null
+    return Number(h) * 3600 + Number(m) * 60 + Number(s)
+  }
+  return null
+}
+
+// Clock form used in transcripts and timestamp links: "1:05", "1:02:03"
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+const toUrl = (input: string): URL => {
+  const text = input.trim()
+  if (!text) throw new YouTubeUrlError('Please enter a YouTube URL')
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`)
+  } catch {
+    throw new YouTubeUrlError(`"${text}" is not a valid URL`)
+  }
+}
+
+const checkVideoId = (id: string): string => {
+  if (!VIDEO_ID.test(id)) {
+    throw new YouTubeUrlError(`"${id}" is not a valid YouTube video ID (expected 11 letters, digits, "-" or "_")`)
+  }
+  return id
+}
+
+const checkPlaylistId = (id: string): string => {
+  if (PRIVATE_PLAYLISTS[id]) {
+    throw new YouTubeUrlError(`Your ${PRIVATE_PLAYLISTS[id]} list is private; share a public playlist instead`)
+  }
+  if (!PLAYLIST_ID.test(id)) {
+    throw new YouTubeUrlError(`"${id}" is not a valid YouTube playlist ID`)
+  }
+  return id
+}
+
+// Unparseable times are ignored, as YouTube itself does
+const readTimes = (url: URL): Pick<YouTubeLink, 'startSeconds' | 'endSeconds'> => {
+  const hash = new URLSearchParams(url.hash.slice(1))
+  const pick = (...names: string[]) => {
+    for (const name of names) {
+      const raw = url.searchParams.get(name) ?? hash.get(name)
+      const seconds = raw === null ? null : parseTimestamp(raw)
+      if (seconds !== null) return seconds
+    }
+    return undefined
+  }
+
+  const startSeconds = pick('t', 'start', 'time_continue')
+  const endSeconds = pick('end')
+  if (startSeconds !== undefined && endSeconds !== undefined && endSeconds <= startSeconds) {
+    throw new YouTubeUrlError(`The end time (${endSeconds}s) must be after the start time (${startSeconds}s)`)
+  }
+  return {
+    ...(startSeconds ? { startSeconds } : {}),
+    ...(endSeconds !== undefined ? { endSeconds } : {}),
+  }
+}
+
+const videoIdFromPath = (url: URL, host: string): string | null => {
+  const [first = '', second = ''] = url.pathname.split('/').filter(Boolean)
+
+  if (host === 'youtu.be') {
+    if (!first) throw new YouTubeUrlError('This youtu.be link is missing the video ID')
+    return checkVideoId(first)
+  }
+  if (first === 'watch') {
+    const id = url.searchParams.get('v') ?? second
+    return id ? checkVideoId(id) : null
+  }
+  if (VIDEO_PATHS.includes(first) && second && second !== 'videoseries') {
+    return checkVideoId(second)
+  }
+  if (first.startsWith('@') || CHANNEL_PATHS.includes(first)) {
+    throw new YouTubeUrlError('Channel pages are not supported; paste a link to a single video or a playlist')
+  }
+  return null
+}
+
+// Parses a YouTube link into its video and playlist IDs plus any start/end
+// time. Throws YouTubeUrlError with a user-facing message when the input is
+// not a YouTube link or points at neither a video nor a playlist.
+export function parseYouTubeUrl(input: string): YouTubeLink {
+  const url = toUrl(input)
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new YouTubeUrlError(`"${url.protocol}" links are not supported; paste an http(s) YouTube URL`)
+  }
+
+  const host = url.hostname.toLowerCase().replace(HOST_PREFIX, '')
+  if (host !== 'youtube.com' && host !== 'youtube-nocookie.com' && host !== 'youtu.be') {
+    throw new YouTubeUrlError(`${url.hostname} is not a YouTube address`)
+  }
+
+  // Shared links sometimes wrap the real watch URL: /attribution_link?u=/watch%3Fv%3D...
+  const wrapped = url.pathname === '/attribution_link' && url.searchParams.get('u')
+  if (wrapped) {
+    return parseYouTubeUrl(`https://www.youtube.com${wrapped.startsWith('/') ? '' : '/'}${wrapped}`)
+  }
+
+  const videoId = videoIdFromPath(url, host)
+  const list = url.searchParams.get('list')
+  // Next to a video the list is only context, so an unusable one is dropped
+  let playlistId: string | null = null
+  if (list && !videoId) playlistId = checkPlaylistId(list)
+  else if (list && !(list in PRIVATE_PLAYLISTS) && PLAYLIST_ID.test(list)) playlistId = list
+  if (!videoId && !playlistId) {
+    throw new YouTubeUrlError('This YouTube link does not point to a video or a playlist')
+  }
+
+  return { videoId, playlistId, ...(videoId ? readTimes(url) : {}) }
+}
+
+// Like parseYouTubeUrl, but a playlist link without a video is an error
+export function parseYouTubeVideoUrl(input: string): YouTubeLink & { videoId: string } {
+  const link = parseYouTubeUrl(input)
+  if (!link.videoId) {
+    throw new YouTubeUrlError('This is a playlist link; use Batch mode to queue its videos')
+  }
+  return { ...link, videoId: link.videoId }
+}
+
+const tryParse = (url: string): YouTubeLink | null => {
+  try {
+    return parseYouTubeUrl(url)
+  } catch {
+    return null
+  }
+}
+
+export function extractVideoId(url: string): string | null {
+  return tryParse(url)?.videoId ?? null
+}
+
+export function extractPlaylistId(url: string): string | null {
+  return tryParse(url)?.playlistId ?? null
+}
+
+// Canonical watch URL, stripped of tracking and playlist parameters
+export const videoUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`
\ No newline at end of file
@@ -0,0 +1,63 @@
+// Loader and minimal typings for the YouTube IFrame Player API; only the
+// calls the embedded player needs are declared.
+
+export interface YouTubePlayer {
+  seekTo(seconds: number, allowSeekAhead: boolean): void
+  playVideo(): void
+  getCurrentTime(): number
+  getPlayerState(): number
+  destroy(): void
+}
+
+interface PlayerOptions {
+  videoId: string
+  host?: string
+  width?: string | number
+  height?: string | number
+  playerVars?: Record<string, string | number>
+  events?: {
+    onReady?: () => void
+    onStateChange?: (event: { data: number }) => void
+  }
+}
+
+export interface YouTubeApi {
+  Player: new (element: HTMLElement, options: PlayerOptions) => YouTubePlayer
+  PlayerState: { PLAYING: number }
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi
+    onYouTubeIframeAPIReady?: () => void
+  }
+}
+
+const API_SRC = 'https://www.youtube.com/iframe_api'
+
+let apiPromise: Promise<YouTubeApi> | null = null
+
+// Injects the API script once; later callers share the same promise. A failed
+// load is forgotten so the next player can try again.
+export function loadYouTubeIframeApi(): Promise<YouTubeApi> {
+  if (window.YT?.Player) return Promise.resolve(window.YT)
+  if (!apiPromise) {
+    apiPromise = new Promise<YouTubeApi>((resolve, reject) => {
+      const previous = window.onYouTubeIframeAPIReady
+      window.onYouTubeIframeAPIReady = () => {
+        previous?.()
+        resolve(window.YT!)
+      }
+      const script = document.createElement('script')
+      script.src = API_SRC
+      script.async = true
+      script.onerror = () => {
+        apiPromise = null
+        script.remove()
+        reject(new Error('Could not load the YouTube player'))
+      }
+      document.head.appendChild(script)
+    })
+  }
+  return apiPromise
+}
\ No newline at end of file
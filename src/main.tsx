@@ -3,6 +3,8 @@ import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
+import AgentContextProvider from './context/AgentContextProvider'
+import ThemeContextProvider from './context/ThemeContextProvider'
 
 // Get the base name from the environment for GitHub Pages
 const basename = import.meta.env.PROD ? 
@@ -12,7 +14,11 @@ const basename = import.meta.env.PROD ?
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter basename={basename}>
-      <App />
+      <ThemeContextProvider>
+        <AgentContextProvider>
+          <App />
+        </AgentContextProvider>
+      </ThemeContextProvider>
     </BrowserRouter>
   </StrictMode>,
 )
\ No newline at end of file
@@ -0,0 +1,59 @@
+// Errors raised by agent providers and the polling engine. Messages are meant
+// to be shown to the user as-is; the extra fields drive retry decisions.
+
+export class AgentHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'AgentHttpError';
+  }
+
+  get isTransient(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+export class AgentNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentNetworkError';
+  }
+}
+
+export class AgentTimeoutError extends Error {
+  constructor(message: string = 'AI agent processing timeout - please try again') {
+    super(message);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+export class AgentCancelledError extends Error {
+  constructor(message: string = 'Generation cancelled') {
+    super(message);
+    this.name = 'AgentCancelledError';
+  }
+}
+
+// The agent answered, but not with the shape this app understands. Retrying
+// the same request will not help, so it is never treated as transient.
+export class AgentResponseError extends Error {
+  constructor(message: string, readonly field?: string) {
+    super(message);
+    this.name = 'AgentResponseError';
+  }
+}
+
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof AgentNetworkError || (error instanceof AgentHttpError && error.isTransient);
+
+// fetch() rejects with a bare TypeError when the request never got an answer;
+// the message differs between browsers and Node
+export const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && /failed to fetch|fetch failed|networkerror|load failed/i.test(error.message);
+
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { agentCacheKey, defaultProfile, type AgentProfile } from './agentProfiles';
+
+const profile = (overrides: Partial<AgentProfile> = {}): AgentProfile => ({
+  ...defaultProfile('integrail', '/api'),
+  agentId: 'flowchart-agent',
+  ...overrides,
+});
+
+describe('agentCacheKey', () => {
+  it.each<[string, Partial<AgentProfile>]>([
+    ['agent', { agentId: 'other-agent' }],
+    ['account', { accountId: 'acme' }],
+    ['proxy', { baseUrl: 'https://staging.example.com/api' }],
+    ['input mapping', { inputFields: { ytUrl: 'video_url' } }],
+    ['output key', { outputKeys: { mermaid: 'sequence', description: 'description', timestamps: 'timestamps' } }],
+  ])('changes with the %s', (_, overrides) => {
+    expect(agentCacheKey(profile(overrides))).not.toBe(agentCacheKey(profile()));
+  });
+
+  it.each<[string, Partial<AgentProfile>]>([
+    ['name', { id: 'copy', name: 'Copy' }],
+    ['polling limits', { polling: { deadlineMs: 1, initialDelayMs: 1, maxDelayMs: 1, maxRetries: 0 } }],
+    ['cache lifetime', { cacheTtlMs: 0 }],
+    ['mapping of a field to its own name', { inputFields: { ytUrl: 'ytUrl', videoId: '' } }],
+  ])('ignores the %s', (_, overrides) => {
+    expect(agentCacheKey(profile(overrides))).toBe(agentCacheKey(profile()));
+  });
+
+  it('does not depend on the order the mapping was written in', () => {
+    expect(agentCacheKey(profile({ inputFields: { ytUrl: 'url', videoId: 'id' } }))).toBe(
+      agentCacheKey(profile({ inputFields: { videoId: 'id', ytUrl: 'url' } })),
+    );
+  });
+});
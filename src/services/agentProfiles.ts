@@ -0,0 +1,211 @@
+import type { AgentInputs, TranscriptInputs, VideoInputs } from './agentProvider';
+import { DEFAULT_POLL_OPTIONS, type PollOptions } from './polling';
+
+// A named agent configuration the user can switch between at runtime, e.g. a
+// sequence-diagram agent or a staging proxy. Credentials never live here: the
+// profile only picks which proxy to call and which account/agent it should use.
+
+export type AgentProviderName = 'integrail' | 'mock';
+
+export const PROVIDER_NAMES: readonly AgentProviderName[] = ['integrail', 'mock'];
+
+// Every field the app sends to an agent, across all input variants
+export const INPUT_FIELDS = [
+  'inputType',
+  'ytUrl',
+  'videoId',
+  'startSeconds',
+  'endSeconds',
+  'transcript',
+  'transcriptName',
+  'transcriptFormat',
+  'instruction',
+  'currentMermaid',
+  'currentDescription',
+] as const satisfies readonly (keyof VideoInputs | keyof TranscriptInputs)[];
+
+export type InputField = (typeof INPUT_FIELDS)[number];
+
+// Agent input name per app field; unmapped fields are sent under their own name
+export type InputFieldMap = Partial<Record<InputField, string>>;
+
+// Keys of execution.outputs holding each result
+export interface OutputKeys {
+  mermaid: string;
+  description: string;
+  timestamps: string;
+}
+
+export type PollLimits = Required<Pick<PollOptions, 'deadlineMs' | 'initialDelayMs' | 'maxDelayMs' | 'maxRetries'>>;
+
+export interface AgentProfile {
+  id: string;
+  name: string;
+  provider: AgentProviderName;
+  // Agent proxy (see server/), e.g. /api or https://staging.example.com/api
+  baseUrl: string;
+  // Empty means whatever the proxy is configured with
+  accountId: string;
+  agentId: string;
+  inputFields: InputFieldMap;
+  outputKeys: OutputKeys;
+  polling: PollLimits;
+  // How long finished video results are reused; 0 always runs the agent
+  cacheTtlMs: number;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_OUTPUT_KEYS: OutputKeys = {
+  mermaid: 'mermaid',
+  description: 'description',
+  timestamps: 'timestamps',
+};
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_POLL_LIMITS: PollLimits = {
+  deadlineMs: DEFAULT_POLL_OPTIONS.deadlineMs,
+  initialDelayMs: DEFAULT_POLL_OPTIONS.initialDelayMs,
+  maxDelayMs: DEFAULT_POLL_OPTIONS.maxDelayMs,
+  maxRetries: DEFAULT_POLL_OPTIONS.maxRetries,
+};
+
+// The built-in profile, matching the build-time configuration
+export const defaultProfile = (provider: AgentProviderName, baseUrl: string): AgentProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  provider,
+  baseUrl,
+  accountId: '',
+  agentId: '',
+  inputFields: {},
+  outputKeys: { ...DEFAULT_OUTPUT_KEYS },
+  polling: { ...DEFAULT_POLL_LIMITS },
+  cacheTtlMs: DEFAULT_CACHE_TTL_MS,
+});
+
+// What makes two profiles produce the same results: the same agent behind the
+// same proxy, fed the same inputs and read through the same output keys.
+// Names and polling limits do not matter. Fields are listed in a fixed order,
+// with unmapped ones under their own name, so equivalent mappings share a key.
+export const agentCacheKey = (profile: AgentProfile): string =>
+  [
+    profile.provider,
+    profile.baseUrl,
+    profile.accountId,
+    profile.agentId,
+    JSON.stringify(INPUT_FIELDS.map(field => profile.inputFields[field] || field)),
+    JSON.stringify([profile.outputKeys.mermaid, profile.outputKeys.description, profile.outputKeys.timestamps]),
+  ].join('|');
+
+export class AgentProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentProfileError';
+  }
+}
+
+export const mapInputs = (inputs: AgentInputs, fields: InputFieldMap): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(inputs).map(([key, value]) => [fields[key as InputField] || key, value]));
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const invalid = (where: string, field: string, expected: string): never => {
+  throw new AgentProfileError(`${where}: ${field} should be ${expected}.`);
+};
+
+const text = (where: string, source: JsonObject, field: string, { required = false } = {}): string => {
+  const value = source[field] ?? '';
+  if (typeof value !== 'string') return invalid(where, field, 'text');
+  if (required && !value.trim()) return invalid(where, field, 'filled in');
+  return value.trim();
+};
+
+const positive = (where: string, source: JsonObject, field: string, fallback: number, { allowZero = false } = {}): number => {
+  const value = source[field] ?? fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    return invalid(where, field, allowZero ? 'zero or more' : 'a positive number');
+  }
+  return value;
+};
+
+const pollLimit = (where: string, polling: JsonObject, field: keyof PollLimits, options?: { allowZero?: boolean }) =>
+  positive(where, polling, field, DEFAULT_POLL_LIMITS[field], options);
+
+// Checks one profile, e.g. from an imported file. Missing optional parts fall
+// back to the defaults so hand-written files can stay short.
+export function parseProfile(value: unknown, where = 'Profile'): AgentProfile {
+  if (!isObject(value)) return invalid(where, 'profile', 'an object');
+
+  const id = text(where, value, 'id', { required: true });
+  const name = text(where, value, 'name', { required: true });
+  const label = `Profile "${name}"`;
+  const provider = value.provider ?? 'integrail';
+  if (!PROVIDER_NAMES.includes(provider as AgentProviderName)) {
+    return invalid(label, 'provider', `one of ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const inputFields: InputFieldMap = {};
+  const fields = value.inputFields ?? {};
+  if (!isObject(fields)) return invalid(label, 'inputFields', 'an object');
+  for (const [key, mapped] of Object.entries(fields)) {
+    if (!INPUT_FIELDS.includes(key as InputField)) return invalid(label, `inputFields.${key}`, `one of ${INPUT_FIELDS.join(', ')}`);
+    if (typeof mapped !== 'string') return invalid(label, `inputFields.${key}`, 'text');
+    if (mapped.trim()) inputFields[key as InputField] = mapped.trim();
+  }
+
+  const outputs = value.outputKeys ?? {};
+  if (!isObject(outputs)) return invalid(label, 'outputKeys', 'an object');
+  const outputKey = (key: keyof OutputKeys) => text(label, outputs, key) || DEFAULT_OUTPUT_KEYS[key];
+
+  const polling = value.polling ?? {};
+  if (!isObject(polling)) return invalid(label, 'polling', 'an object');
+
+  return {
+    id,
+    name,
+    provider: provider as AgentProviderName,
+    baseUrl: text(label, value, 'baseUrl', { required: true }),
+    accountId: text(label, value, 'accountId'),
+    agentId: text(label, value, 'agentId'),
+    inputFields,
+    outputKeys: {
+      mermaid: outputKey('mermaid'),
+      description: outputKey('description'),
+      timestamps: outputKey('timestamps'),
+    },
+    polling: {
+      deadlineMs: pollLimit(`${label} polling`, polling, 'deadlineMs'),
+      initialDelayMs: pollLimit(`${label} polling`, polling, 'initialDelayMs'),
+      maxDelayMs: pollLimit(`${label} polling`, polling, 'maxDelayMs'),
+      maxRetries: pollLimit(`${label} polling`, polling, 'maxRetries', { allowZero: true }),
+    },
+    cacheTtlMs: positive(label, value, 'cacheTtlMs', DEFAULT_CACHE_TTL_MS, { allowZero: true }),
+  };
+}
+
+// File format used by export and import
+interface ProfilesFile {
+  version: 1;
+  profiles: AgentProfile[];
+}
+
+export const serializeProfiles = (profiles: AgentProfile[]): string =>
+  JSON.stringify({ version: 1, profiles } satisfies ProfilesFile, null, 2);
+
+// Accepts an exported file or a bare list of profiles
+export function parseProfilesFile(json: string): AgentProfile[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new AgentProfileError('The file is not valid JSON.');
+  }
+  const list = isObject(value) ? value.profiles : value;
+  if (!Array.isArray(list)) throw new AgentProfileError('The file should contain a list of profiles.');
+  return list.map((profile, i) => parseProfile(profile, `Profile ${i + 1}`));
+}
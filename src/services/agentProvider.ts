@@ -0,0 +1,98 @@
+import type { PollOptions } from './polling';
+import type { DiagramSource } from './diagramSource';
+import type { Transcript, TranscriptFormat } from '../lib/transcript';
+import type { NodeTimestamps } from '../lib/nodeTimestamps';
+
+export type ExecutionStatus = 'queued' | 'running' | 'finished' | 'failed';
+
+// Follow-up turns add the instruction plus the diagram being refined
+interface RefinementInputs {
+  instruction?: string;
+  currentMermaid?: string;
+  currentDescription?: string;
+}
+
+// ytUrl is the canonical watch URL, never the raw user input; the start/end
+// times travel separately.
+export interface VideoInputs extends RefinementInputs {
+  inputType: 'youtube';
+  ytUrl: string;
+  videoId: string;
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+// Transcript text cleaned in the browser, as "[m:ss] ..." paragraphs when the
+// source had timings
+export interface TranscriptInputs extends RefinementInputs {
+  inputType: 'transcript';
+  transcript: string;
+  transcriptName: string;
+  transcriptFormat: TranscriptFormat;
+}
+
+// Inputs sent to the agent, one variant per kind of source material
+export type AgentInputs = VideoInputs | TranscriptInputs;
+
+export interface AgentExecutionResponse {
+  executionId: string;
+}
+
+export interface AgentStatusResponse {
+  status: string;
+  execution: {
+    _id: string;
+    status: ExecutionStatus;
+    // Validated by parseStatusResponse; either field may be missing
+    outputs?: {
+      mermaid?: string;
+      description?: string;
+      // Optional per-node video timestamps; see parseNodeTimestamps for the accepted shapes
+      timestamps?: unknown;
+    };
+  };
+}
+
+export interface ProcessResult {
+  mermaid: string;
+  description: string;
+  nodeTimestamps?: NodeTimestamps;
+  // When the result was first produced, if it came from the result cache
+  cachedAt?: number;
+}
+
+export interface ProcessOptions extends PollOptions {
+  // Skip the result cache and run the agent again
+  fresh?: boolean;
+}
+
+export interface RefinementRequest {
+  source: DiagramSource;
+  instruction: string;
+  mermaid: string;
+  description: string;
+}
+
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+}
+
+// Contract every agent backend implements. Transport-specific work (HTTP,
+// fixtures, ...) lives in executeAgent/getExecutionStatus; polling and result
+// extraction are shared through AgentService.
+export interface AgentProvider {
+  readonly name: string;
+  executeAgent(inputs: AgentInputs, signal?: AbortSignal): Promise<string>;
+  getExecutionStatus(executionId: string, signal?: AbortSignal): Promise<AgentStatusResponse>;
+  pollExecutionUntilComplete(executionId: string, options?: PollOptions): Promise<ProcessResult>;
+  processYouTubeUrl(ytUrl: string, options?: ProcessOptions): Promise<ProcessResult>;
+  processTranscript(transcript: Transcript, options?: PollOptions): Promise<ProcessResult>;
+  refineDiagram(request: RefinementRequest, options?: PollOptions): Promise<ProcessResult>;
+  // Expands a playlist into its videos for batch runs
+  listPlaylistVideos(playlistId: string, signal?: AbortSignal): Promise<PlaylistVideo[]>;
+}
+
+// Where agent clients report failures and progress. The app passes the
+// console; the CLI routes it to stderr or drops it.
+export type AgentLogger = Pick<Console, 'log' | 'warn' | 'error'>;
@@ -0,0 +1,90 @@
+import type { AgentExecutionResponse, AgentStatusResponse, ExecutionStatus, PlaylistVideo } from './agentProvider';
+import { AgentResponseError } from './agentErrors';
+import { DEFAULT_OUTPUT_KEYS, type OutputKeys } from './agentProfiles';
+
+// Runtime checks for everything an agent backend sends back. Each parser
+// returns a typed copy holding only the known fields, or throws
+// AgentResponseError naming the first field that does not match.
+
+const EXECUTION_STATUSES: readonly ExecutionStatus[] = ['queued', 'running', 'finished', 'failed'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const unexpected = (what: string, field: string, expected: string): never => {
+  throw new AgentResponseError(`The AI agent returned an unexpected ${what}: ${field} should be ${expected}.`, field);
+};
+
+// null and undefined both mean "not provided"
+const optionalString = (what: string, field: string, value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : unexpected(what, field, 'a string');
+};
+
+// Non-JSON bodies (an HTML error page from a proxy, a truncated reply) become
+// AgentResponseError rather than a bare SyntaxError
+export async function readJson(response: Response, what: string): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AgentResponseError(`The AI agent returned an unreadable ${what} (not valid JSON).`);
+  }
+}
+
+export function parseExecutionResponse(value: unknown): AgentExecutionResponse {
+  const what = 'execution response';
+  if (!isObject(value)) return unexpected(what, 'response', 'an object');
+  if (typeof value.executionId !== 'string' || !value.executionId) {
+    return unexpected(what, 'executionId', 'a non-empty string');
+  }
+  return { executionId: value.executionId };
+}
+
+// Agents may name their outputs differently; outputKeys maps them back onto
+// the fields the app reads
+export function parseStatusResponse(value: unknown, outputKeys: OutputKeys = DEFAULT_OUTPUT_KEYS): AgentStatusResponse {
+  const what = 'status response';
+  if (!isObject(value)) return unexpected(what, 'response', 'an object');
+
+  const { execution } = value;
+  if (!isObject(execution)) return unexpected(what, 'execution', 'an object');
+  if (typeof execution._id !== 'string') return unexpected(what, 'execution._id', 'a string');
+  const status = execution.status as ExecutionStatus;
+  if (!EXECUTION_STATUSES.includes(status)) {
+    return unexpected(what, 'execution.status', `one of ${EXECUTION_STATUSES.join(', ')}`);
+  }
+
+  const { outputs } = execution;
+  if (outputs !== undefined && outputs !== null && !isObject(outputs)) {
+    return unexpected(what, 'execution.outputs', 'an object');
+  }
+
+  return {
+    status: typeof value.status === 'string' ? value.status : '',
+    execution: {
+      _id: execution._id,
+      status,
+      ...(isObject(outputs) && {
+        outputs: {
+          mermaid: optionalString(what, `execution.outputs.${outputKeys.mermaid}`, outputs[outputKeys.mermaid]),
+          description: optionalString(what, `execution.outputs.${outputKeys.description}`, outputs[outputKeys.description]),
+          timestamps: outputs[outputKeys.timestamps],
+        },
+      }),
+    },
+  };
+}
+
+export function parsePlaylistResponse(value: unknown): PlaylistVideo[] {
+  const what = 'playlist response';
+  if (!isObject(value) || !Array.isArray(value.videos)) return unexpected(what, 'videos', 'a list');
+  return value.videos.map((video, i) => {
+    if (!isObject(video) || typeof video.videoId !== 'string' || !video.videoId) {
+      return unexpected(what, `videos[${i}].videoId`, 'a non-empty string');
+    }
+    return { videoId: video.videoId, title: typeof video.title === 'string' ? video.title : video.videoId };
+  });
+}
@@ -1,145 +1,114 @@
-export interface AgentExecutionResponse {
-  executionId: string;
-}
-
-export interface AgentStatusResponse {
-  status: string;
-  execution: {
-    _id: string;
-    status: 'queued' | 'running' | 'finished' | 'failed';
-    outputs?: {
-      mermaid: string;
-      description: string;
-    };
-  };
-}
-
-export interface ProcessResult {
-  mermaid: string;
-  description: string;
-}
-
-export class AgentService {
-  private static readonly API_BASE_URL = 'https://beta-cloud.integrail.ai/api';
-  private static readonly ACCOUNT_ID = import.meta.env.VITE_INTEGRAIL_ACCOUNT_ID;
-  private static readonly AGENT_ID = import.meta.env.VITE_INTEGRAIL_AGENT_ID;
-  
-  static async executeAgent(ytUrl: string): Promise<string> {
-    const bearerToken = import.meta.env.VITE_INTEGRAIL_BEARER_TOKEN;
-    
-    if (!bearerToken) {
-      throw new Error('Bearer token not configured');
+import type { AgentInputs, AgentLogger, AgentProvider, AgentStatusResponse, PlaylistVideo, ProcessOptions, ProcessResult, RefinementRequest } from './agentProvider';
+import { pollExecution, throwIfAborted, type PollOptions } from './polling';
+import type { DiagramSource } from './diagramSource';
+import { parseYouTubeVideoUrl, videoUrl } from '../lib/youtube';
+import type { Transcript } from '../lib/transcript';
+import { parseNodeTimestamps } from '../lib/nodeTimestamps';
+import type { PollLimits } from './agentProfiles';
+
+export type RefinementFields = Pick<AgentInputs, 'instruction' | 'currentMermaid' | 'currentDescription'>;
+
+export abstract class AgentService implements AgentProvider {
+  abstract readonly name: string;
+
+  // Profile limits apply unless the caller passes its own
+  constructor(
+    protected readonly pollLimits: Partial<PollLimits> = {},
+    protected readonly logger: AgentLogger = console,
+  ) {}
+
+  abstract executeAgent(inputs: AgentInputs, signal?: AbortSignal): Promise<string>;
+
+  abstract getExecutionStatus(executionId: string, signal?: AbortSignal): Promise<AgentStatusResponse>;
+
+  abstract listPlaylistVideos(playlistId: string, signal?: AbortSignal): Promise<PlaylistVideo[]>;
+
+  async pollExecutionUntilComplete(executionId: string, options: PollOptions = {}): Promise<ProcessResult> {
+    const statusResponse = await pollExecution(
+      (id, signal) => this.getExecutionStatus(id, signal),
+      executionId,
+      { ...this.pollLimits, ...options },
+    );
+
+    if (statusResponse.execution.status === 'failed') {
+      throw new Error('AI agent execution failed');
     }
-    
-    if (!this.ACCOUNT_ID || !this.AGENT_ID) {
-      throw new Error('Account ID or Agent ID not configured');
+
+    const { outputs } = statusResponse.execution;
+    if (outputs?.mermaid) {
+      const nodeTimestamps = parseNodeTimestamps(outputs.timestamps);
+      return {
+        mermaid: outputs.mermaid,
+        description: outputs.description ?? '',
+        ...(nodeTimestamps && { nodeTimestamps }),
+      };
     }
 
-    try {
-      console.log('Executing agent with YouTube URL:', ytUrl);
-      
-      const response = await fetch(`${this.API_BASE_URL}/${this.ACCOUNT_ID}/agent/${this.AGENT_ID}/execute`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${bearerToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: {
-            ytUrl
-          }
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Agent execution failed:', response.status, response.statusText, errorText);
-        throw new Error(`Failed to execute agent: ${response.status} ${response.statusText}`);
-      }
-
-      const result: AgentExecutionResponse = await response.json();
-      console.log('Agent execution started:', result.executionId);
-      return result.executionId;
-    } catch (error) {
-      console.error('Error executing agent:', error);
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
-        throw new Error('Network error: Unable to connect to the AI agent service. Please check your internet connection and try again.');
-      }
-      throw error;
+    throw new Error('No mermaid diagram received from AI agent');
+  }
+
+  // Turns a diagram source into the agent inputs. YouTube URLs are normalized
+  // and throw YouTubeUrlError before anything is submitted when unusable.
+  protected toAgentInputs(source: DiagramSource, extra: RefinementFields = {}): AgentInputs {
+    if (source.type === 'transcript') {
+      return {
+        inputType: 'transcript',
+        transcript: source.transcript.text,
+        transcriptName: source.transcript.name,
+        transcriptFormat: source.transcript.format,
+        ...extra,
+      };
     }
+
+    const { videoId, startSeconds, endSeconds } = parseYouTubeVideoUrl(source.ytUrl);
+    return {
+      inputType: 'youtube',
+      ytUrl: videoUrl(videoId),
+      videoId,
+      ...(startSeconds !== undefined && { startSeconds }),
+      ...(endSeconds !== undefined && { endSeconds }),
+      ...extra,
+    };
   }
 
-  static async getExecutionStatus(executionId: string): Promise<AgentStatusResponse> {
-    const bearerToken = import.meta.env.VITE_INTEGRAIL_BEARER_TOKEN;
+  private async run(inputs: AgentInputs, options: PollOptions): Promise<ProcessResult> {
+    // Step 1: Execute the agent
+    const executionId = await this.executeAgent(inputs, options.signal);
+    throwIfAborted(options.signal);
+    options.onProgress?.({ type: 'submitted', executionId, attempt: 0, elapsedMs: 0 });
     
-    if (!bearerToken) {
-      throw new Error('Bearer token not configured');
-    }
+    // Step 2: Poll until completion and get both mermaid diagram and description
+    return this.pollExecutionUntilComplete(executionId, options);
+  }
 
+  // Always runs the agent; `fresh` only matters to CachedAgentProvider
+  async processYouTubeUrl(ytUrl: string, options: ProcessOptions = {}): Promise<ProcessResult> {
     try {
-      const response = await fetch(`${this.API_BASE_URL}/${this.ACCOUNT_ID}/agent/${executionId}/status`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${bearerToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Status check failed:', response.status, response.statusText, errorText);
-        throw new Error(`Failed to get execution status: ${response.status} ${response.statusText}`);
-      }
-
-      return await response.json();
+      return await this.run(this.toAgentInputs({ type: 'youtube', ytUrl }), options);
     } catch (error) {
-      console.error('Error getting execution status:', error);
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
-        throw new Error('Network error: Unable to check AI agent status. Please try again.');
-      }
+      this.logger.error('Error processing YouTube URL:', error);
       throw error;
     }
   }
 
-  static async pollExecutionUntilComplete(executionId: string, maxAttempts: number = 300): Promise<ProcessResult> {
-    let attempts = 0;
-    
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-      
-      const statusResponse = await this.getExecutionStatus(executionId);
-      console.log(`Attempt ${attempts + 1}: Status = ${statusResponse.execution.status}`);
-      
-      if (statusResponse.execution.status === 'finished') {
-        if (statusResponse.execution.outputs?.mermaid) {
-          return {
-            mermaid: statusResponse.execution.outputs.mermaid,
-            description: statusResponse.execution.outputs.description || ''
-          };
-        } else {
-          throw new Error('No mermaid diagram received from AI agent');
-        }
-      } else if (statusResponse.execution.status === 'failed') {
-        throw new Error('AI agent execution failed');
-      }
-      
-      attempts++;
+  async processTranscript(transcript: Transcript, options: PollOptions = {}): Promise<ProcessResult> {
+    try {
+      return await this.run(this.toAgentInputs({ type: 'transcript', transcript }), options);
+    } catch (error) {
+      this.logger.error('Error processing transcript:', error);
+      throw error;
     }
-    
-    throw new Error('AI agent processing timeout - please try again');
   }
 
-  static async processYouTubeUrl(ytUrl: string): Promise<ProcessResult> {
+  async refineDiagram(request: RefinementRequest, options: PollOptions = {}): Promise<ProcessResult> {
     try {
-      // Step 1: Execute the agent
-      const executionId = await this.executeAgent(ytUrl);
-      
-      // Step 2: Poll until completion and get both mermaid diagram and description
-      const result = await this.pollExecutionUntilComplete(executionId);
-      
-      return result;
+      return await this.run(this.toAgentInputs(request.source, {
+        instruction: request.instruction,
+        currentMermaid: request.mermaid,
+        currentDescription: request.description,
+      }), options);
     } catch (error) {
-      console.error('Error processing YouTube URL:', error);
+      this.logger.error('Error refining diagram:', error);
       throw error;
     }
   }
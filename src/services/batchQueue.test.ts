@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AgentProvider, ProcessResult } from './agentProvider';
+import { BatchQueue } from './batchQueue';
+import { historyStore } from './historyStore';
+
+const VIDEOS = ['https://youtu.be/aaaaaaaaaaa', 'https://youtu.be/bbbbbbbbbbb'];
+
+// Answers every video from the result cache, as CachedAgentProvider does on a hit
+const cachedAgent = {
+  name: 'cached',
+  processYouTubeUrl: async (ytUrl: string): Promise<ProcessResult> => ({ mermaid: `flowchart TD\n    A[${ytUrl}]`, description: '', cachedAt: 1 }),
+} as AgentProvider;
+
+const settled = (queue: BatchQueue) =>
+  new Promise<void>(resolve => {
+    const check = () => {
+      if (queue.getJobs().every(job => job.status !== 'pending' && job.status !== 'running')) resolve();
+    };
+    queue.subscribe(check);
+    check();
+  });
+
+describe('BatchQueue', () => {
+  beforeEach(() => {
+    vi.spyOn(historyStore, 'put').mockResolvedValue();
+    vi.spyOn(historyStore, 'update').mockResolvedValue();
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('gives cache hits started together history entries of their own', async () => {
+    // Both hits resolve within the same millisecond
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const queue = new BatchQueue(cachedAgent, 2);
+
+    queue.add(VIDEOS.map(ytUrl => ({ ytUrl })));
+    await settled(queue);
+
+    const jobs = queue.getJobs();
+    expect(jobs.map(job => job.status)).toEqual(['finished', 'finished']);
+    expect(new Set(jobs.map(job => job.executionId)).size).toBe(2);
+    const records = vi.mocked(historyStore.put).mock.calls.map(([record]) => record);
+    expect(records.map(record => [record.executionId, record.ytUrl])).toEqual(jobs.map(job => [job.executionId, job.ytUrl]));
+  });
+});
@@ -0,0 +1,173 @@
+import type { AgentProvider, ProcessResult } from './agentProvider';
+import { AgentCancelledError } from './agentErrors';
+import type { PollProgressEvent } from './polling';
+import { DETACH_REASON, runTracked } from './trackedRun';
+import { extractVideoId } from '../lib/youtube';
+
+export type BatchJobStatus = 'pending' | 'running' | 'finished' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  ytUrl: string;
+  title?: string;
+  status: BatchJobStatus;
+  executionId?: string;
+  progress?: PollProgressEvent;
+  result?: ProcessResult;
+  error?: string;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+// Runs batch jobs through the agent with at most `concurrency` in flight, in
+// list order. Every job goes through runTracked, so each one also lands in the
+// history. Listeners are notified after every change, like HistoryStore.
+export class BatchQueue {
+  private jobs: BatchJob[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly listeners = new Set<() => void>();
+  private nextId = 1;
+  private detached = false;
+
+  constructor(private agent: AgentProvider, private concurrency: number = DEFAULT_BATCH_CONCURRENCY) {}
+
+  // Switching agent profiles replaces the provider. Jobs that start from now
+  // on use the new one; running jobs finish on the provider they started with.
+  setAgent(agent: AgentProvider) {
+    this.agent = agent;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getJobs(): BatchJob[] {
+    return this.jobs;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(value: number) {
+    this.concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(value)));
+    this.notify();
+    this.pump();
+  }
+
+  add(entries: { ytUrl: string; title?: string }[]) {
+    // The same video is only queued once, however its URL is spelled
+    const key = (ytUrl: string) => extractVideoId(ytUrl) ?? ytUrl;
+    const known = new Set(this.jobs.map(job => key(job.ytUrl)));
+    const added: BatchJob[] = [];
+    for (const entry of entries) {
+      if (known.has(key(entry.ytUrl))) continue;
+      known.add(key(entry.ytUrl));
+      added.push({ id: `job-${this.nextId++}`, ...entry, status: 'pending' });
+    }
+    this.jobs = [...this.jobs, ...added];
+    this.notify();
+    this.pump();
+    return added.length;
+  }
+
+  cancel(id: string) {
+    const controller = this.controllers.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      this.patch(id, job => (job.status === 'pending' ? { status: 'cancelled' } : {}));
+    }
+  }
+
+  cancelAll() {
+    this.jobs.forEach(job => this.cancel(job.id));
+  }
+
+  retry(id: string) {
+    this.patch(id, job => (job.status === 'failed' || job.status === 'cancelled'
+      ? { status: 'pending', error: undefined, progress: undefined, executionId: undefined }
+      : {}));
+    this.pump();
+  }
+
+  remove(id: string) {
+    this.controllers.get(id)?.abort();
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.notify();
+  }
+
+  // Reordering only changes which pending job starts next
+  move(id: string, delta: number) {
+    const from = this.jobs.findIndex(job => job.id === id);
+    const to = from + delta;
+    if (from === -1 || to < 0 || to >= this.jobs.length) return;
+    const jobs = [...this.jobs];
+    [jobs[from], jobs[to]] = [jobs[to], jobs[from]];
+    this.jobs = jobs;
+    this.notify();
+  }
+
+  clearSettled() {
+    this.jobs = this.jobs.filter(job => job.status === 'pending' || job.status === 'running');
+    this.notify();
+  }
+
+  attach() {
+    this.detached = false;
+    this.pump();
+  }
+
+  // Stops watching without cancelling; runs stay resumable from the history
+  detach() {
+    this.detached = true;
+    this.controllers.forEach(controller => controller.abort(DETACH_REASON));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private patch(id: string, update: (job: BatchJob) => Partial<BatchJob>) {
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...update(job) } : job));
+    this.notify();
+  }
+
+  private pump() {
+    while (!this.detached && this.controllers.size < this.concurrency) {
+      const next = this.jobs.find(job => job.status === 'pending');
+      if (!next) return;
+      this.start(next);
+    }
+  }
+
+  private async start(job: BatchJob) {
+    const { agent } = this;
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.patch(job.id, () => ({ status: 'running' }));
+
+    try {
+      const result = await runTracked({ type: 'youtube', ytUrl: job.ytUrl }, options => agent.processYouTubeUrl(job.ytUrl, options), {
+        signal: controller.signal,
+        onProgress: event => this.patch(job.id, () => ({
+          progress: event,
+          ...(event.type === 'submitted' && { executionId: event.executionId }),
+        })),
+      });
+      const { executionId, ...output } = result;
+      this.patch(job.id, () => ({ status: 'finished', result: output, executionId: executionId ?? undefined }));
+    } catch (error) {
+      if (controller.signal.reason !== DETACH_REASON) {
+        this.patch(job.id, () => (error instanceof AgentCancelledError
+          ? { status: 'cancelled' }
+          : { status: 'failed', error: error instanceof Error ? error.message : String(error) }));
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+}
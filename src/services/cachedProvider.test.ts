@@ -0,0 +1,221 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AgentLogger, AgentProvider, ProcessOptions, ProcessResult } from './agentProvider';
+import { AgentCancelledError } from './agentErrors';
+import { CachedAgentProvider } from './cachedProvider';
+import type { PollProgressEvent } from './polling';
+import { ResultCache, type CachedResult } from './resultCache';
+
+const VIDEO = 'dQw4w9WgXcQ';
+const VIDEO_URL = `https://www.youtube.com/watch?v=${VIDEO}`;
+const TTL_MS = 60_000;
+const KEY = ['agent', VIDEO, '', ''].join('|');
+
+const result = (label: string): ProcessResult => ({ mermaid: `flowchart TD\n    A[${label}]`, description: label });
+
+const SUBMITTED: PollProgressEvent = { type: 'submitted', executionId: 'exec-1', attempt: 0, elapsedMs: 0 };
+const RUNNING: PollProgressEvent = { type: 'status', executionId: 'exec-1', status: 'running', attempt: 1, elapsedMs: 10 };
+
+// Same contract as the IndexedDB-backed cache, in memory
+class MemoryCache extends ResultCache {
+  readonly entries = new Map<string, CachedResult>();
+
+  async get(key: string, ttlMs: number): Promise<CachedResult | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() - entry.createdAt > ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async put(key: string, value: ProcessResult): Promise<void> {
+    this.entries.set(key, { key, result: value, createdAt: Date.now() });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+interface InnerRun {
+  ytUrl: string;
+  options: ProcessOptions;
+  resolve: (value: ProcessResult) => void;
+  reject: (error: unknown) => void;
+}
+
+// Runs stay pending until the test settles them; aborting one rejects it like
+// a real agent service does
+const setup = ({ cache = new MemoryCache(), logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as AgentLogger } = {}) => {
+  const runs: InnerRun[] = [];
+  const inner = {
+    name: 'fake',
+    processYouTubeUrl: (ytUrl: string, options: ProcessOptions = {}) =>
+      new Promise<ProcessResult>((resolve, reject) => {
+        runs.push({ ytUrl, options, resolve, reject });
+        options.signal?.addEventListener('abort', () => reject(new AgentCancelledError()), { once: true });
+      }),
+  } as AgentProvider;
+  const provider = new CachedAgentProvider(inner, 'agent', TTL_MS, cache, logger);
+  const started = (count: number) => vi.waitFor(() => expect(runs).toHaveLength(count));
+  return { provider, runs, cache, logger, started };
+};
+
+describe('CachedAgentProvider', () => {
+  it('runs the agent once for concurrent requests of the same video', async () => {
+    const { provider, runs, cache, started } = setup();
+
+    const first = provider.processYouTubeUrl(VIDEO_URL);
+    const second = provider.processYouTubeUrl(`https://youtu.be/${VIDEO}?si=share`);
+    await started(1);
+    runs[0].resolve(result('shared'));
+
+    expect(await first).toEqual(result('shared'));
+    expect(await second).toEqual(result('shared'));
+    expect(runs).toHaveLength(1);
+    expect(cache.entries.get(KEY)?.result).toEqual(result('shared'));
+  });
+
+  it('keeps different clips of one video apart', async () => {
+    const { provider, started } = setup();
+
+    provider.processYouTubeUrl(VIDEO_URL);
+    provider.processYouTubeUrl(`${VIDEO_URL}&t=30`);
+    await started(2);
+  });
+
+  it('replays the submitted event to a caller that joins late', async () => {
+    const { provider, runs, started } = setup();
+    const early = vi.fn();
+    const late = vi.fn();
+
+    const first = provider.processYouTubeUrl(VIDEO_URL, { onProgress: early });
+    await started(1);
+    runs[0].options.onProgress?.(SUBMITTED);
+    const second = provider.processYouTubeUrl(VIDEO_URL, { onProgress: late });
+    await vi.waitFor(() => expect(late).toHaveBeenCalledWith(SUBMITTED));
+    runs[0].options.onProgress?.(RUNNING);
+    runs[0].resolve(result('shared'));
+    await Promise.all([first, second]);
+
+    expect(early.mock.calls).toEqual([[SUBMITTED], [RUNNING]]);
+    expect(late.mock.calls).toEqual([[SUBMITTED], [RUNNING]]);
+  });
+
+  it('keeps the run going when one of two callers stops waiting', async () => {
+    const { provider, runs, cache, started } = setup();
+    const leaving = new AbortController();
+    const onProgress = vi.fn();
+
+    const first = provider.processYouTubeUrl(VIDEO_URL, { signal: leaving.signal, onProgress });
+    const second = provider.processYouTubeUrl(VIDEO_URL);
+    await started(1);
+    leaving.abort();
+
+    await expect(first).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(runs[0].options.signal?.aborted).toBe(false);
+    runs[0].options.onProgress?.(SUBMITTED);
+    runs[0].resolve(result('shared'));
+    expect(await second).toEqual(result('shared'));
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(cache.entries.has(KEY)).toBe(true);
+  });
+
+  it('cancels the run once the last caller stops waiting', async () => {
+    const { provider, runs, cache, started } = setup();
+    const callers = [new AbortController(), new AbortController()];
+
+    const waits = callers.map(({ signal }) => provider.processYouTubeUrl(VIDEO_URL, { signal }));
+    await started(1);
+    callers[0].abort();
+    await expect(waits[0]).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(runs[0].options.signal?.aborted).toBe(false);
+    callers[1].abort('user');
+
+    await expect(waits[1]).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(runs[0].options.signal?.aborted).toBe(true);
+    expect(runs[0].options.signal?.reason).toBe('user');
+    expect(cache.entries.has(KEY)).toBe(false);
+
+    // The cancelled run is not joined again
+    provider.processYouTubeUrl(VIDEO_URL);
+    await started(2);
+  });
+
+  it('serves a cached result within its lifetime', async () => {
+    const { provider, runs, cache } = setup();
+    await cache.put(KEY, result('cached'));
+
+    expect(await provider.processYouTubeUrl(VIDEO_URL)).toEqual({ ...result('cached'), cachedAt: cache.entries.get(KEY)?.createdAt });
+    expect(runs).toHaveLength(0);
+  });
+
+  it('runs the agent again once the cached result has expired', async () => {
+    const { provider, runs, cache, started } = setup();
+    cache.entries.set(KEY, { key: KEY, result: result('stale'), createdAt: Date.now() - TTL_MS - 1 });
+
+    const pending = provider.processYouTubeUrl(VIDEO_URL);
+    await started(1);
+    runs[0].resolve(result('new'));
+
+    expect(await pending).toEqual(result('new'));
+    expect(cache.entries.get(KEY)?.result).toEqual(result('new'));
+  });
+
+  it('bypasses and replaces the cached result when asked for a fresh one', async () => {
+    const { provider, runs, cache, started } = setup();
+    await cache.put(KEY, result('old'));
+
+    const fresh = provider.processYouTubeUrl(VIDEO_URL, { fresh: true });
+    await started(1);
+    // Callers that do not ask for a fresh result join the fresh run
+    const joined = provider.processYouTubeUrl(VIDEO_URL);
+    runs[0].resolve(result('new'));
+
+    expect(await fresh).toEqual(result('new'));
+    expect(await joined).toEqual(result('new'));
+    expect(runs).toHaveLength(1);
+    expect(cache.entries.get(KEY)?.result).toEqual(result('new'));
+    expect(await provider.processYouTubeUrl(VIDEO_URL)).toMatchObject({ ...result('new'), cachedAt: expect.any(Number) });
+  });
+
+  it('starts a new run for a fresh request while another is running', async () => {
+    const { provider, runs, started } = setup();
+
+    const first = provider.processYouTubeUrl(VIDEO_URL);
+    await started(1);
+    const fresh = provider.processYouTubeUrl(VIDEO_URL, { fresh: true });
+    await started(2);
+    runs[1].resolve(result('fresh'));
+    runs[0].resolve(result('first'));
+
+    expect(await first).toEqual(result('first'));
+    expect(await fresh).toEqual(result('fresh'));
+  });
+
+  it('passes agent failures to every caller and does not cache them', async () => {
+    const { provider, runs, cache, started } = setup();
+
+    const waits = [provider.processYouTubeUrl(VIDEO_URL), provider.processYouTubeUrl(VIDEO_URL)];
+    await started(1);
+    runs[0].reject(new Error('AI agent execution failed'));
+
+    for (const wait of waits) await expect(wait).rejects.toThrowError('AI agent execution failed');
+    expect(cache.entries.size).toBe(0);
+    provider.processYouTubeUrl(VIDEO_URL);
+    await started(2);
+  });
+
+  it('runs the agent when the cache cannot be read', async () => {
+    const cache = new MemoryCache();
+    vi.spyOn(cache, 'get').mockRejectedValue(new Error('IndexedDB is blocked'));
+    const { provider, runs, logger, started } = setup({ cache });
+
+    const pending = provider.processYouTubeUrl(VIDEO_URL);
+    await started(1);
+    runs[0].resolve(result('live'));
+
+    expect(await pending).toEqual(result('live'));
+    expect(logger.warn).toHaveBeenCalledWith('Result cache unavailable:', expect.any(Error));
+  });
+});
@@ -0,0 +1,156 @@
+import type {
+  AgentInputs,
+  AgentLogger,
+  AgentProvider,
+  AgentStatusResponse,
+  PlaylistVideo,
+  ProcessOptions,
+  ProcessResult,
+  RefinementRequest,
+} from './agentProvider';
+import { AgentCancelledError } from './agentErrors';
+import { throwIfAborted, type PollOptions, type PollProgressEvent } from './polling';
+import { resultCache, type ResultCache } from './resultCache';
+import type { Transcript } from '../lib/transcript';
+import { parseYouTubeVideoUrl } from '../lib/youtube';
+
+// One agent execution shared by every caller that asked for the same result
+interface SharedRun {
+  promise: Promise<ProcessResult>;
+  controller: AbortController;
+  listeners: Set<(event: PollProgressEvent) => void>;
+  // Replayed to callers that join late, so they learn the execution ID too
+  submitted?: PollProgressEvent;
+  waiting: number;
+}
+
+// Sits in front of processYouTubeUrl: finished results are reused for `ttlMs`
+// per video (and clip range) and agent, and identical requests made while one
+// is running join that execution instead of starting another. Transcripts and
+// refinements always reach the agent.
+export class CachedAgentProvider implements AgentProvider {
+  readonly name: string;
+  private readonly inflight = new Map<string, SharedRun>();
+
+  constructor(
+    private readonly inner: AgentProvider,
+    // Identifies the agent behind `inner`, e.g. from agentCacheKey()
+    private readonly agentKey: string,
+    private readonly ttlMs: number,
+    private readonly cache: ResultCache = resultCache,
+    private readonly logger: AgentLogger = console,
+  ) {
+    this.name = inner.name;
+  }
+
+  executeAgent(inputs: AgentInputs, signal?: AbortSignal): Promise<string> {
+    return this.inner.executeAgent(inputs, signal);
+  }
+
+  getExecutionStatus(executionId: string, signal?: AbortSignal): Promise<AgentStatusResponse> {
+    return this.inner.getExecutionStatus(executionId, signal);
+  }
+
+  pollExecutionUntilComplete(executionId: string, options?: PollOptions): Promise<ProcessResult> {
+    return this.inner.pollExecutionUntilComplete(executionId, options);
+  }
+
+  processTranscript(transcript: Transcript, options?: PollOptions): Promise<ProcessResult> {
+    return this.inner.processTranscript(transcript, options);
+  }
+
+  refineDiagram(request: RefinementRequest, options?: PollOptions): Promise<ProcessResult> {
+    return this.inner.refineDiagram(request, options);
+  }
+
+  listPlaylistVideos(playlistId: string, signal?: AbortSignal): Promise<PlaylistVideo[]> {
+    return this.inner.listPlaylistVideos(playlistId, signal);
+  }
+
+  async processYouTubeUrl(ytUrl: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+    // Throws YouTubeUrlError for unusable URLs, as the agent service would
+    const { videoId, startSeconds, endSeconds } = parseYouTubeVideoUrl(ytUrl);
+    const key = [this.agentKey, videoId, startSeconds ?? '', endSeconds ?? ''].join('|');
+
+    if (!options.fresh) {
+      const running = this.inflight.get(key);
+      if (running) return this.join(running, options);
+
+      const cached = await this.cache.get(key, this.ttlMs).catch(error => {
+        this.logger.warn('Result cache unavailable:', error);
+        return undefined;
+      });
+      throwIfAborted(options.signal);
+      if (cached) return { ...cached.result, cachedAt: cached.createdAt };
+
+      // Another caller may have started the run while the cache was read
+      const started = this.inflight.get(key);
+      if (started) return this.join(started, options);
+    }
+
+    throwIfAborted(options.signal);
+    return this.join(this.start(key, ytUrl), options);
+  }
+
+  private start(key: string, ytUrl: string): SharedRun {
+    const shared: Omit<SharedRun, 'promise'> = { controller: new AbortController(), listeners: new Set(), waiting: 0 };
+    const promise = this.inner
+      .processYouTubeUrl(ytUrl, {
+        signal: shared.controller.signal,
+        onProgress: event => {
+          if (event.type === 'submitted') shared.submitted = event;
+          shared.listeners.forEach(listener => listener(event));
+        },
+      })
+      .then(async result => {
+        await this.cache.put(key, result).catch(error => this.logger.warn('Unable to cache agent result:', error));
+        return result;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === run) this.inflight.delete(key);
+      });
+    const run: SharedRun = Object.assign(shared, { promise });
+
+    // A fresh run replaces any older one as the run new callers join
+    this.inflight.set(key, run);
+    return run;
+  }
+
+  // Each caller can stop waiting on its own; the execution is only cancelled
+  // once nobody is waiting for it any more
+  private join(run: SharedRun, { signal, onProgress }: ProcessOptions): Promise<ProcessResult> {
+    throwIfAborted(signal);
+    run.waiting++;
+    if (onProgress) {
+      run.listeners.add(onProgress);
+      if (run.submitted) onProgress(run.submitted);
+    }
+
+    return new Promise((resolve, reject) => {
+      let done = false;
+      const leave = () => {
+        if (done) return false;
+        done = true;
+        run.waiting--;
+        if (onProgress) run.listeners.delete(onProgress);
+        signal?.removeEventListener('abort', onAbort);
+        return true;
+      };
+      const onAbort = () => {
+        if (!leave()) return;
+        if (run.waiting === 0) run.controller.abort(signal?.reason);
+        reject(new AgentCancelledError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      run.promise.then(
+        result => {
+          if (leave()) resolve(result);
+        },
+        error => {
+          if (leave()) reject(error);
+        },
+      );
+    });
+  }
+}
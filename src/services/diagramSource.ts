@@ -0,0 +1,27 @@
+import type { HistoryRecord } from './historyStore';
+import { extractVideoId } from '../lib/youtube';
+import { TRANSCRIPT_FORMAT_LABELS, type Transcript } from '../lib/transcript';
+
+// What a diagram is generated from: a YouTube video or a transcript parsed in
+// the browser (subtitle file, meeting notes, pasted text).
+export type DiagramSource =
+  | { type: 'youtube'; ytUrl: string }
+  | { type: 'transcript'; transcript: Transcript };
+
+// History fields that record the source; records from before transcripts
+// existed only carry ytUrl.
+export const sourceFields = (source: DiagramSource): Pick<HistoryRecord, 'ytUrl' | 'videoId' | 'transcript'> =>
+  source.type === 'youtube'
+    ? { ytUrl: source.ytUrl, videoId: extractVideoId(source.ytUrl) }
+    : { videoId: null, transcript: source.transcript };
+
+export const sourceOf = (record: HistoryRecord): DiagramSource =>
+  record.transcript
+    ? { type: 'transcript', transcript: record.transcript }
+    : { type: 'youtube', ytUrl: record.ytUrl ?? '' };
+
+// One-line label for headings, history entries and exports
+export const describeSource = (source: DiagramSource): string =>
+  source.type === 'youtube'
+    ? `YouTube video ${source.ytUrl}`
+    : `${TRANSCRIPT_FORMAT_LABELS[source.transcript.format]} transcript "${source.transcript.name}"`;
\ No newline at end of file
@@ -0,0 +1,109 @@
+import type { ExecutionStatus } from './agentProvider';
+import type { Transcript } from '../lib/transcript';
+import type { NodeTimestamps } from '../lib/nodeTimestamps';
+
+export type HistoryStatus = ExecutionStatus | 'cancelled';
+
+export interface DiagramVersion {
+  mermaid: string;
+  description: string;
+  nodeTimestamps?: NodeTimestamps;
+  createdAt: number;
+  // Follow-up instruction that produced this version; absent for the first run
+  instruction?: string;
+  // Index of the version this one restores, for reverts
+  revertedFrom?: number;
+  // Set on a first version served from the result cache
+  cachedAt?: number;
+}
+
+export interface HistoryRecord {
+  executionId: string;
+  // Exactly one of ytUrl and transcript is set; see diagramSource.ts
+  ytUrl?: string;
+  videoId: string | null;
+  transcript?: Transcript;
+  createdAt: number;
+  updatedAt: number;
+  status: HistoryStatus;
+  mermaid?: string;
+  description?: string;
+  nodeTimestamps?: NodeTimestamps;
+  error?: string;
+  // Refinement turns; mermaid/description above always mirror the latest one
+  versions?: DiagramVersion[];
+}
+
+const DB_NAME = 'cnm-demo';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+export const isInFlight = (record: HistoryRecord) => record.status === 'queued' || record.status === 'running';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Thin promise wrapper around IndexedDB. Listeners are notified after every
+// write so open views (e.g. the history sidebar) can refresh.
+export class HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'executionId' });
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const result = await requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+    if (mode === 'readwrite') {
+      this.listeners.forEach(listener => listener());
+    }
+    return result;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Newest first
+  async list(): Promise<HistoryRecord[]> {
+    const records = await this.transaction<HistoryRecord[]>('readonly', store => store.index('createdAt').getAll());
+    return records.reverse();
+  }
+
+  async get(executionId: string): Promise<HistoryRecord | undefined> {
+    return this.transaction<HistoryRecord | undefined>('readonly', store => store.get(executionId));
+  }
+
+  async put(record: HistoryRecord): Promise<void> {
+    await this.transaction('readwrite', store => store.put(record));
+  }
+
+  async update(executionId: string, patch: Partial<Omit<HistoryRecord, 'executionId'>>): Promise<void> {
+    const existing = await this.get(executionId);
+    if (!existing) return;
+    await this.put({ ...existing, ...patch, updatedAt: Date.now() });
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(executionId));
+  }
+}
+
+export const historyStore = new HistoryStore();
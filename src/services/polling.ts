@@ -0,0 +1,126 @@
+import type { AgentStatusResponse, ExecutionStatus } from './agentProvider';
+import { AgentCancelledError, AgentHttpError, AgentTimeoutError, isTransientError } from './agentErrors';
+
+export type PollProgressEvent =
+  | { type: 'submitted'; executionId: string; attempt: 0; elapsedMs: number }
+  | { type: 'status'; executionId: string; status: ExecutionStatus; attempt: number; elapsedMs: number }
+  | { type: 'retry'; executionId: string; error: string; delayMs: number; attempt: number; elapsedMs: number };
+
+export interface PollOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: PollProgressEvent) => void;
+  // Overall budget for the whole poll, measured from the first request
+  deadlineMs?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  // Consecutive transient failures (429/5xx/network) tolerated before giving up
+  maxRetries?: number;
+}
+
+export const DEFAULT_POLL_OPTIONS = {
+  deadlineMs: 5 * 60 * 1000,
+  initialDelayMs: 1000,
+  maxDelayMs: 10_000,
+  backoffFactor: 1.5,
+  maxRetries: 5,
+};
+
+export type StatusFetcher = (executionId: string, signal?: AbortSignal) => Promise<AgentStatusResponse>;
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new AgentCancelledError();
+  }
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AgentCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AgentCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with +/-20% jitter so parallel pollers drift apart
+export const backoffDelay = (step: number, options: Required<Pick<PollOptions, 'initialDelayMs' | 'maxDelayMs' | 'backoffFactor'>>): number => {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * options.backoffFactor ** step);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+};
+
+// Polls until the execution reaches a terminal state and returns that final
+// status response. Throws AgentCancelledError when the signal aborts and
+// AgentTimeoutError once the deadline passes.
+export async function pollExecution(
+  fetchStatus: StatusFetcher,
+  executionId: string,
+  options: PollOptions = {},
+): Promise<AgentStatusResponse> {
+  const settings = {
+    deadlineMs: options.deadlineMs ?? DEFAULT_POLL_OPTIONS.deadlineMs,
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_POLL_OPTIONS.initialDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_POLL_OPTIONS.maxDelayMs,
+    backoffFactor: options.backoffFactor ?? DEFAULT_POLL_OPTIONS.backoffFactor,
+    maxRetries: options.maxRetries ?? DEFAULT_POLL_OPTIONS.maxRetries,
+  };
+  const { signal, onProgress } = options;
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+
+  let attempt = 0;
+  let consecutiveFailures = 0;
+  let delayMs = settings.initialDelayMs;
+
+  while (true) {
+    if (elapsed() + delayMs > settings.deadlineMs) {
+      throw new AgentTimeoutError();
+    }
+    await sleep(delayMs, signal);
+    attempt++;
+
+    try {
+      const statusResponse = await fetchStatus(executionId, signal);
+      throwIfAborted(signal);
+      consecutiveFailures = 0;
+
+      const status = statusResponse.execution.status;
+      onProgress?.({ type: 'status', executionId, status, attempt, elapsedMs: elapsed() });
+
+      if (status === 'finished' || status === 'failed') {
+        return statusResponse;
+      }
+
+      delayMs = backoffDelay(attempt, settings);
+    } catch (error) {
+      if (signal?.aborted || error instanceof AgentCancelledError) {
+        throw new AgentCancelledError();
+      }
+      if (!isTransientError(error) || consecutiveFailures >= settings.maxRetries) {
+        throw error;
+      }
+
+      consecutiveFailures++;
+      const retryAfter = error instanceof AgentHttpError ? error.retryAfterMs : undefined;
+      delayMs = retryAfter ?? backoffDelay(consecutiveFailures, settings);
+      onProgress?.({
+        type: 'retry',
+        executionId,
+        error: error instanceof Error ? error.message : String(error),
+        delayMs,
+        attempt,
+        elapsedMs: elapsed(),
+      });
+    }
+  }
+}
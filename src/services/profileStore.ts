@@ -0,0 +1,55 @@
+import { parseProfile, type AgentProfile } from './agentProfiles';
+
+const ACTIVE_PROFILE_KEY = 'cnm-demo:agent-profile';
+const PROFILES_KEY = 'cnm-demo:agent-profiles';
+
+// Local storage can be unavailable (private mode, blocked cookies); the app
+// then runs on the default profile and edits last for the session only.
+const read = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn('Unable to save agent profiles:', error);
+  }
+};
+
+const tryParse = (value: unknown): AgentProfile[] => {
+  try {
+    return [parseProfile(value)];
+  } catch (error) {
+    console.warn('Ignoring stored agent profile:', error);
+    return [];
+  }
+};
+
+export const profileStore = {
+  getActiveProfileId(): string | null {
+    return read(ACTIVE_PROFILE_KEY);
+  },
+
+  setActiveProfileId(id: string) {
+    write(ACTIVE_PROFILE_KEY, id);
+  },
+
+  // User-defined profiles; the built-in default is never stored
+  getProfiles(): AgentProfile[] {
+    try {
+      const parsed: unknown = JSON.parse(read(PROFILES_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed.flatMap(tryParse) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  setProfiles(profiles: AgentProfile[]) {
+    write(PROFILES_KEY, JSON.stringify(profiles));
+  },
+};
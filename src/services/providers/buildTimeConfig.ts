@@ -0,0 +1,13 @@
+import { defaultProfile, type AgentProfile } from '../agentProfiles';
+import type { MockSettings } from './mockProvider';
+
+// Vite inlines these at build time; the CLI has its own configuration (see cli/)
+
+// The built-in profile: the provider and proxy chosen at build time
+export const buildTimeProfile = (): AgentProfile =>
+  defaultProfile(import.meta.env.VITE_AGENT_PROVIDER || 'integrail', import.meta.env.VITE_AGENT_PROXY_URL || '/api');
+
+export const buildTimeMockSettings: MockSettings = {
+  scenario: import.meta.env.VITE_MOCK_SCENARIO || undefined,
+  latencyMs: Number(import.meta.env.VITE_MOCK_LATENCY_MS) || undefined,
+};
@@ -0,0 +1,27 @@
+import type { AgentLogger, AgentProvider } from '../agentProvider';
+import { agentCacheKey, type AgentProfile } from '../agentProfiles';
+import { CachedAgentProvider } from '../cachedProvider';
+import { IntegrailProvider } from './integrailProvider';
+import { MockProvider, type MockSettings } from './mockProvider';
+
+// Shared by the app and the CLI, so nothing here may read import.meta.env
+// (see buildTimeConfig.ts for the app's build-time settings)
+export function createAgentProvider(profile: AgentProfile, mock: MockSettings = {}, logger: AgentLogger = console): AgentProvider {
+  switch (profile.provider) {
+    case 'integrail': {
+      // Only live runs are billable; mock fixtures are picked per URL and
+      // must not be served from the cache
+      const provider = new IntegrailProvider(profile, logger);
+      return profile.cacheTtlMs > 0
+        ? new CachedAgentProvider(provider, agentCacheKey(profile), profile.cacheTtlMs, undefined, logger)
+        : provider;
+    }
+    case 'mock':
+      return new MockProvider(mock.scenario, mock.latencyMs, profile.polling, logger);
+    default:
+      throw new Error(`Unknown agent provider "${profile.provider as string}". Expected "integrail" or "mock".`);
+  }
+}
+
+export { IntegrailProvider, MockProvider };
+export type { MockSettings };
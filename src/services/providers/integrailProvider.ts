@@ -0,0 +1,130 @@
+import type { AgentInputs, AgentLogger, AgentStatusResponse, PlaylistVideo } from '../agentProvider';
+import { AgentService } from '../agentService';
+import { AgentCancelledError, AgentHttpError, AgentNetworkError, isFetchFailure, parseRetryAfter } from '../agentErrors';
+import { parseExecutionResponse, parsePlaylistResponse, parseStatusResponse, readJson } from '../agentSchemas';
+import { DEFAULT_OUTPUT_KEYS, mapInputs, type AgentProfile } from '../agentProfiles';
+
+// Omitted settings fall back to the /api proxy path and to the account and
+// agent the proxy is configured with
+export type IntegrailOptions = Partial<Pick<AgentProfile, 'baseUrl' | 'accountId' | 'agentId' | 'inputFields' | 'outputKeys' | 'polling'>>;
+
+export class IntegrailProvider extends AgentService {
+  readonly name = 'integrail';
+
+  private readonly apiBaseUrl: string;
+
+  // All agent traffic goes through the local proxy (see server/), which holds
+  // the Integrail credentials so they never end up in the browser bundle.
+  constructor(private readonly options: IntegrailOptions = {}, logger?: AgentLogger) {
+    super(options.polling, logger);
+    this.apiBaseUrl = options.baseUrl || '/api';
+  }
+
+  // Account and agent overrides travel as query parameters; the proxy only
+  // accepts the ones its operator allowed
+  private agentUrl(path: string, params: Record<string, string | undefined>): string {
+    const query = new URLSearchParams(Object.entries(params).filter((entry): entry is [string, string] => !!entry[1]));
+    const search = query.toString();
+    return `${this.apiBaseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  async executeAgent(inputs: AgentInputs, signal?: AbortSignal): Promise<string> {
+    try {
+      this.logger.log('Executing agent with inputs:', inputs.inputType === 'youtube'
+        ? { ytUrl: inputs.ytUrl, instruction: inputs.instruction }
+        : { transcriptName: inputs.transcriptName, length: inputs.transcript.length, instruction: inputs.instruction });
+      
+      const response = await fetch(this.agentUrl('/execute', { accountId: this.options.accountId, agentId: this.options.agentId }), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          inputs: mapInputs(inputs, this.options.inputFields ?? {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.logger.error('Agent execution failed:', response.status, response.statusText, errorText);
+        throw new AgentHttpError(
+          `Failed to execute agent: ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After')),
+        );
+      }
+
+      const result = parseExecutionResponse(await readJson(response, 'execution response'));
+      this.logger.log('Agent execution started:', result.executionId);
+      return result.executionId;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AgentCancelledError();
+      }
+      this.logger.error('Error executing agent:', error);
+      if (isFetchFailure(error)) {
+        throw new AgentNetworkError('Network error: Unable to connect to the AI agent service. Please check your internet connection and try again.');
+      }
+      throw error;
+    }
+  }
+
+  async getExecutionStatus(executionId: string, signal?: AbortSignal): Promise<AgentStatusResponse> {
+    try {
+      const response = await fetch(this.agentUrl(`/status/${encodeURIComponent(executionId)}`, { accountId: this.options.accountId }), {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.logger.error('Status check failed:', response.status, response.statusText, errorText);
+        throw new AgentHttpError(
+          `Failed to get execution status: ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After')),
+        );
+      }
+
+      return parseStatusResponse(await readJson(response, 'status response'), this.options.outputKeys ?? DEFAULT_OUTPUT_KEYS);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AgentCancelledError();
+      }
+      this.logger.error('Error getting execution status:', error);
+      if (isFetchFailure(error)) {
+        throw new AgentNetworkError('Network error: Unable to check AI agent status. Please try again.');
+      }
+      throw error;
+    }
+  }
+
+  async listPlaylistVideos(playlistId: string, signal?: AbortSignal): Promise<PlaylistVideo[]> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/playlist/${encodeURIComponent(playlistId)}`, { signal });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        throw new AgentHttpError(
+          body?.error || `Failed to load playlist: ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After')),
+        );
+      }
+
+      return parsePlaylistResponse(await readJson(response, 'playlist response'));
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AgentCancelledError();
+      }
+      if (isFetchFailure(error)) {
+        throw new AgentNetworkError('Network error: Unable to load the playlist. Please try again.');
+      }
+      throw error;
+    }
+  }
+}
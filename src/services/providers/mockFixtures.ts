@@ -0,0 +1,127 @@
+import type { ExecutionStatus } from '../agentProvider';
+
+export type MockFrame =
+  | {
+      status: ExecutionStatus;
+      // Deliberately loose so fixtures can replay malformed agent payloads
+      outputs?: Record<string, unknown>;
+    }
+  | {
+      // Simulates a transport-level failure for this poll
+      httpStatus: number;
+    };
+
+export interface MockFixture {
+  name: string;
+  description: string;
+  // One frame is served per status poll; the last frame repeats forever
+  frames: MockFrame[];
+}
+
+const ONBOARDING_MERMAID = `flowchart TD
+    A[New hire accepts offer] --> B[HR creates employee record]
+    B --> C{Equipment needed?}
+    C -->|Yes| D[IT orders laptop and accounts]
+    C -->|No| E[Reuse existing equipment]
+    D --> F[Manager schedules first-week plan]
+    E --> F
+    F --> G[Day one orientation]
+    G --> H{Compliance training passed?}
+    H -->|Yes| I[Assign onboarding buddy]
+    H -->|No| J[Schedule retake]
+    J --> H
+    I --> K[30-day check-in]
+    K --> L[Onboarding complete]`;
+
+// Mixes the shapes agents emit: seconds, "m:ss" and {start, end}
+const ONBOARDING_TIMESTAMPS = {
+  A: 12,
+  B: '0:41',
+  C: '1:15',
+  D: { start: '1:32', end: '2:20' },
+  E: '2:20',
+  F: '2:58',
+  G: '3:40',
+  H: '4:25',
+  I: '5:10',
+  J: { start: 290, end: 305 },
+  K: '5:48',
+  L: '6:30',
+};
+
+const ONBOARDING_DESCRIPTION = `# Employee Onboarding Process
+
+The video walks through how a new hire moves from an accepted offer to a completed onboarding.
+
+## Key Steps
+1. **HR setup** – the employee record is created as soon as the offer is accepted.
+2. **Equipment** – IT provisions hardware and accounts only when nothing can be reused.
+3. **First week** – the manager prepares a plan, followed by a day-one orientation.
+4. **Compliance** – training must be passed before a buddy is assigned; failures loop back to a retake.
+5. **Follow-up** – a 30-day check-in closes the process.`;
+
+const BROKEN_MERMAID = `\`\`\`mermaid
+flowchart TD
+    A[Receive invoice (PDF)] --> B{Amount > 10k?}
+    B -->|Yes|; C[CFO approval: “required”]
+    B -->|No| end[Pay invoice]
+\`\`\``;
+
+const queuedThenRunning: MockFrame[] = [
+  { status: 'queued' },
+  { status: 'queued' },
+  { status: 'running' },
+  { status: 'running' },
+  { status: 'running' },
+];
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  success: {
+    name: 'success',
+    description: 'Queues, runs and finishes with a valid onboarding flowchart',
+    frames: [
+      ...queuedThenRunning,
+      { status: 'finished', outputs: { mermaid: ONBOARDING_MERMAID, description: ONBOARDING_DESCRIPTION, timestamps: ONBOARDING_TIMESTAMPS } },
+    ],
+  },
+  flaky: {
+    name: 'flaky',
+    description: 'Hits transient 503/429 responses mid-run before finishing',
+    frames: [
+      { status: 'queued' },
+      { httpStatus: 503 },
+      { status: 'running' },
+      { httpStatus: 429 },
+      { httpStatus: 502 },
+      { status: 'running' },
+      { status: 'finished', outputs: { mermaid: ONBOARDING_MERMAID, description: ONBOARDING_DESCRIPTION } },
+    ],
+  },
+  failed: {
+    name: 'failed',
+    description: 'Runs for a while and then reports a failed execution',
+    frames: [...queuedThenRunning, { status: 'failed' }],
+  },
+  timeout: {
+    name: 'timeout',
+    description: 'Never leaves the running state, exercising the polling timeout',
+    frames: [{ status: 'queued' }, { status: 'running' }],
+  },
+  'missing-output': {
+    name: 'missing-output',
+    description: 'Finishes without a mermaid output',
+    frames: [...queuedThenRunning, { status: 'finished', outputs: { description: ONBOARDING_DESCRIPTION } }],
+  },
+  malformed: {
+    name: 'malformed',
+    description: 'Finishes with outputs of the wrong type',
+    frames: [...queuedThenRunning, { status: 'finished', outputs: { mermaid: 42, description: ['not', 'markdown'] } }],
+  },
+  'broken-syntax': {
+    name: 'broken-syntax',
+    description: 'Finishes with typical LLM mermaid mistakes (fence, smart quotes, stray semicolon, unquoted labels, reserved id)',
+    frames: [...queuedThenRunning, { status: 'finished', outputs: { mermaid: BROKEN_MERMAID, description: '' } }],
+  },
+};
+
+export const DEFAULT_MOCK_FIXTURE = 'success';
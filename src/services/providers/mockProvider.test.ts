@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoInputs } from '../agentProvider';
+import { MockProvider } from './mockProvider';
+
+const INPUTS: VideoInputs = { inputType: 'youtube', ytUrl: 'https://www.youtube.com/watch?v=mockVideo01', videoId: 'mockVideo01' };
+
+const FAST_POLLING = { deadlineMs: 1000, initialDelayMs: 1, maxDelayMs: 1, maxRetries: 3 };
+
+describe('MockProvider', () => {
+  it('resumes an execution after a reload dropped it from memory', async () => {
+    const executionId = await new MockProvider('success', 0).executeAgent(INPUTS);
+
+    // A fresh instance with another default still replays the submitted fixture
+    const result = await new MockProvider('failed', 0, FAST_POLLING).pollExecutionUntilComplete(executionId);
+    expect(executionId).toMatch(/^mock-success-[0-9a-z]+-1$/);
+    expect(result.mermaid).toMatch(/^flowchart/);
+  });
+
+  it('keeps IDs from different page loads apart', async () => {
+    const first = await new MockProvider('broken-syntax', 0).executeAgent(INPUTS);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await new MockProvider('broken-syntax', 0).executeAgent(INPUTS);
+    expect(first).toMatch(/^mock-broken-syntax-[0-9a-z]+-1$/);
+    expect(second).not.toBe(first);
+  });
+
+  it('rejects an ID it did not issue', async () => {
+    await expect(new MockProvider('success', 0).getExecutionStatus('mock-unknown-abc-1')).rejects.toMatchObject({ status: 404 });
+  });
+});
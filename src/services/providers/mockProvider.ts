@@ -0,0 +1,138 @@
+import type { AgentInputs, AgentLogger, AgentStatusResponse, PlaylistVideo } from '../agentProvider';
+import { AgentService, type RefinementFields } from '../agentService';
+import type { DiagramSource } from '../diagramSource';
+import { AgentHttpError } from '../agentErrors';
+import { parseStatusResponse } from '../agentSchemas';
+import { sleep } from '../polling';
+import type { PollLimits } from '../agentProfiles';
+import { DEFAULT_MOCK_FIXTURE, MOCK_FIXTURES, type MockFixture } from './mockFixtures';
+
+// Placeholder IDs; their runs use the default fixture like any other URL
+const MOCK_PLAYLIST: PlaylistVideo[] = [
+  { videoId: 'mockVideo01', title: 'Mock lesson 1' },
+  { videoId: 'mockVideo02', title: 'Mock lesson 2' },
+  { videoId: 'mockVideo03', title: 'Mock lesson 3' },
+];
+
+// Defaults for runs that do not pick a fixture; omitted values use the built-in ones
+export interface MockSettings {
+  scenario?: string;
+  latencyMs?: number;
+}
+
+interface MockExecution {
+  fixture: MockFixture;
+  // Only kept in memory; refinements are not resumed after a reload
+  inputs?: AgentInputs;
+  polls: number;
+}
+
+// mock-<fixture>-<start time in base 36>-<counter>. The start time keeps IDs
+// unique across page loads, where the counter starts over.
+const EXECUTION_ID = /^mock-(.+)-([0-9a-z]+)-(\d+)$/;
+
+// Stands in for a real refinement: keeps the submitted diagram and appends a
+// visible note node so each follow-up turn yields a distinguishable version.
+const applyMockRefinement = (inputs: AgentInputs, turn: number): Record<string, unknown> => {
+  const label = (inputs.instruction ?? '').replace(/["[\](){}<>|]/g, '').trim();
+  return {
+    mermaid: `${inputs.currentMermaid?.trimEnd() ?? 'flowchart TD'}\n    MOCK_REFINEMENT_${turn}["Refined: ${label}"]`,
+    description: `${inputs.currentDescription?.trimEnd() ?? ''}\n\n## Revision ${turn}\n- ${label}`.trim(),
+  };
+};
+
+// Replays recorded fixtures instead of calling a live agent. The fixture is
+// chosen per request through a `mock=<name>` query parameter on the submitted
+// URL, falling back to the configured default (VITE_MOCK_SCENARIO in the app)
+// and then to the success fixture (transcripts always use the fallback). Normalization strips that parameter,
+// so the choice is recorded against the inputs object before it reaches
+// executeAgent. Executions are rebuilt from their ID when a reload drops them
+// from memory, so resumed runs replay their fixture from the first frame.
+export class MockProvider extends AgentService {
+  readonly name = 'mock';
+
+  private readonly executions = new Map<string, MockExecution>();
+  private readonly requestedFixtures = new WeakMap<AgentInputs, MockFixture>();
+  private nextId = 1;
+
+  constructor(
+    private readonly defaultFixture: string = DEFAULT_MOCK_FIXTURE,
+    private readonly latencyMs: number = 300,
+    pollLimits: Partial<PollLimits> = {},
+    logger?: AgentLogger,
+  ) {
+    super(pollLimits, logger);
+  }
+
+  private resolveFixture(ytUrl?: string): MockFixture {
+    let requested = this.defaultFixture;
+    try {
+      if (ytUrl) requested = new URL(ytUrl).searchParams.get('mock') || requested;
+    } catch {
+      // Not a parseable URL; keep the default fixture
+    }
+
+    const fixture = MOCK_FIXTURES[requested];
+    if (!fixture) {
+      throw new Error(`Unknown mock scenario "${requested}". Available: ${Object.keys(MOCK_FIXTURES).join(', ')}`);
+    }
+    return fixture;
+  }
+
+  protected toAgentInputs(source: DiagramSource, extra?: RefinementFields): AgentInputs {
+    const inputs = super.toAgentInputs(source, extra);
+    this.requestedFixtures.set(inputs, this.resolveFixture(source.type === 'youtube' ? source.ytUrl : undefined));
+    return inputs;
+  }
+
+  async executeAgent(inputs: AgentInputs, signal?: AbortSignal): Promise<string> {
+    await sleep(this.latencyMs, signal);
+
+    const fixture = this.requestedFixtures.get(inputs) ?? this.resolveFixture(inputs.inputType === 'youtube' ? inputs.ytUrl : undefined);
+    const executionId = `mock-${fixture.name}-${Date.now().toString(36)}-${this.nextId++}`;
+    this.executions.set(executionId, { fixture, inputs, polls: 0 });
+    return executionId;
+  }
+
+  async getExecutionStatus(executionId: string, signal?: AbortSignal): Promise<AgentStatusResponse> {
+    await sleep(this.latencyMs, signal);
+
+    const execution = this.executions.get(executionId) ?? this.rebuildExecution(executionId);
+    if (!execution) {
+      throw new AgentHttpError(`Failed to get execution status: 404 Unknown mock execution ${executionId}`, 404);
+    }
+
+    const { frames } = execution.fixture;
+    const frame = frames[Math.min(execution.polls, frames.length - 1)];
+    execution.polls++;
+
+    if ('httpStatus' in frame) {
+      throw new AgentHttpError(`Failed to get execution status: ${frame.httpStatus} (mock)`, frame.httpStatus);
+    }
+
+    const outputs = frame.status === 'finished' && execution.inputs?.instruction && typeof frame.outputs?.mermaid === 'string'
+      ? applyMockRefinement(execution.inputs, this.nextId)
+      : frame.outputs;
+
+    // Fixtures go through the same validation as live responses
+    return parseStatusResponse({
+      status: 'ok',
+      execution: { _id: executionId, status: frame.status, outputs },
+    });
+  }
+
+  private rebuildExecution(executionId: string): MockExecution | undefined {
+    const fixture = MOCK_FIXTURES[executionId.match(EXECUTION_ID)?.[1] ?? ''];
+    if (!fixture) return undefined;
+
+    const execution = { fixture, polls: 0 };
+    this.executions.set(executionId, execution);
+    return execution;
+  }
+
+  // Every playlist expands to the same three videos
+  async listPlaylistVideos(playlistId: string, signal?: AbortSignal): Promise<PlaylistVideo[]> {
+    await sleep(this.latencyMs, signal);
+    return MOCK_PLAYLIST.map(video => ({ ...video, title: `${video.title} (${playlistId})` }));
+  }
+}
@@ -0,0 +1,63 @@
+import type { ProcessResult } from './agentProvider';
+
+export interface CachedResult {
+  key: string;
+  result: ProcessResult;
+  createdAt: number;
+}
+
+const DB_NAME = 'cnm-demo-cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Finished agent results by cache key (see CachedAgentProvider), kept in
+// their own database so the history schema stays untouched. Expired entries
+// are dropped when read.
+export class ResultCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  }
+
+  async get(key: string, ttlMs: number): Promise<CachedResult | undefined> {
+    const entry = await this.transaction<CachedResult | undefined>('readonly', store => store.get(key));
+    if (!entry) return undefined;
+    if (Date.now() - entry.createdAt > ttlMs) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async put(key: string, result: ProcessResult): Promise<void> {
+    await this.transaction('readwrite', store => store.put({ key, result, createdAt: Date.now() } satisfies CachedResult));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(key));
+  }
+}
+
+export const resultCache = new ResultCache();
@@ -0,0 +1,56 @@
+import type { BrandPalette } from '../lib/themes';
+
+const ACTIVE_THEME_KEY = 'cnm-demo:theme';
+const BRAND_PALETTES_KEY = 'cnm-demo:brand-themes';
+
+const isPalette = (value: unknown): value is BrandPalette => {
+  const palette = value as Partial<BrandPalette> | null;
+  return (
+    !!palette &&
+    typeof palette.id === 'string' &&
+    typeof palette.name === 'string' &&
+    (palette.base === 'dark' || palette.base === 'light') &&
+    ['primary', 'secondary', 'accent', 'background', 'text'].every(key => typeof palette[key as keyof BrandPalette] === 'string')
+  );
+};
+
+// Local storage can be unavailable (private mode, blocked cookies); theme
+// preferences then simply do not persist.
+const read = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    console.warn('Unable to save theme preferences:', error);
+  }
+};
+
+export const themeStore = {
+  getActiveThemeId(): string | null {
+    return read(ACTIVE_THEME_KEY);
+  },
+
+  setActiveThemeId(id: string) {
+    write(ACTIVE_THEME_KEY, id);
+  },
+
+  getBrandPalettes(): BrandPalette[] {
+    try {
+      const parsed: unknown = JSON.parse(read(BRAND_PALETTES_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed.filter(isPalette) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  setBrandPalettes(palettes: BrandPalette[]) {
+    write(BRAND_PALETTES_KEY, JSON.stringify(palettes));
+  },
+};
@@ -0,0 +1,83 @@
+import type { ProcessResult } from './agentProvider';
+import { AgentCancelledError } from './agentErrors';
+import { historyStore } from './historyStore';
+import type { PollOptions } from './polling';
+import { sourceFields, type DiagramSource } from './diagramSource';
+
+// Abort reason for callers that stop watching a run (e.g. on unmount) without
+// cancelling it; such runs stay in flight in the history and resume on reload.
+export const DETACH_REASON = 'detach';
+
+// Cache hits resolve within the same millisecond when a batch starts several
+// at once, so their history IDs carry a counter besides the time
+let nextCachedId = 1;
+
+export interface TrackedRunOptions extends PollOptions {
+  // Set when resuming an execution that already has a history record
+  executionId?: string;
+}
+
+export interface TrackedRunResult extends ProcessResult {
+  executionId: string | null;
+}
+
+// Runs an agent job while mirroring its lifecycle into the history store.
+export async function runTracked(
+  source: DiagramSource,
+  run: (options: PollOptions) => Promise<ProcessResult>,
+  { executionId: knownExecutionId, ...options }: TrackedRunOptions = {},
+): Promise<TrackedRunResult> {
+  let executionId = knownExecutionId ?? null;
+
+  const persist = (work: Promise<void>) => work.catch(err => console.error('Failed to update history:', err));
+
+  try {
+    const result = await run({
+      ...options,
+      onProgress: event => {
+        options.onProgress?.(event);
+
+        if (event.type === 'submitted') {
+          executionId = event.executionId;
+          const now = Date.now();
+          persist(historyStore.put({
+            executionId,
+            ...sourceFields(source),
+            createdAt: now,
+            updatedAt: now,
+            status: 'queued',
+          }));
+        } else if (event.type === 'status' && (event.status === 'queued' || event.status === 'running')) {
+          persist(historyStore.update(event.executionId, { status: event.status }));
+        }
+      },
+    });
+
+    const { cachedAt, ...output } = result;
+    if (executionId) {
+      await persist(historyStore.update(executionId, { status: 'finished', ...output, error: undefined }));
+    } else if (cachedAt !== undefined) {
+      // Cached results never reach the agent; they still get a history entry
+      // of their own so they can be reopened and refined like any other
+      executionId = `cached-${Date.now().toString(36)}-${nextCachedId++}`;
+      const now = Date.now();
+      await persist(historyStore.put({
+        executionId,
+        ...sourceFields(source),
+        createdAt: now,
+        updatedAt: now,
+        status: 'finished',
+        ...output,
+        versions: [{ ...output, createdAt: now, cachedAt }],
+      }));
+    }
+    return { ...result, executionId };
+  } catch (error) {
+    if (executionId && options.signal?.reason !== DETACH_REASON) {
+      await persist(historyStore.update(executionId, error instanceof AgentCancelledError
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error instanceof Error ? error.message : String(error) }));
+    }
+    throw error;
+  }
+}
@@ -1,8 +1,10 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_INTEGRAIL_BEARER_TOKEN: string
-  readonly VITE_INTEGRAIL_ACCOUNT_ID: string
+  readonly VITE_AGENT_PROXY_URL?: string
+  readonly VITE_AGENT_PROVIDER?: 'integrail' | 'mock'
+  readonly VITE_MOCK_SCENARIO?: string
+  readonly VITE_MOCK_LATENCY_MS?: string
 }
 
 interface ImportMeta {
@@ -1,3 +1,9 @@
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+// Theme-driven colours resolve to CSS variables set at runtime (src/lib/chromeTheme.ts)
+const themed = name => `rgb(var(--${name}) / <alpha-value>)`
+const themedScale = name => Object.fromEntries(SHADES.map(shade => [shade, themed(`${name}-${shade}`)]))
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -44,10 +50,12 @@ export default {
         },
       },
       colors: {
-        'cyber-purple': '#8B5CF6',
-        'cyber-blue': '#0EA5E9',
-        'cyber-pink': '#EC4899',
-        'cyber-green': '#10B981',
+        slate: themedScale('slate'),
+        red: themedScale('red'),
+        'cyber-purple': themed('cyber-purple'),
+        'cyber-blue': themed('cyber-blue'),
+        'cyber-pink': themed('cyber-pink'),
+        'cyber-green': themed('cyber-green'),
       },
     },
   },